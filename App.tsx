@@ -1,15 +1,32 @@
 
-import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { WPConnection, WPPostHeader, WPPostFull, PostHealth, SemanticNode, AIConfig, AIAnalysisResult, ProcessedItem, DraftMode } from './types';
-import { fetchAllPostHeaders, fetchPostContent, updatePostRemote } from './services/wordpressService';
-import { stripHtmlPreservingStructure, tokenize, calculateRelevance, parseHealth, calculateScore, renderFinalHtml } from './utils/helpers';
-import { analyzeAndGenerateAssets } from './services/aiService';
+import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
+import { WPConnection, WPPostHeader, WPPostFull, PostHealth, SemanticNode, AIConfig, AIAnalysisResult, ProcessedItem, DraftMode, AIUsageRecord, SectionTarget, PostSnapshot, ProductOverride, PublishOptions, PublishMode, PublishLogEntry, ScheduledPublish, SeoPlugin, TaxonomyIndex, Workspace, AsinCheck, AffiliateAuditReport, ProductReplacement, ReplacementPreview, ManualMapping } from './types';
+import { fetchAllPostHeaders, fetchPostContent, publishPostRemote, fetchTaxonomyIndex, isLiveStatus } from './services/wordpressService';
+import { createSnapshot, restoreSnapshot } from './services/publishHistory';
+import { loadSiteState, saveSiteState, clearSiteState } from './services/persistenceService';
+import { listWorkspaces, openWorkspace, updateWorkspace, removeWorkspace, summarizeHealth, importWorkspaces, adoptPlaintextSecrets } from './services/workspaceService';
+import { isVaultUnlocked, getSiteSecrets, saveSiteSecrets, removeSiteSecrets, pickSecrets, exportVaultBackup } from './services/vaultService';
+import { sideloadImage, altTextFor, isHostedOnSite } from './services/mediaService';
+import { resolveAsin, applyAsinResolution, AsinResolution } from './services/asinResolver';
+import { replaceInAiResult } from './services/productReplaceService';
+import { detectSeoPlugin, defaultSeoFields, embedSchema, buildNativeFields, writeSeoPluginFields } from './services/seoPluginService';
+import { stripHtmlPreservingStructure, tokenize, calculateRelevance, parseHealth, calculateScore, renderFinalHtml, templateFromRenderedHtml, applyLastUpdatedNotice, resolveAffiliateTag, resolveMarketplace } from './utils/helpers';
+import { analyzeAndGenerateAssets, regenerateSection } from './services/aiService';
+import { isProviderConfigured, resolveModel } from './services/providers';
+import { AIValidationError } from './utils/schema';
+import { summarizeUsage, formatUsd, formatTokens, resolvePrice } from './utils/usage';
+import { redactError } from './utils/redact';
+import { spreadSchedule } from './utils/scheduling';
 import { searchSerper } from './services/serperService';
 import ConnectModal from './components/ConnectModal';
 import PostList from './components/PostList';
 import { ReviewResults } from './components/ReviewResults';
 import { SettingsModal } from './components/SettingsModal';
-import { Network, BrainCircuit, Settings, DownloadCloud, Square, ArrowLeft, Activity, Zap, Layers } from 'lucide-react';
+import { PortfolioView } from './components/PortfolioView';
+import { VaultModal } from './components/VaultModal';
+import { AffiliateAudit } from './components/AffiliateAudit';
+import { ProductReplace } from './components/ProductReplace';
+import { Network, BrainCircuit, Settings, DownloadCloud, Square, ArrowLeft, Activity, Zap, Layers, Coins, PauseCircle, Globe, ChevronDown, Plus, LayoutGrid, CalendarClock } from 'lucide-react';
 import { DEFAULT_MODELS } from './constants';
 import { LandingPage } from './components/LandingPage';
 
@@ -99,6 +116,21 @@ self.onmessage = (e) => {
 };
 `;
 
+// What a successful publish leaves the post as; only 'update' puts the rewrite live right away
+const PUBLISH_OUTCOMES: Record<PublishMode, PostHealth['status']> = {
+  update: 'published',
+  draft_revision: 'revision_saved',
+  pending: 'submitted',
+  schedule: 'scheduled'
+};
+
+// Posts with a reviewed draft, whether or not it has reached WordPress yet
+const REVIEW_STATUSES: PostHealth['status'][] = ['review_pending', 'published', 'revision_saved', 'submitted', 'scheduled'];
+
+// A staged slot this far overdue was missed while the tab was closed, not just caught by the next minute tick
+const MISSED_SLOT_MS = 5 * 60 * 1000;
+const RESPREAD_WINDOW_MS = 24 * 60 * 60 * 1000;
+
 const App: React.FC = () => {
   const [showLanding, setShowLanding] = useState(true);
   const [connection, setConnection] = useState<WPConnection | null>(null);
@@ -108,9 +140,17 @@ const App: React.FC = () => {
   const [processing, setProcessing] = useState<number[]>([]);
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
   const [loadingMsg, setLoadingMsg] = useState('');
-  const [viewMode, setViewMode] = useState<'dashboard' | 'review'>('dashboard');
+  const [viewMode, setViewMode] = useState<'dashboard' | 'review' | 'portfolio' | 'audit' | 'replace'>('dashboard');
   const [autoPilot, setAutoPilot] = useState(false); 
   const [draftMode, setDraftMode] = useState<DraftMode>('full'); 
+  const [seoPlugin, setSeoPlugin] = useState<SeoPlugin>('none');
+  const [taxonomy, setTaxonomy] = useState<TaxonomyIndex | undefined>(undefined);
+  const [auditReport, setAuditReport] = useState<AffiliateAuditReport | null>(null);
+  const [workspaces, setWorkspaces] = useState<Workspace[]>(() => listWorkspaces());
+  const [activeWorkspaceId, setActiveWorkspaceId] = useState<string | null>(null);
+  const [isSiteMenuOpen, setIsSiteMenuOpen] = useState(false);
+  const [vaultReady, setVaultReady] = useState(isVaultUnlocked()); // Unlocked, or skipped for this session
+  const persistedSiteRef = useRef<string | null>(null); // Set once the site's saved state is hydrated
   
   const [aiConfig, setAiConfig] = useState<AIConfig>({
       provider: 'gemini',
@@ -120,6 +160,17 @@ const App: React.FC = () => {
       serperApiKey: ''
   });
 
+  // --- BATCH SPEND ---
+  // Every AI call of the current batch (failed runs included). The cap only gates dequeuing:
+  // posts already in flight finish, the rest of the queue waits until the budget is extended.
+  const [batchUsage, setBatchUsage] = useState<AIUsageRecord[]>([]);
+  const [budgetExtensions, setBudgetExtensions] = useState(0);
+  const [unmeteredAccepted, setUnmeteredAccepted] = useState(false);
+  const batchSpend = useMemo(() => summarizeUsage(batchUsage), [batchUsage]);
+  const budgetCap = aiConfig.budgetCapUsd ? aiConfig.budgetCapUsd * (1 + budgetExtensions) : 0;
+  // A call on a model with no known price makes the spend a floor, so the cap pauses until the user accepts that
+  const budgetReached = budgetCap > 0 && (batchSpend.costUsd >= budgetCap || (batchSpend.unpriced && !unmeteredAccepted));
+
   const [semanticNodes, setSemanticNodes] = useState<SemanticNode[]>([]);
   const workerRef = useRef<Worker | null>(null);
 
@@ -139,9 +190,15 @@ const App: React.FC = () => {
     return () => { workerRef.current?.terminate(); URL.revokeObjectURL(workerUrl); };
   }, []);
 
+  // The queue reads CSV mappings through a ref so it doesn't re-subscribe to every health update
+  const healthRef = useRef(healthData);
+  healthRef.current = healthData;
+
+  const restBaseFor = useCallback((id: number) => posts.find(p => p.id === id)?.restBase || 'posts', [posts]);
+
   const processQueue = useCallback(async () => {
     const maxConcurrency = aiConfig.concurrency || 2;
-    if (!connection || queue.length === 0 || processing.length >= maxConcurrency) return;
+    if (!connection || queue.length === 0 || processing.length >= maxConcurrency || budgetReached) return;
 
     const slots = maxConcurrency - processing.length;
     const batch = queue.slice(0, slots);
@@ -153,9 +210,10 @@ const App: React.FC = () => {
         const safetyTimeout = new Promise((_, reject) => setTimeout(() => reject(new Error("Timeout (15min Exceeded)")), 900000));
 
         const task = async () => {
+            const ledger: AIUsageRecord[] = [];
             try {
                 setHealthData(prev => ({ ...prev, [id]: { ...prev[id], status: 'scanning' } }));
-                const post = await fetchPostContent(connection, id);
+                const post = await fetchPostContent(connection, id, restBaseFor(id));
                 const cleanText = stripHtmlPreservingStructure(post.content.rendered);
                 const targetTokens = tokenize(post.title.rendered);
                 
@@ -180,24 +238,37 @@ const App: React.FC = () => {
                     meshNeighbors, 
                     serperData.organics, 
                     serperData.paa, 
-                    { ...aiConfig, draftMode }
+                    { ...aiConfig, draftMode },
+                    ledger
                 );
 
-                setHealthData(prev => ({ ...prev, [id]: { ...prev[id], status: 'review_pending', draftHtml: assets.contentWithLinks, aiResult: assets, productOverrides: {} } }));
+                // A mapped ASIN replaces the AI's product guess before the draft reaches review
+                let result = assets;
+                const mapping = healthRef.current[id]?.manualMapping;
+                const mapped = mapping && (assets.detectedProducts.find(p => p.name.toLowerCase() === mapping.productName.toLowerCase()) || assets.detectedProducts[0]);
+                if (mapping && mapped) {
+                    const resolution = await resolveAsin(aiConfig, mapping.asin, mapping.productName || mapped.name);
+                    const detectedProducts = applyAsinResolution(assets.detectedProducts, mapped.name, resolution, aiConfig);
+                    result = { ...assets, detectedProducts, contentWithLinks: renderFinalHtml(assets.contentTemplate, detectedProducts, undefined, resolveAffiliateTag(aiConfig), resolveMarketplace(aiConfig)) };
+                }
+
+                setHealthData(prev => ({ ...prev, [id]: { ...prev[id], status: 'review_pending', validationIssues: undefined, originalHtml: post.content.rendered, draftHtml: result.contentWithLinks, aiResult: result, productOverrides: {} } }));
             } catch (e: any) {
                 console.error(e);
-                setHealthData(prev => ({ ...prev, [id]: { ...prev[id], status: 'error', log: e.message } }));
+                const validationIssues = e instanceof AIValidationError ? e.issues : undefined;
+                setHealthData(prev => ({ ...prev, [id]: { ...prev[id], status: 'error', log: redactError(e), validationIssues } }));
             } finally {
+                if (ledger.length > 0) setBatchUsage(prev => [...prev, ...ledger]);
                 setProcessing(prev => prev.filter(x => x !== id));
             }
         };
 
         Promise.race([task(), safetyTimeout]).catch(err => {
-             setHealthData(prev => ({ ...prev, [id]: { ...prev[id], status: 'error', log: (err as Error).message } }));
+             setHealthData(prev => ({ ...prev, [id]: { ...prev[id], status: 'error', log: redactError(err) } }));
              setProcessing(prev => prev.filter(x => x !== id));
         });
     });
-  }, [connection, queue, processing, semanticNodes, aiConfig, draftMode]);
+  }, [connection, queue, processing, semanticNodes, aiConfig, draftMode, budgetReached, restBaseFor]);
 
   useEffect(() => { processQueue(); }, [processQueue]);
 
@@ -210,16 +281,24 @@ const App: React.FC = () => {
           const compatibleUpdates: Partial<PostHealth> = {};
           if (updates.productOverrides) compatibleUpdates.productOverrides = updates.productOverrides;
           if (updates.draftHtml) compatibleUpdates.draftHtml = updates.draftHtml;
-          if (updates.customImageUrl) compatibleUpdates.customImageUrl = updates.customImageUrl;
+          if (updates.customImageUrl !== undefined) compatibleUpdates.customImageUrl = updates.customImageUrl;
           if (updates.manualMapping) compatibleUpdates.manualMapping = updates.manualMapping;
           
-          // HOT RELOAD: If overrides changed, re-render from template immediately
           const currentItem = prev[numId];
-          const template = currentItem.aiResult?.contentTemplate;
+          let template = currentItem.aiResult?.contentTemplate;
+
+          // MANUAL EDITS: Fold the edited draft back into the template so product boxes stay re-renderable
+          if (updates.draftHtml && template && currentItem.aiResult) {
+               template = templateFromRenderedHtml(updates.draftHtml);
+               compatibleUpdates.aiResult = { ...currentItem.aiResult, contentTemplate: template };
+               compatibleUpdates.draftHtml = renderFinalHtml(template, currentItem.aiResult.detectedProducts, updates.productOverrides || currentItem.productOverrides, resolveAffiliateTag(aiConfig), resolveMarketplace(aiConfig));
+          }
+
+          // HOT RELOAD: If overrides changed, re-render from template immediately
           if (updates.productOverrides && template && currentItem.aiResult) {
                // Merge existing overrides with new updates
                const newOverrides = updates.productOverrides;
-               const newHtml = renderFinalHtml(template, currentItem.aiResult.detectedProducts, newOverrides, aiConfig.amazonAffiliateTag);
+               const newHtml = renderFinalHtml(template, currentItem.aiResult.detectedProducts, newOverrides, resolveAffiliateTag(aiConfig), resolveMarketplace(aiConfig));
                compatibleUpdates.draftHtml = newHtml;
           }
 
@@ -227,80 +306,501 @@ const App: React.FC = () => {
       });
   };
 
-  const handlePublish = async (id: string, content: string) => {
-      if (!connection) return;
+  // ASIN OVERRIDES: Fetch the item by ASIN so title, image, price and features follow the ASIN, not the AI guess
+  const handleResolveAsin = async (id: string, productName: string, asin: string): Promise<AsinCheck> => {
+      const numId = parseInt(id);
+      const resolution = await resolveAsin(aiConfig, asin, productName);
+      setHealthData(prev => {
+          const current = prev[numId];
+          if (!current?.aiResult) return prev;
+          const detectedProducts = applyAsinResolution(current.aiResult.detectedProducts, productName, resolution, aiConfig);
+          // Fold manual edits back in first, as handleUpdateItem does, so the re-render keeps them
+          const template = current.aiResult.contentTemplate && current.draftHtml ? templateFromRenderedHtml(current.draftHtml) : current.aiResult.contentTemplate;
+          const aiResult = { ...current.aiResult, detectedProducts, contentTemplate: template };
+          const draftHtml = template ? renderFinalHtml(template, detectedProducts, current.productOverrides, resolveAffiliateTag(aiConfig), resolveMarketplace(aiConfig)) : current.draftHtml;
+          return { ...prev, [numId]: { ...current, aiResult, draftHtml } };
+      });
+      return resolution.check;
+  };
+
+  // Replacements land as drafts in Reviews. An unpublished draft keeps its analysis and overrides, pointed at the
+  // new product, and goes back to review because the copy on WordPress no longer matches. A live post gets a draft
+  // of its stored block markup; an earlier analysis stays, minus the template that would re-render over that markup.
+  const handleQueueReplacements = (previews: ReplacementPreview[], spec: ProductReplacement, resolution: AsinResolution) => {
+      setHealthData(prev => {
+          const next = { ...prev };
+          previews.forEach(preview => {
+              const current = prev[preview.postId];
+              // Scheduled since the scan: its schedule would go live with the old product, so leave it alone
+              if (current?.status === 'scheduled') return;
+              const aiResult = current?.aiResult && replaceInAiResult(current.aiResult, spec, preview.updatedMarkup, resolution.product, resolution.check, aiConfig);
+              next[preview.postId] = preview.source === 'draft'
+                  ? { ...current, status: 'review_pending', draftHtml: preview.updatedMarkup, aiResult }
+                  : { ...current, status: 'review_pending', validationIssues: undefined, originalHtml: preview.originalMarkup, draftHtml: preview.updatedMarkup, aiResult: aiResult && { ...aiResult, contentTemplate: undefined } };
+          });
+          return next;
+      });
+      setViewMode('review');
+  };
+
+  // CSV ASIN mappings stay on the post; its next draft uses the mapped ASIN instead of the AI's pick.
+  // Resolves to the posts that matched, for the list to select.
+  const handleApplyMappings = (mappings: { slug: string; mapping: ManualMapping }[]): number[] => {
+      const normalize = (value: string) => value.toLowerCase().replace(/^\/|\/$/g, '');
+      const pathOf = (link: string) => { try { return new URL(link).pathname; } catch (e) { return link; } };
+      const matched = new Map<number, ManualMapping>();
+      mappings.forEach(({ slug, mapping }) => {
+          const wanted = normalize(slug);
+          const post = posts.find(p => {
+              const path = normalize(pathOf(p.link));
+              return p.slug === wanted || path === wanted || path.endsWith(`/${wanted}`) || wanted.endsWith(`/${p.slug}`);
+          });
+          if (post && healthData[post.id]) matched.set(post.id, mapping);
+      });
+      setHealthData(prev => {
+          const next = { ...prev };
+          matched.forEach((mapping, id) => { next[id] = { ...next[id], manualMapping: mapping }; });
+          return next;
+      });
+      return Array.from(matched.keys());
+  };
+
+  const handleRegenerateSection = async (id: string, target: SectionTarget, instruction: string) => {
+      const numId = parseInt(id);
+      const aiResult = healthData[numId]?.aiResult;
+      if (!aiResult) return;
+      const ledger: AIUsageRecord[] = [];
+      try {
+          const updated = await regenerateSection(aiResult, target, instruction, { ...aiConfig, draftMode }, ledger);
+          setHealthData(prev => {
+              const current = prev[numId];
+              // Re-render whatever changed in the template with the current product overrides
+              const draftHtml = updated.contentTemplate !== aiResult.contentTemplate && updated.contentTemplate
+                  ? renderFinalHtml(updated.contentTemplate, updated.detectedProducts, current.productOverrides, resolveAffiliateTag(aiConfig), resolveMarketplace(aiConfig))
+                  : current.draftHtml;
+              return { ...prev, [numId]: { ...current, aiResult: updated, draftHtml } };
+          });
+      } finally {
+          if (ledger.length > 0) setBatchUsage(prev => [...prev, ...ledger]);
+      }
+  };
+
+  // MEDIA: Upload product images to the media library and point the overrides at the hosted copies
+  const sideloadProductImages = async (numId: number, productNames?: string[]): Promise<{ overrides: Record<string, ProductOverride>; failures: string[] }> => {
+      const item = healthData[numId];
+      const overrides = { ...(item?.productOverrides || {}) };
+      const failures: string[] = [];
+      if (!connection || !item?.aiResult) return { overrides, failures };
+      for (const prod of item.aiResult.detectedProducts) {
+          if (productNames && !productNames.includes(prod.name)) continue;
+          const source = overrides[prod.name]?.image || prod.amazonData?.imageUrl;
+          if (!source || isHostedOnSite(connection, source)) continue;
+          try {
+              const media = await sideloadImage(connection, source, altTextFor(overrides[prod.name]?.title || prod.amazonData?.title || prod.name));
+              overrides[prod.name] = { ...overrides[prod.name], image: media.url, mediaId: media.id };
+          } catch (e: any) {
+              failures.push(`${prod.name}: ${redactError(e)}`);
+          }
+      }
+      return { overrides, failures };
+  };
+
+  const handleSideloadImages = async (id: string, productNames?: string[]) => {
+      const { overrides, failures } = await sideloadProductImages(parseInt(id), productNames);
+      handleUpdateItem(id, { productOverrides: overrides });
+      if (failures.length > 0) throw new Error(failures.join('; '));
+  };
+
+  const handlePublish = async (id: string, content: string, options: PublishOptions = { mode: 'update' }): Promise<string[]> => {
+      if (!connection) return [];
       try {
           const numId = parseInt(id);
           // Note: Content passed here is the `draftHtml` which is already fully rendered by handleUpdateItem
           // or initial generation. We trust it is WYSIWYG.
-          
-          await updatePostRemote(connection, numId, { content: content, date: new Date().toISOString() });
-          setHealthData(prev => ({ ...prev, [numId]: { ...prev[numId], status: 'published' } }));
+
+          // BACKUP: Never overwrite a live post we could not snapshot
+          let snapshot: PostSnapshot;
+          try {
+              snapshot = await createSnapshot(connection, numId, 'publish', aiConfig.trackWpRevisions, restBaseFor(numId));
+          } catch (e: any) {
+              throw new Error(`Backup failed, publish aborted: ${redactError(e)}`);
+          }
+
+          // DATE POLICY: Scheduling and draft revisions manage the date themselves
+          const datesApply = options.mode === 'update' || options.mode === 'pending';
+          const resolved: PublishOptions = {
+              ...options,
+              datePolicy: datesApply ? (options.datePolicy || aiConfig.datePolicy || 'modified_only') : undefined,
+              lastUpdatedNotice: options.lastUpdatedNotice ?? !!aiConfig.lastUpdatedNotice,
+              seoFields: options.seoFields ?? defaultSeoFields(seoPlugin)
+          };
+          // A live post is never scheduled in WordPress (it would go offline); its rewrite waits as a draft revision
+          const staged = resolved.mode === 'schedule' && isLiveStatus(snapshot.status);
+          const savesRevision = resolved.mode === 'draft_revision' || staged;
+          const aiResult = healthData[numId]?.aiResult;
+          const mediaWarnings: string[] = [];
+
+          // MEDIA: Re-render with uploaded images so the published HTML never hotlinks
+          let overrides = healthData[numId]?.productOverrides;
+          if (aiConfig.sideloadImagesOnPublish && aiResult?.contentTemplate) {
+              const sideloaded = await sideloadProductImages(numId);
+              overrides = sideloaded.overrides;
+              mediaWarnings.push(...sideloaded.failures.map(f => `Image kept as hotlink, ${f}`));
+              content = renderFinalHtml(aiResult.contentTemplate, aiResult.detectedProducts, overrides, resolveAffiliateTag(aiConfig), resolveMarketplace(aiConfig));
+              setHealthData(prev => ({ ...prev, [numId]: { ...prev[numId], productOverrides: overrides, draftHtml: content } }));
+          }
+
+          let featuredMedia: number | undefined;
+          if (resolved.featuredImage && !savesRevision) {
+              const first = aiResult?.detectedProducts[0];
+              const source = healthData[numId]?.customImageUrl || (first && (overrides?.[first.name]?.image || first.amazonData?.imageUrl));
+              const existingId = first && overrides?.[first.name]?.image === source ? overrides?.[first.name]?.mediaId : undefined;
+              if (!source) mediaWarnings.push('No image available for the featured image.');
+              else if (existingId) featuredMedia = existingId;
+              else {
+                  try {
+                      featuredMedia = (await sideloadImage(connection, source, altTextFor(aiResult?.newTitle || first?.name || 'Featured image'))).id;
+                  } catch (e: any) {
+                      mediaWarnings.push(`Featured image not set: ${redactError(e)}`);
+                  }
+              }
+          }
+
+          const dateFields: Record<string, string> =
+              resolved.datePolicy === 'keep' ? { date: snapshot.date } :
+              resolved.datePolicy === 'new_date' ? { date_gmt: new Date(resolved.newDate || Date.now()).toISOString() } :
+              {};
+          let body = resolved.lastUpdatedNotice
+              ? applyLastUpdatedNotice(content, options.mode === 'schedule' && options.scheduledAt ? new Date(options.scheduledAt) : new Date())
+              : content;
+          if (aiResult && resolved.seoFields.includes('schema')) body = embedSchema(body, aiResult.schemaJSON);
+          const nativeFields = aiResult ? buildNativeFields(resolved.seoFields, aiResult) : {};
+
+          await publishPostRemote(connection, numId, { content: body, ...dateFields, ...nativeFields, ...(featuredMedia ? { featured_media: featuredMedia } : {}) }, resolved, restBaseFor(numId), snapshot.status);
+
+          // SEO PLUGIN: Autosaves carry no post meta, so plugin fields only follow a real post update.
+          // A staged schedule writes them when it is applied.
+          const warnings = [...mediaWarnings, ...(!aiResult || staged ? [] : resolved.mode === 'draft_revision'
+              ? (resolved.seoFields.some(f => f === 'seoTitle' || f === 'metaDescription') ? ['SEO plugin fields are not stored on draft revisions.'] : [])
+              : await writeSeoPluginFields(connection, numId, seoPlugin, resolved.seoFields, aiResult, restBaseFor(numId)))];
+
+          const entry: PublishLogEntry = { ...resolved, at: new Date().toISOString(), ...(warnings.length ? { warnings } : {}) };
+          const status = PUBLISH_OUTCOMES[resolved.mode];
+          const scheduled: ScheduledPublish | undefined = resolved.mode !== 'schedule' ? undefined : {
+              at: resolved.scheduledAt!,
+              ...(staged ? { content, options: { ...resolved, mode: 'update', scheduledAt: undefined } } : {})
+          };
+          setHealthData(prev => ({ ...prev, [numId]: { ...prev[numId], status, scheduled, log: undefined, publishLog: [...(prev[numId].publishLog || []), entry] } }));
+          return warnings;
       } catch (e: any) {
-          throw new Error(e.message);
+          throw new Error(redactError(e));
+      }
+  };
+
+  // Sequential on purpose: each publish snapshots first, and WP hosts throttle bursts.
+  // Resolves to the posts that were skipped because they have no draft.
+  const handleScheduleBatch = async (plan: { id: string; scheduledAt: string }[]): Promise<string[]> => {
+      const failures: string[] = [];
+      const skipped: string[] = [];
+      for (const { id, scheduledAt } of plan) {
+          const draft = healthData[parseInt(id)]?.draftHtml;
+          if (!draft) {
+              skipped.push(`#${id} has no draft`);
+              continue;
+          }
+          try {
+              await handlePublish(id, draft, { mode: 'schedule', scheduledAt });
+          } catch (e: any) {
+              failures.push(`#${id}: ${redactError(e)}`);
+          }
+      }
+      if (failures.length > 0) throw new Error(`${failures.length}/${plan.length} failed to schedule. ${[...failures, ...skipped].join('; ')}`);
+      return skipped;
+  };
+
+  const handleRollback = async (id: string, snapshot: PostSnapshot) => {
+      if (!connection) return;
+      const numId = parseInt(id);
+      await restoreSnapshot(connection, snapshot, aiConfig.trackWpRevisions);
+      // The live post no longer matches the draft; put it back up for review if there is one to review
+      setHealthData(prev => ({ ...prev, [numId]: { ...prev[numId], status: prev[numId]?.draftHtml ? 'review_pending' : 'idle' } }));
+  };
+
+  // --- SCHEDULED PUBLISHES ---
+  // Checked every minute while the dashboard is open and whenever health changes (e.g. a site's state is
+  // restored). Staged rewrites are published in place; posts WordPress scheduled itself are only marked as
+  // published. Staged slots missed while the tab was closed wait for the user instead of going out in one burst.
+  const [clock, setClock] = useState(() => Date.now());
+  const [missedSchedules, setMissedSchedules] = useState<number[]>([]);
+  const applyingRef = useRef<Set<number>>(new Set());
+  useEffect(() => {
+    const timer = setInterval(() => setClock(Date.now()), 60000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const applyScheduled = async (due: PostHealth[]) => {
+      due.forEach(h => applyingRef.current.add(h.id));
+      for (const h of due) {
+          const { at, content, options } = h.scheduled!;
+          try {
+              if (content && options) await handlePublish(h.id.toString(), content, options);
+              else setHealthData(prev => ({ ...prev, [h.id]: { ...prev[h.id], status: 'published', scheduled: undefined } }));
+          } catch (e: any) {
+              // Back to review rather than retrying: every attempt takes a snapshot and would push real backups out
+              setHealthData(prev => ({ ...prev, [h.id]: { ...prev[h.id], status: 'review_pending', scheduled: undefined, log: `Scheduled update for ${new Date(at).toLocaleString()} failed: ${redactError(e)}` } }));
+          } finally {
+              applyingRef.current.delete(h.id);
+          }
       }
   };
 
+  useEffect(() => {
+    if (!connection) return;
+    const now = Date.now();
+    const due = (Object.values(healthData) as PostHealth[]).filter(h =>
+        h.status === 'scheduled' && h.scheduled && new Date(h.scheduled.at).getTime() <= now && !applyingRef.current.has(h.id) && !missedSchedules.includes(h.id));
+    const missed = due.filter(h => h.scheduled!.content && now - new Date(h.scheduled!.at).getTime() > MISSED_SLOT_MS);
+    if (missed.length > 0) setMissedSchedules(prev => [...prev, ...missed.map(h => h.id)]);
+    const onTime = due.filter(h => !missed.includes(h));
+    if (onTime.length > 0) applyScheduled(onTime);
+  }, [clock, connection, healthData]);
+
+  // Only staged rewrites that are still waiting; anything published or rolled back since drops out
+  const missedItems = missedSchedules.map(id => healthData[id]).filter(h => h?.status === 'scheduled' && h.scheduled);
+
+  const handlePublishMissed = () => {
+      setMissedSchedules([]);
+      applyScheduled(missedItems);
+  };
+
+  const handleRespreadMissed = () => {
+      const slots = spreadSchedule(missedItems.length, { start: new Date(), end: new Date(Date.now() + RESPREAD_WINDOW_MS), dailyStartHour: 0, dailyEndHour: 24 });
+      setHealthData(prev => {
+          const next = { ...prev };
+          missedItems.forEach((h, i) => { next[h.id] = { ...next[h.id], scheduled: { ...next[h.id].scheduled!, at: slots[i].toISOString() } }; });
+          return next;
+      });
+      setMissedSchedules([]);
+  };
+
+  // --- WORKSPACES ---
+  // Settings follow the active site; the health summary is debounced since it changes on every processed post
+  useEffect(() => {
+    if (!activeWorkspaceId) return;
+    updateWorkspace(activeWorkspaceId, { aiConfig });
+    setWorkspaces(listWorkspaces());
+    saveSiteSecrets(activeWorkspaceId, pickSecrets(aiConfig, connection)).catch(e => console.warn('[Vault] Could not save credentials', e));
+  }, [aiConfig, activeWorkspaceId]);
+
+  useEffect(() => {
+    if (!activeWorkspaceId || Object.keys(healthData).length === 0) return;
+    const timer = setTimeout(() => {
+      updateWorkspace(activeWorkspaceId, { health: summarizeHealth(healthData) });
+      setWorkspaces(listWorkspaces());
+    }, 1000);
+    return () => clearTimeout(timer);
+  }, [healthData, activeWorkspaceId]);
+
+  // --- PERSISTENCE ---
+  // In-flight posts are saved as queued: their AI run dies with the tab, so resuming restarts them
+  useEffect(() => {
+    const siteUrl = persistedSiteRef.current;
+    if (!siteUrl) return;
+    const timer = setTimeout(() => {
+      saveSiteState(siteUrl, { posts, healthData, semanticNodes, queue: [...processing, ...queue] })
+        .catch(e => console.warn('[Persistence] Could not save site state', e));
+    }, 1500);
+    return () => clearTimeout(timer);
+  }, [posts, healthData, semanticNodes, queue, processing]);
+
+  const resetSiteState = (): boolean => {
+    if (processing.length > 0) {
+        alert(`${processing.length} posts are still being optimized. Wait for them to finish before switching sites.`);
+        return false;
+    }
+    if (queue.length > 0 && !confirm(`Switching sites pauses the ${queue.length} queued posts until you return. Continue?`)) return false;
+    persistedSiteRef.current = null;
+    setQueue([]);
+    setPosts([]);
+    setHealthData({});
+    setSemanticNodes([]);
+    setBatchUsage([]);
+    setBudgetExtensions(0);
+    setUnmeteredAccepted(false);
+    setTaxonomy(undefined);
+    setAuditReport(null);
+    setMissedSchedules([]);
+    setSeoPlugin('none');
+    setViewMode('dashboard');
+    setIsSiteMenuOpen(false);
+    return true;
+  };
+
+  // Stored workspaces carry no password; without one in the vault the connect screen asks for it
+  const withSiteSecrets = (workspace: Workspace): Workspace => ({
+    ...workspace,
+    connection: { ...workspace.connection, appPassword: getSiteSecrets(workspace.id).wpAppPassword || '' }
+  });
+
+  const handleSwitchWorkspace = (workspace: Workspace) => {
+    if (workspace.id === activeWorkspaceId || !resetSiteState()) return;
+    const { connection: conn } = withSiteSecrets(workspace);
+    if (conn.appPassword) handleConnect(conn);
+    else {
+        setActiveWorkspaceId(null);
+        setConnection(null);
+    }
+  };
+
+  const handleVaultReady = async (imported?: Workspace[]) => {
+    if (imported) importWorkspaces(imported);
+    await adoptPlaintextSecrets();
+    setWorkspaces(listWorkspaces());
+    setVaultReady(true);
+  };
+
+  const handleExportVault = async () => {
+    try {
+      const backup = await exportVaultBackup(listWorkspaces());
+      const link = document.createElement('a');
+      link.href = URL.createObjectURL(new Blob([backup], { type: 'application/json' }));
+      link.download = `neuralmesh-vault-${new Date().toISOString().slice(0, 10)}.json`;
+      link.click();
+      URL.revokeObjectURL(link.href);
+    } catch (e: any) {
+      alert(redactError(e));
+    }
+  };
+
+  const handleAddSite = () => {
+    if (!resetSiteState()) return;
+    setActiveWorkspaceId(null);
+    setConnection(null);
+  };
+
+  const handleRemoveWorkspace = (id: string) => {
+    const workspace = workspaces.find(w => w.id === id);
+    if (workspace) clearSiteState(workspace.connection.url).catch(e => console.warn('[Persistence] Could not clear site state', e));
+    removeSiteSecrets(id).catch(e => console.warn('[Vault] Could not remove credentials', e));
+    removeWorkspace(id);
+    setWorkspaces(listWorkspaces());
+  };
+
   const handleConnect = async (conn: WPConnection) => {
     setConnection(conn);
-    setAiConfig(prev => ({ ...prev, wpUrl: conn.url, wpUsername: conn.username, wpAppPassword: conn.appPassword }));
+    // A known site brings back its own settings (provider, affiliate tag, ...); a new one inherits the current ones
+    const workspace = openWorkspace(conn, aiConfig);
+    setActiveWorkspaceId(workspace.id);
+    setWorkspaces(listWorkspaces());
+    // Keys typed this session fill in for any the vault doesn't hold for this site
+    const siteConfig: AIConfig = { ...pickSecrets(aiConfig), ...workspace.aiConfig, ...getSiteSecrets(workspace.id), wpUrl: conn.url, wpUsername: conn.username, wpAppPassword: conn.appPassword };
+    setAiConfig(siteConfig);
     setLoadingMsg('Indexing...');
     try {
-      const headers = await fetchAllPostHeaders(conn, (count) => setLoadingMsg(`Indexed ${count} Posts...`));
+      // Post IDs are unique across post types (one wp_posts table), so types can share healthData
+      const headers: WPPostHeader[] = [];
+      for (const restBase of conn.postTypes?.length ? conn.postTypes : ['posts']) {
+          const batch = await fetchAllPostHeaders(conn, (count) => setLoadingMsg(`Indexed ${headers.length + count} Items (${restBase})...`), restBase);
+          headers.push(...batch);
+      }
+      const saved = await loadSiteState(conn.url);
       setPosts(headers);
       const initialH: Record<number, PostHealth> = {};
       headers.forEach(p => {
+        // Saved entries carry drafts, overrides and publish logs; only posts new since the last session start fresh
+        if (saved?.healthData[p.id]) {
+          initialH[p.id] = saved.healthData[p.id];
+          return;
+        }
         const metrics = parseHealth(null, p.modified, conn.url);
         const scores = calculateScore(metrics);
         initialH[p.id] = { id: p.id, score: scores.seo, aeoScore: scores.aeo, opportunityScore: 0, metrics, status: 'idle' };
       });
+
+      // Posts caught mid-run resume from the top; without a configured provider they wait for the user
+      const resumable = Array.from(new Set([
+        ...(saved?.queue || []),
+        ...Object.values(initialH).filter(h => h.status === 'scanning' || h.status === 'optimizing').map(h => h.id)
+      ])).filter(id => initialH[id]);
+      const canResume = resumable.length > 0 && isProviderConfigured(siteConfig);
+      resumable.forEach(id => { initialH[id] = { ...initialH[id], status: canResume ? 'queued' : 'idle' }; });
       setHealthData(initialH);
+      if (canResume) setQueue(resumable);
+      persistedSiteRef.current = conn.url;
+
+      detectSeoPlugin(conn).then(setSeoPlugin);
+      fetchTaxonomyIndex(conn).then(setTaxonomy);
+
+      // The mesh only depends on titles and slugs; reuse it when the post set is unchanged
+      const sameMesh = saved && saved.semanticNodes.length === headers.length && headers.every(p => saved.posts.some(sp => sp.id === p.id && sp.title.rendered === p.title.rendered && sp.slug === p.slug));
+      if (sameMesh) {
+        setSemanticNodes(saved.semanticNodes);
+        setLoadingMsg('');
+        return;
+      }
       setLoadingMsg('Building Mesh...');
       workerRef.current?.postMessage({ type: 'BUILD_MESH', payload: { posts: headers } });
     } catch (e: any) {
-        alert("Connection Failed: " + e.message);
+        alert("Connection Failed: " + redactError(e));
         setLoadingMsg('');
     }
   };
 
   const startBatch = (ids: number[] = []) => {
-    if (!aiConfig.apiKey) {
-        alert("Please configure API Key.");
+    if (!isProviderConfigured(aiConfig)) {
+        alert(aiConfig.provider === 'custom' ? "Please configure the Custom Base URL." : "Please configure API Key.");
+        setIsSettingsOpen(true);
+        return;
+    }
+    const model = resolveModel(aiConfig);
+    if (aiConfig.budgetCapUsd && !resolvePrice(model, aiConfig.priceTable)) {
+        alert(`No price is known for ${model || 'the configured model'}, so the ${formatUsd(aiConfig.budgetCapUsd)} batch cap could not stop the queue. Enter the model's price in Settings or remove the cap.`);
         setIsSettingsOpen(true);
         return;
     }
     const validIds = ids.filter(id => healthData[id]);
+    // A new batch starts when nothing is queued or running
+    if (queue.length === 0 && processing.length === 0) {
+        setBatchUsage([]);
+        setBudgetExtensions(0);
+        setUnmeteredAccepted(false);
+    }
     setQueue(prev => [...prev, ...validIds]);
   };
 
   const reviewItems: ProcessedItem[] = (Object.values(healthData) as PostHealth[])
-    .filter(h => h.status === 'review_pending' || h.status === 'published')
+    .filter(h => REVIEW_STATUSES.includes(h.status))
     .map(h => {
         const p = posts.find(post => post.id === h.id);
         return {
             id: h.id.toString(),
             slug: p?.slug || 'unknown',
-            status: h.status === 'published' ? 'completed' : 'completed',
+            status: h.status === 'published' ? 'completed' : 'pending',
+            scheduledAt: h.status === 'scheduled' ? h.scheduled?.at : undefined,
+            publishLog: h.publishLog,
+            originalHtml: h.originalHtml,
             draftHtml: h.draftHtml, 
             aiResult: h.aiResult,   
             productOverrides: h.productOverrides,
             manualMapping: h.manualMapping,
+            customImageUrl: h.customImageUrl,
         };
     });
 
   if (showLanding) return <LandingPage onEnterApp={() => setShowLanding(false)} />;
-  if (!connection) return <ConnectModal onConnect={handleConnect} />;
+  if (!vaultReady) return <VaultModal onReady={handleVaultReady} onSkip={() => setVaultReady(true)} />;
+  if (!connection) return <ConnectModal onConnect={handleConnect} savedSites={workspaces.map(withSiteSecrets)} onRemoveSite={handleRemoveWorkspace} />;
 
   // FIXED: Changed min-h-screen to h-screen overflow-hidden to ensure internal scrollbars work
   return (
     <div className="h-screen overflow-hidden bg-[#020617] text-slate-200 font-sans selection:bg-emerald-500/30 flex flex-col">
-      <SettingsModal isOpen={isSettingsOpen} onClose={() => setIsSettingsOpen(false)} config={aiConfig} onSave={setAiConfig} />
+      <SettingsModal isOpen={isSettingsOpen} onClose={() => setIsSettingsOpen(false)} config={aiConfig} onSave={setAiConfig} onExportVault={isVaultUnlocked() ? handleExportVault : undefined} />
       
       {/* HEADER */}
       <header className="border-b border-white/5 bg-slate-950/50 backdrop-blur-md shrink-0 z-50">
         <div className="max-w-[1600px] mx-auto px-6 py-4 flex justify-between items-center">
           <div className="flex items-center gap-4">
-             {viewMode === 'review' && <button onClick={() => setViewMode('dashboard')} className="p-2 bg-slate-800 rounded-full hover:bg-slate-700"><ArrowLeft size={18} /></button>}
+             {viewMode !== 'dashboard' && <button onClick={() => setViewMode('dashboard')} className="p-2 bg-slate-800 rounded-full hover:bg-slate-700"><ArrowLeft size={18} /></button>}
              <div className="flex items-center gap-3">
                  <div className="h-9 w-9 bg-emerald-600 rounded-lg flex items-center justify-center text-white shadow shadow-emerald-500/30"><BrainCircuit size={20} /></div>
                  <div><h1 className="font-bold text-lg text-white leading-none">Neural<span className="text-emerald-400">Mesh</span></h1><p className="text-[9px] text-slate-500 font-mono uppercase">V2.0 Autonomous</p></div>
@@ -308,6 +808,29 @@ const App: React.FC = () => {
           </div>
           
           <div className="flex items-center gap-6">
+             {/* SITE SWITCHER */}
+             <div className="relative">
+                <button onClick={() => setIsSiteMenuOpen(o => !o)} className="flex items-center text-xs font-bold text-slate-300 bg-slate-900 px-3 py-2 rounded-lg border border-slate-800 hover:border-slate-700 max-w-[220px]">
+                    <Globe size={14} className="mr-2 text-emerald-400 shrink-0"/>
+                    <span className="truncate">{workspaces.find(w => w.id === activeWorkspaceId)?.name || connection.url}</span>
+                    <ChevronDown size={14} className="ml-2 shrink-0"/>
+                </button>
+                {isSiteMenuOpen && (
+                    <div className="absolute left-0 mt-2 w-72 bg-slate-900 border border-slate-800 rounded-xl shadow-2xl z-50 overflow-hidden">
+                        {workspaces.map(ws => (
+                            <button key={ws.id} onClick={() => handleSwitchWorkspace(ws)} className={`w-full text-left px-4 py-2.5 text-xs hover:bg-slate-800 flex justify-between items-center ${ws.id === activeWorkspaceId ? 'text-emerald-400 font-bold' : 'text-slate-300'}`}>
+                                <span className="truncate">{ws.name}</span>
+                                {ws.health && <span className="font-mono text-slate-500 ml-2 shrink-0">{ws.health.posts} · SEO {ws.health.avgScore}</span>}
+                            </button>
+                        ))}
+                        <div className="border-t border-slate-800 grid grid-cols-2">
+                            <button onClick={() => { setIsSiteMenuOpen(false); setViewMode('portfolio'); }} className="px-4 py-2.5 text-xs font-bold text-slate-400 hover:bg-slate-800 flex items-center"><LayoutGrid size={12} className="mr-2"/> Portfolio</button>
+                            <button onClick={handleAddSite} className="px-4 py-2.5 text-xs font-bold text-slate-400 hover:bg-slate-800 flex items-center"><Plus size={12} className="mr-2"/> Add Site</button>
+                        </div>
+                    </div>
+                )}
+             </div>
+
              {/* DRAFT MODE TOGGLE */}
              <div className="flex bg-slate-900 rounded-lg p-1 border border-slate-800">
                 <button onClick={() => setDraftMode('full')} className={`px-3 py-1.5 rounded-md text-xs font-bold flex items-center transition-all ${draftMode === 'full' ? 'bg-indigo-600 text-white' : 'text-slate-500 hover:text-slate-300'}`}>
@@ -318,28 +841,65 @@ const App: React.FC = () => {
                 </button>
              </div>
 
-             {queue.length > 0 && <div className="text-xs font-bold text-indigo-400 animate-pulse flex items-center"><Activity size={14} className="mr-2"/> Processing {queue.length} items...</div>}
+             {budgetReached && queue.length > 0 ? (
+                 <div className="text-xs font-bold text-red-400 flex items-center gap-2">
+                     <PauseCircle size={14}/> {batchSpend.costUsd >= budgetCap ? 'Budget cap reached' : 'Provider served an unpriced model'} · {queue.length} paused
+                     {batchSpend.costUsd >= budgetCap
+                         ? <button onClick={() => setBudgetExtensions(n => n + 1)} className="px-2 py-1 bg-red-500/10 border border-red-500/30 rounded hover:bg-red-500/20">+{formatUsd(aiConfig.budgetCapUsd || 0)}</button>
+                         : <button onClick={() => setUnmeteredAccepted(true)} className="px-2 py-1 bg-red-500/10 border border-red-500/30 rounded hover:bg-red-500/20" title="Keep going; spend on the unpriced model is not counted against the cap">Continue unmetered</button>}
+                 </div>
+             ) : queue.length > 0 && <div className="text-xs font-bold text-indigo-400 animate-pulse flex items-center"><Activity size={14} className="mr-2"/> Processing {queue.length} items...</div>}
+
+             {batchSpend.calls > 0 && (
+                 <div className="text-xs font-mono text-slate-400 flex items-center bg-slate-900 px-3 py-1.5 rounded-lg border border-slate-800" title={`${batchSpend.calls} AI calls this batch${batchSpend.estimated ? ' (some token counts estimated)' : ''}${batchSpend.unpriced ? ' (some calls ran on a model with no known price)' : ''}`}>
+                     <Coins size={14} className="mr-2 text-amber-400"/>
+                     {formatUsd(batchSpend.costUsd)}{batchSpend.unpriced && '+?'}{budgetCap > 0 && <span className="text-slate-600">&nbsp;/ {formatUsd(budgetCap)}</span>}
+                     <span className="w-px h-3 bg-slate-700 mx-2"></span>
+                     {formatTokens(batchSpend.promptTokens + batchSpend.completionTokens)} tok
+                 </div>
+             )}
              
              <div className="flex bg-slate-900 p-1 rounded-lg border border-slate-800">
                  <button onClick={() => setViewMode('dashboard')} className={`px-3 py-1.5 rounded-md text-xs font-bold transition-all ${viewMode === 'dashboard' ? 'bg-emerald-600 text-white' : 'text-slate-400'}`}>Dashboard</button>
                  <button onClick={() => setViewMode('review')} className={`px-3 py-1.5 rounded-md text-xs font-bold transition-all ${viewMode === 'review' ? 'bg-emerald-600 text-white' : 'text-slate-400'}`}>
                     Reviews {reviewItems.length > 0 && <span className="ml-1 bg-white text-emerald-600 px-1 rounded-full text-[9px]">{reviewItems.length}</span>}
                  </button>
+                 <button onClick={() => setViewMode('audit')} className={`px-3 py-1.5 rounded-md text-xs font-bold transition-all ${viewMode === 'audit' ? 'bg-emerald-600 text-white' : 'text-slate-400'}`}>
+                    Link Audit {auditReport && auditReport.issues.length > 0 && <span className="ml-1 bg-white text-orange-600 px-1 rounded-full text-[9px]">{auditReport.issues.length}</span>}
+                 </button>
+                 <button onClick={() => setViewMode('replace')} className={`px-3 py-1.5 rounded-md text-xs font-bold transition-all ${viewMode === 'replace' ? 'bg-emerald-600 text-white' : 'text-slate-400'}`}>Replace Product</button>
              </div>
              <button onClick={() => setIsSettingsOpen(true)} className="text-slate-400 hover:text-white"><Settings size={20} /></button>
           </div>
         </div>
       </header>
 
+      {missedItems.length > 0 && (
+          <div className="bg-amber-500/10 border-b border-amber-500/20 text-amber-300 text-xs shrink-0">
+              <div className="max-w-[1600px] mx-auto px-6 py-2 flex items-center gap-3">
+                  <CalendarClock size={14} className="shrink-0"/>
+                  <span className="flex-1">{missedItems.length} scheduled update{missedItems.length === 1 ? ' was' : 's were'} missed while the dashboard was closed.</span>
+                  <button onClick={handleRespreadMissed} className="px-2 py-1 bg-amber-500/10 border border-amber-500/30 rounded font-bold hover:bg-amber-500/20">Spread over the next 24 hours</button>
+                  <button onClick={handlePublishMissed} className="px-2 py-1 bg-amber-500/10 border border-amber-500/30 rounded font-bold hover:bg-amber-500/20">Publish now</button>
+              </div>
+          </div>
+      )}
+
       {/* MAIN */}
       {/* FIXED: Added overflow-hidden to main to constrain children */}
       <main className="max-w-[1600px] mx-auto px-6 py-8 flex-1 w-full flex flex-col overflow-hidden">
-        {viewMode === 'dashboard' ? (
+        {viewMode === 'portfolio' ? (
+            <PortfolioView workspaces={workspaces} activeId={activeWorkspaceId} onOpen={(ws) => ws.id === activeWorkspaceId ? setViewMode('dashboard') : handleSwitchWorkspace(ws)} onAddSite={handleAddSite} onRename={(id, name) => { updateWorkspace(id, { name }); setWorkspaces(listWorkspaces()); }} />
+        ) : viewMode === 'audit' ? (
+            <AffiliateAudit connection={connection} posts={posts} healthData={healthData} config={aiConfig} report={auditReport} onReport={setAuditReport} onOptimize={(ids) => { startBatch(ids); setViewMode('dashboard'); }} />
+        ) : viewMode === 'replace' ? (
+            <ProductReplace connection={connection} posts={posts} healthData={healthData} config={aiConfig} onQueue={handleQueueReplacements} />
+        ) : viewMode === 'dashboard' ? (
             <div className="flex-1 flex flex-col overflow-hidden">
-                <PostList posts={posts} healthData={healthData} onOptimize={startBatch} onScan={() => {}} isProcessing={queue.length > 0} onReview={() => setViewMode('review')} />
+                <PostList posts={posts} healthData={healthData} taxonomy={taxonomy} onOptimize={startBatch} onApplyMappings={handleApplyMappings} onScan={() => {}} isProcessing={queue.length > 0} onReview={() => setViewMode('review')} />
             </div>
         ) : (
-            <ReviewResults items={reviewItems} config={aiConfig} onOpenSettings={() => setIsSettingsOpen(true)} onUpdateItem={handleUpdateItem} customPublishHandler={async (item) => { const draft = healthData[parseInt(item.id)]?.draftHtml; if (draft) await handlePublish(item.id, draft); }} />
+            <ReviewResults items={reviewItems} config={aiConfig} onOpenSettings={() => setIsSettingsOpen(true)} onUpdateItem={handleUpdateItem} onRegenerateSection={handleRegenerateSection} onResolveAsin={handleResolveAsin} onRollback={handleRollback} onSideloadImages={handleSideloadImages} onScheduleBatch={handleScheduleBatch} seoPlugin={seoPlugin} customPublishHandler={async (item, options) => { const draft = healthData[parseInt(item.id)]?.draftHtml; return draft ? handlePublish(item.id, draft, options) : []; }} />
         )}
       </main>
     </div>
@@ -0,0 +1,154 @@
+
+import React, { useState, useRef, useMemo } from 'react';
+import { AIConfig, WPConnection, WPPostHeader, PostHealth, AffiliateAuditReport, AffiliateIssueKind } from '../types';
+import { runAffiliateAudit, AuditProgress } from '../services/affiliateAuditService';
+import { AMAZON_MARKETPLACES } from '../constants';
+import { redactError } from '../utils/redact';
+import { Link2Off, Play, Square, Loader2, ExternalLink, AlertTriangle, Zap } from 'lucide-react';
+
+interface AffiliateAuditProps {
+  connection: WPConnection;
+  posts: WPPostHeader[];
+  healthData: Record<number, PostHealth>;
+  config: AIConfig;
+  report: AffiliateAuditReport | null;
+  onReport: (report: AffiliateAuditReport) => void;
+  onOptimize: (ids: number[]) => void;
+}
+
+const ISSUE_STYLES: Record<AffiliateIssueKind, { label: string; className: string }> = {
+  dead: { label: 'Dead', className: 'bg-red-500/20 text-red-300 border-red-500/30' },
+  out_of_stock: { label: 'Out of stock', className: 'bg-amber-500/20 text-amber-300 border-amber-500/30' },
+  untagged: { label: 'Untagged', className: 'bg-orange-500/20 text-orange-300 border-orange-500/30' },
+  wrong_tag: { label: 'Wrong tag', className: 'bg-orange-500/20 text-orange-300 border-orange-500/30' },
+  unresolved_shortlink: { label: 'Shortlink', className: 'bg-slate-700 text-slate-300 border-slate-600' }
+};
+
+export const AffiliateAudit: React.FC<AffiliateAuditProps> = ({ connection, posts, healthData, config, report, onReport, onOptimize }) => {
+  const [progress, setProgress] = useState<AuditProgress | null>(null);
+  const [error, setError] = useState('');
+  const [hiddenKinds, setHiddenKinds] = useState<Set<AffiliateIssueKind>>(new Set());
+  const abortRef = useRef<AbortController | null>(null);
+
+  const handleRun = async () => {
+    abortRef.current = new AbortController();
+    setError('');
+    setProgress({ done: 0, total: posts.length, phase: 'scanning' });
+    try {
+      onReport(await runAffiliateAudit(connection, posts, healthData, config, setProgress, abortRef.current.signal));
+    } catch (e: any) {
+      setError(redactError(e));
+    } finally {
+      setProgress(null);
+      abortRef.current = null;
+    }
+  };
+
+  const toggleKind = (kind: AffiliateIssueKind) => setHiddenKinds(prev => {
+    const next = new Set(prev);
+    if (next.has(kind)) next.delete(kind);
+    else next.add(kind);
+    return next;
+  });
+
+  const visible = useMemo(() => (report?.issues || []).filter(issue => !hiddenKinds.has(issue.kind)), [report, hiddenKinds]);
+  const counts = useMemo(() => (report?.issues || []).reduce<Partial<Record<AffiliateIssueKind, number>>>((acc, issue) => {
+    acc[issue.kind] = (acc[issue.kind] || 0) + 1;
+    return acc;
+  }, {}), [report]);
+  const affectedIds = Array.from(new Set(visible.map(issue => issue.postId)));
+
+  return (
+    <div className="flex-1 flex flex-col overflow-hidden gap-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-xl font-bold text-white flex items-center"><Link2Off size={20} className="mr-2 text-orange-400"/> Affiliate Link Audit</h2>
+          {report && (
+            <p className="text-xs text-slate-500 mt-1 font-mono">
+              {report.postsScanned} posts · {report.linksFound} Amazon links · {report.asinsChecked} ASINs checked · {new Date(report.generatedAt).toLocaleString()}
+              {report.postsFailed > 0 && <span className="text-amber-400"> · {report.postsFailed} posts could not be fetched</span>}
+            </p>
+          )}
+        </div>
+        <div className="flex items-center gap-2">
+          {affectedIds.length > 0 && (
+            <button onClick={() => onOptimize(affectedIds)} disabled={!!progress} className="px-4 py-2 bg-slate-800 hover:bg-slate-700 text-slate-200 rounded-lg text-xs font-bold flex items-center disabled:opacity-40">
+              <Zap size={14} className="mr-2"/> Optimize {affectedIds.length} Posts
+            </button>
+          )}
+          {progress ? (
+            <button onClick={() => abortRef.current?.abort()} className="px-4 py-2 bg-red-600 hover:bg-red-500 text-white rounded-lg text-xs font-bold flex items-center">
+              <Square size={14} className="mr-2"/> Stop
+            </button>
+          ) : (
+            <button onClick={handleRun} disabled={posts.length === 0} className="px-4 py-2 bg-emerald-600 hover:bg-emerald-500 text-white rounded-lg text-xs font-bold flex items-center disabled:opacity-40">
+              <Play size={14} className="mr-2"/> {report ? 'Re-run Audit' : 'Run Audit'}
+            </button>
+          )}
+        </div>
+      </div>
+
+      {progress && (
+        <div className="bg-slate-900 border border-slate-800 rounded-xl p-4 text-xs text-slate-400">
+          <div className="flex items-center mb-2"><Loader2 size={14} className="animate-spin mr-2 text-emerald-400"/> {progress.phase === 'scanning' ? `Scanning post ${progress.done + 1} of ${progress.total}` : `Checking ${progress.total} ASINs on Amazon`}</div>
+          <div className="h-1.5 bg-slate-800 rounded-full overflow-hidden">
+            <div className="h-full bg-emerald-500 transition-all" style={{ width: `${progress.total ? (progress.done / progress.total) * 100 : 0}%` }}></div>
+          </div>
+        </div>
+      )}
+
+      {error && <div className="p-3 bg-red-500/10 border border-red-500/20 rounded-lg text-red-400 text-xs">{error}</div>}
+      {report?.lookupSkipped && <div className="p-3 bg-amber-500/10 border border-amber-500/20 rounded-lg text-amber-300 text-xs flex items-center"><AlertTriangle size={14} className="mr-2"/> {report.lookupSkipped}</div>}
+      {report?.skippedMarketplaces?.map(skipped => (
+        <div key={skipped.marketplaceId} className="p-3 bg-amber-500/10 border border-amber-500/20 rounded-lg text-amber-300 text-xs flex items-center"><AlertTriangle size={14} className="mr-2 shrink-0"/> {skipped.asins} ASINs on {AMAZON_MARKETPLACES[skipped.marketplaceId]?.host || skipped.marketplaceId} were not checked. {skipped.reason}</div>
+      ))}
+      {!!counts.unresolved_shortlink && !config.amazonApiEndpoint && (
+        <div className="p-3 bg-slate-800 border border-slate-700 rounded-lg text-slate-400 text-xs">Shortlinks (amzn.to, a.co) can't be expanded from the browser, so their ASIN and tag are unknown. Set a PA-API relay that also answers /expand under Settings &gt; Monetization to check them.</div>
+      )}
+
+      {report && (
+        <>
+          <div className="flex flex-wrap gap-2">
+            {(Object.keys(ISSUE_STYLES) as AffiliateIssueKind[]).map(kind => (
+              <button key={kind} onClick={() => toggleKind(kind)} className={`text-[10px] uppercase font-bold border px-2 py-1 rounded ${ISSUE_STYLES[kind].className} ${hiddenKinds.has(kind) ? 'opacity-30' : ''}`}>
+                {ISSUE_STYLES[kind].label} · {counts[kind] || 0}
+              </button>
+            ))}
+          </div>
+
+          <div className="flex-1 overflow-y-auto bg-slate-900 border border-slate-800 rounded-2xl">
+            <table className="w-full text-sm">
+              <thead className="bg-slate-950 text-[10px] uppercase text-slate-500 font-bold sticky top-0">
+                <tr>
+                  <th className="text-left px-4 py-3" title="Estimated from title intent, depth, freshness and opportunity score">Potential</th>
+                  <th className="text-left px-4 py-3">Post</th>
+                  <th className="text-left px-4 py-3">Issue</th>
+                  <th className="text-left px-4 py-3">Link</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-800">
+                {visible.map((issue, i) => (
+                  <tr key={`${issue.postId}-${issue.link.href}-${issue.kind}-${i}`} className="hover:bg-slate-800/50 align-top">
+                    <td className="px-4 py-3 font-mono font-bold text-slate-300">{issue.potential}</td>
+                    <td className="px-4 py-3 max-w-xs">
+                      <a href={issue.postUrl} target="_blank" className="text-white font-bold hover:text-emerald-400 line-clamp-2">{issue.postTitle}</a>
+                    </td>
+                    <td className="px-4 py-3">
+                      <span className={`text-[10px] uppercase font-bold border px-2 py-0.5 rounded ${ISSUE_STYLES[issue.kind].className}`}>{ISSUE_STYLES[issue.kind].label}</span>
+                      <div className="text-xs text-slate-400 mt-1">{issue.detail}{issue.price && ` (${issue.price})`}</div>
+                    </td>
+                    <td className="px-4 py-3 max-w-sm">
+                      <a href={issue.link.href} target="_blank" className="text-xs font-mono text-slate-400 hover:text-emerald-400 flex items-center break-all"><ExternalLink size={10} className="mr-1 shrink-0"/> {issue.link.href}</a>
+                      {issue.link.anchorText && <div className="text-[10px] text-slate-600 mt-0.5 truncate">"{issue.link.anchorText}"</div>}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {visible.length === 0 && <div className="p-10 text-center text-slate-500 text-sm">{report.issues.length === 0 ? 'No broken, untagged or out-of-stock Amazon links found.' : 'All issue types are filtered out.'}</div>}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
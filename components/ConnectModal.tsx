@@ -1,19 +1,39 @@
 
-import React, { useState } from 'react';
-import { WPConnection } from '../types';
-import { Zap, Lock, User, Globe, ArrowRight, Loader2, AlertCircle } from 'lucide-react';
-import { verifyConnection } from '../services/wordpressService';
+import React, { useState, useEffect } from 'react';
+import { WPConnection, WPPostType, Workspace } from '../types';
+import { Zap, Lock, User, Globe, ArrowRight, Loader2, AlertCircle, Layers, Trash2 } from 'lucide-react';
+import { verifyConnection, fetchPostTypes } from '../services/wordpressService';
+import { redactError } from '../utils/redact';
 
 interface ConnectModalProps {
   onConnect: (conn: WPConnection) => void;
+  savedSites?: Workspace[];
+  onRemoveSite?: (id: string) => void;
 }
 
-const ConnectModal: React.FC<ConnectModalProps> = ({ onConnect }) => {
+const ConnectModal: React.FC<ConnectModalProps> = ({ onConnect, savedSites = [], onRemoveSite }) => {
   const [url, setUrl] = useState('');
   const [username, setUsername] = useState('');
   const [appPassword, setAppPassword] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState('');
+  const [availableTypes, setAvailableTypes] = useState<WPPostType[] | null>(null);
+  const [selectedTypes, setSelectedTypes] = useState<string[]>(['posts']);
+
+  // Type list belongs to the verified credentials; editing them starts over
+  useEffect(() => { setAvailableTypes(null); }, [url, username, appPassword]);
+
+  // Sites without a stored password (vault skipped or reset) prefill the form instead
+  const handleSavedSite = (site: Workspace) => {
+    if (site.connection.appPassword) {
+        onConnect(site.connection);
+        return;
+    }
+    setUrl(site.connection.url);
+    setUsername(site.connection.username);
+    setAppPassword('');
+    setError('Enter the application password for this site.');
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -34,11 +54,29 @@ const ConnectModal: React.FC<ConnectModalProps> = ({ onConnect }) => {
     const conn: WPConnection = { url: cleanUrl, username: cleanUser, appPassword: cleanPass };
 
     try {
+        // Step 2: Types already discovered, connect with the selection
+        if (availableTypes) {
+            if (selectedTypes.length === 0) throw new Error("Select at least one content type.");
+            onConnect({ ...conn, postTypes: selectedTypes });
+            return;
+        }
+
         // Strict Verification against /users/me to ensure permissions
         await verifyConnection(conn);
-        onConnect(conn);
+
+        let types: WPPostType[] = [];
+        try {
+            types = await fetchPostTypes(conn);
+        } catch (e) {
+            console.warn('[Connect] Post type discovery failed, indexing posts only.', e);
+        }
+        if (types.length <= 1) {
+            onConnect(conn);
+            return;
+        }
+        setAvailableTypes(types);
     } catch (err: any) {
-        setError(err.message || "Connection Failed");
+        setError(redactError(err) || "Connection Failed");
     } finally {
         setIsLoading(false);
     }
@@ -61,6 +99,23 @@ const ConnectModal: React.FC<ConnectModalProps> = ({ onConnect }) => {
              </div>
         </div>
 
+        {savedSites.length > 0 && (
+            <div className="mb-6 relative z-10">
+                <label className="block text-xs font-bold text-slate-400 uppercase mb-2">Saved Sites</label>
+                <div className="bg-slate-950 border border-slate-800 rounded-lg divide-y divide-slate-800">
+                    {savedSites.map(site => (
+                        <div key={site.id} className="flex items-center justify-between px-3 py-2">
+                            <button type="button" onClick={() => handleSavedSite(site)} className="flex-1 text-left text-sm text-slate-300 hover:text-emerald-400 truncate">
+                                {site.name}
+                                <span className="block text-[10px] font-mono text-slate-600">{site.connection.username} · {site.health ? `${site.health.posts} posts` : 'not indexed'}</span>
+                            </button>
+                            {onRemoveSite && <button type="button" onClick={() => onRemoveSite(site.id)} className="p-1.5 text-slate-600 hover:text-red-400"><Trash2 size={14}/></button>}
+                        </div>
+                    ))}
+                </div>
+            </div>
+        )}
+
         <form onSubmit={handleSubmit} className="space-y-4 relative z-10">
             <div>
                 <label className="block text-xs font-bold text-slate-400 uppercase mb-2">Site URL</label>
@@ -108,6 +163,28 @@ const ConnectModal: React.FC<ConnectModalProps> = ({ onConnect }) => {
                 </p>
             </div>
 
+            {availableTypes && (
+                <div>
+                    <label className="block text-xs font-bold text-slate-400 uppercase mb-2 flex items-center"><Layers size={12} className="mr-1"/> Content Types to Index</label>
+                    <div className="bg-slate-950 border border-slate-800 rounded-lg divide-y divide-slate-800">
+                        {availableTypes.map(type => (
+                            <label key={type.restBase} className="flex items-center justify-between px-3 py-2 text-sm text-slate-300 cursor-pointer">
+                                <span className="flex items-center">
+                                    <input
+                                        type="checkbox"
+                                        className="mr-3"
+                                        checked={selectedTypes.includes(type.restBase)}
+                                        onChange={(e) => setSelectedTypes(prev => e.target.checked ? [...prev, type.restBase] : prev.filter(t => t !== type.restBase))}
+                                    />
+                                    {type.name}
+                                </span>
+                                <span className="text-[10px] font-mono text-slate-600">/wp/v2/{type.restBase}</span>
+                            </label>
+                        ))}
+                    </div>
+                </div>
+            )}
+
             {error && (
                 <div className="p-3 bg-red-500/10 border border-red-500/20 rounded-lg flex items-center text-red-400 text-xs">
                     <AlertCircle size={14} className="mr-2" />
@@ -120,7 +197,7 @@ const ConnectModal: React.FC<ConnectModalProps> = ({ onConnect }) => {
                 disabled={isLoading}
                 className="w-full bg-emerald-600 hover:bg-emerald-500 text-white font-bold py-3 rounded-lg transition-all flex items-center justify-center shadow-lg shadow-emerald-900/20 disabled:opacity-50 disabled:cursor-not-allowed mt-4"
             >
-                {isLoading ? <Loader2 size={18} className="animate-spin" /> : <>Connect Node <ArrowRight size={18} className="ml-2" /></>}
+                {isLoading ? <Loader2 size={18} className="animate-spin" /> : <>{availableTypes ? 'Index Selected Types' : 'Connect Node'} <ArrowRight size={18} className="ml-2" /></>}
             </button>
         </form>
       </div>
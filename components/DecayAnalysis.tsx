@@ -1,8 +1,9 @@
 
 import React, { useState, useMemo, useEffect } from 'react';
 import { AnalyzedUrl, ManualMapping, ProcessedItem } from '../types';
-import { AlertCircle, CheckCircle, ChevronDown, ChevronUp, Filter, X, ArrowUpRight, BarChart3, ChevronLeft, ChevronRight, FileSpreadsheet, Upload, ShieldCheck, Trash2, CheckSquare } from 'lucide-react';
+import { AlertCircle, CheckCircle, ChevronDown, ChevronUp, Filter, X, ArrowUpRight, BarChart3, ChevronLeft, ChevronRight, FileSpreadsheet, ShieldCheck, CheckSquare } from 'lucide-react';
 import { ResponsiveContainer, BarChart, Bar, XAxis, YAxis, Tooltip, Cell } from 'recharts';
+import { MappingModal } from './MappingModal';
 
 interface DecayAnalysisProps {
   data: AnalyzedUrl[];
@@ -12,181 +13,6 @@ interface DecayAnalysisProps {
 
 const ITEMS_PER_PAGE = 50;
 
-// CSV Modal Component
-const MappingModal = ({ isOpen, onClose, onMap }: { isOpen: boolean; onClose: () => void; onMap: (mappings: {slug: string, mapping: ManualMapping}[]) => void }) => {
-    const [csvText, setCsvText] = useState('');
-    const [preview, setPreview] = useState<{slug: string, mapping: ManualMapping}[]>([]);
-
-    if (!isOpen) return null;
-
-    const handleTextChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
-        const text = e.target.value;
-        setCsvText(text);
-        
-        // --- SMART PARSER (CSV / TSV / Excel Copy-Paste) ---
-        const lines = text.split(/\r?\n/); // Handle Windows/Unix line endings
-        const parsed = lines.map(line => {
-            const cleanLine = line.trim();
-            if (!cleanLine) return null;
-
-            // Detect Delimiter: Check for Tab first (Excel/Sheets), then Comma
-            let parts: string[] = [];
-            if (cleanLine.includes('\t')) {
-                parts = cleanLine.split('\t');
-            } else {
-                // Simple comma split, handling potential quotes roughly if needed, 
-                // but for this specific use case, simple split is usually sufficient.
-                parts = cleanLine.split(',');
-            }
-
-            // We need at least 3 parts: Slug/URL, Product Name, ASIN
-            // Some copies might have empty columns, filter out empty strings
-            const activeParts = parts.map(p => p.trim()).filter(p => p !== '');
-
-            if (activeParts.length >= 3) {
-                let rawUrlOrSlug = activeParts[0];
-                
-                // 1. URL CLEANING: Convert "https://site.com/slug/" to "slug"
-                let cleanSlug = rawUrlOrSlug;
-                try {
-                    // If it looks like a full URL, parse it
-                    if (rawUrlOrSlug.startsWith('http')) {
-                        const url = new URL(rawUrlOrSlug);
-                        // Extract pathname, remove leading/trailing slashes
-                        cleanSlug = url.pathname.replace(/^\/|\/$/g, '');
-                    } else {
-                        // Just strip slashes
-                         cleanSlug = rawUrlOrSlug.replace(/^\/|\/$/g, '');
-                    }
-                } catch (e) {
-                    // Fallback cleanup if URL parse fails
-                    cleanSlug = rawUrlOrSlug.replace(/^\/|\/$/g, '');
-                }
-
-                // 2. PRODUCT NAME CLEANING
-                // Usually the second column
-                const productName = activeParts[1];
-
-                // 3. ASIN CLEANING
-                // Usually the last or 3rd column
-                const asin = activeParts[activeParts.length - 1].toUpperCase();
-
-                // Basic ASIN Validation (10 chars) - Optional, but good for preview
-                // We map it regardless, but we prioritize valid looking rows
-                
-                if (cleanSlug && productName && asin) {
-                    return {
-                        slug: cleanSlug,
-                        mapping: {
-                            productName: productName,
-                            asin: asin
-                        }
-                    };
-                }
-            }
-            return null;
-        }).filter(Boolean) as {slug: string, mapping: ManualMapping}[];
-
-        setPreview(parsed);
-    };
-
-    return (
-        <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/60 backdrop-blur-sm p-4 animate-in fade-in duration-200">
-            <div className="bg-white rounded-3xl shadow-2xl w-full max-w-4xl overflow-hidden flex flex-col max-h-[85vh]">
-                <div className="px-6 py-5 border-b border-slate-100 flex justify-between items-center bg-slate-50/50">
-                    <div>
-                        <h3 className="text-lg font-bold text-slate-900 flex items-center">
-                            <FileSpreadsheet size={20} className="text-emerald-600 mr-2" />
-                            Upload ASIN Mapping
-                        </h3>
-                        <p className="text-xs text-slate-500 mt-1">Paste data from Excel, Google Sheets, or CSV.</p>
-                    </div>
-                    <button onClick={onClose} className="p-2 hover:bg-slate-200 rounded-full transition-colors"><X size={18}/></button>
-                </div>
-                
-                <div className="flex flex-col md:flex-row h-full overflow-hidden">
-                    {/* Input Side */}
-                    <div className="w-full md:w-1/2 p-6 border-b md:border-b-0 md:border-r border-slate-100 flex flex-col">
-                         <div className="bg-blue-50 border border-blue-100 rounded-lg p-3 mb-3 text-xs text-blue-800 leading-relaxed">
-                            <strong>Instructions:</strong> Copy columns directly from your spreadsheet.<br/>
-                            Format: <code>URL (or Slug)</code> | <code>New Product Name</code> | <code>ASIN</code>
-                        </div>
-                        <textarea 
-                            value={csvText}
-                            onChange={handleTextChange}
-                            placeholder={`Example Paste:\nhttps://site.com/review/watch-5  Galaxy Watch 6   B0C...\nhttps://site.com/review/ipad-9    iPad 10th Gen    B0B...`}
-                            className="flex-1 w-full p-4 font-mono text-xs border border-slate-200 rounded-xl focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500 outline-none resize-none bg-slate-50 hover:bg-white transition-colors whitespace-pre"
-                        />
-                         <div className="flex justify-between items-center mt-3">
-                            <span className="text-xs text-slate-400">Supports TSV (Tab) & CSV</span>
-                            {csvText && (
-                                <button onClick={() => { setCsvText(''); setPreview([]); }} className="text-xs text-red-500 hover:text-red-700 flex items-center">
-                                    <Trash2 size={12} className="mr-1"/> Clear
-                                </button>
-                            )}
-                         </div>
-                    </div>
-
-                    {/* Preview Side */}
-                    <div className="w-full md:w-1/2 p-6 bg-slate-50/30 flex flex-col">
-                        <div className="flex justify-between items-center mb-3">
-                             <h4 className="text-xs font-bold text-slate-700 uppercase tracking-wider">Preview ({preview.length} Valid Rows)</h4>
-                             {preview.length > 0 && <span className="text-[10px] bg-emerald-100 text-emerald-700 px-2 py-0.5 rounded-full font-bold">Ready to Map</span>}
-                        </div>
-                        
-                        <div className="bg-white border border-slate-200 rounded-xl overflow-hidden flex-1 shadow-sm relative">
-                             {preview.length === 0 ? (
-                                 <div className="absolute inset-0 flex flex-col items-center justify-center text-slate-300">
-                                     <FileSpreadsheet size={48} className="mb-2 opacity-20" />
-                                     <p className="text-sm font-medium">Waiting for data...</p>
-                                 </div>
-                             ) : (
-                                <div className="overflow-y-auto absolute inset-0 custom-scrollbar">
-                                    <table className="w-full text-xs text-left">
-                                        <thead className="bg-slate-100 text-slate-500 font-bold sticky top-0 z-10 shadow-sm">
-                                            <tr>
-                                                <th className="p-3 w-1/3">Extracted Slug</th>
-                                                <th className="p-3 w-1/3">New Product</th>
-                                                <th className="p-3 w-1/3 text-right">ASIN</th>
-                                            </tr>
-                                        </thead>
-                                        <tbody className="divide-y divide-slate-50">
-                                            {preview.map((p, i) => (
-                                                <tr key={i} className="hover:bg-slate-50 transition-colors">
-                                                    <td className="p-3 font-mono text-slate-600 truncate max-w-[120px]" title={p.slug}>
-                                                        {p.slug}
-                                                    </td>
-                                                    <td className="p-3 text-slate-900 font-medium truncate max-w-[120px]" title={p.mapping.productName}>
-                                                        {p.mapping.productName}
-                                                    </td>
-                                                    <td className="p-3 font-mono text-emerald-600 text-right">
-                                                        {p.mapping.asin}
-                                                    </td>
-                                                </tr>
-                                            ))}
-                                        </tbody>
-                                    </table>
-                                </div>
-                             )}
-                        </div>
-                        
-                        <div className="mt-4 flex justify-end">
-                            <button 
-                                onClick={() => { onMap(preview); onClose(); }}
-                                disabled={preview.length === 0}
-                                className="flex items-center px-6 py-3 bg-emerald-600 text-white rounded-xl font-bold text-sm hover:bg-emerald-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all shadow-lg shadow-emerald-500/20"
-                            >
-                                <Upload size={18} className="mr-2" /> 
-                                Apply {preview.length} Mappings
-                            </button>
-                        </div>
-                    </div>
-                </div>
-            </div>
-        </div>
-    );
-};
-
 export const DecayAnalysis: React.FC<DecayAnalysisProps> = ({ data, processedItems = [], onProceed }) => {
   const [localData, setLocalData] = useState(data); // Store local data to handle updates
   const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
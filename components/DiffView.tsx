@@ -0,0 +1,91 @@
+
+import React, { useState, useMemo } from 'react';
+import { diffWords, structuralDiff, ListDiff } from '../utils/diff';
+import { GitCompare, Heading, Link2, ShoppingBag, FileText, Minus, Plus } from 'lucide-react';
+
+interface DiffViewProps {
+  originalHtml?: string;
+  draftHtml: string;
+  productNames: string[];
+}
+
+const DiffList: React.FC<{ title: string; icon: React.ReactNode; diff: ListDiff }> = ({ title, icon, diff }) => (
+  <div className="bg-slate-800 rounded-xl border border-slate-700 p-5">
+    <h4 className="text-sm font-bold text-white mb-3 flex items-center justify-between">
+      <span className="flex items-center">{icon} {title}</span>
+      <span className="text-[10px] font-mono text-slate-500">-{diff.removed.length} / +{diff.added.length} / ={diff.kept.length}</span>
+    </h4>
+    <div className="space-y-1 text-xs font-mono">
+      {diff.removed.map(entry => (
+        <div key={`r-${entry}`} className="flex items-start text-red-300 bg-red-500/10 px-2 py-1 rounded break-all"><Minus size={12} className="mr-2 mt-0.5 shrink-0"/>{entry}</div>
+      ))}
+      {diff.added.map(entry => (
+        <div key={`a-${entry}`} className="flex items-start text-emerald-300 bg-emerald-500/10 px-2 py-1 rounded break-all"><Plus size={12} className="mr-2 mt-0.5 shrink-0"/>{entry}</div>
+      ))}
+      {diff.kept.map(entry => (
+        <div key={`k-${entry}`} className="text-slate-500 px-2 py-1 pl-7 break-all">{entry}</div>
+      ))}
+      {diff.removed.length + diff.added.length + diff.kept.length === 0 && <div className="text-slate-600 italic">None on either side</div>}
+    </div>
+  </div>
+);
+
+export const DiffView: React.FC<DiffViewProps> = ({ originalHtml, draftHtml, productNames }) => {
+  const [mode, setMode] = useState<'structure' | 'text'>('structure');
+
+  const structure = useMemo(
+    () => originalHtml ? structuralDiff(originalHtml, draftHtml, productNames) : null,
+    // Keyed on the joined names: callers rebuild the array on every render
+    [originalHtml, draftHtml, productNames.join('|')]
+  );
+  const words = useMemo(
+    () => originalHtml && mode === 'text' ? diffWords(originalHtml, draftHtml) : [],
+    [originalHtml, draftHtml, mode]
+  );
+
+  if (!originalHtml) {
+    return <div className="max-w-4xl mx-auto p-10 text-center text-slate-500">The original content was not captured for this post. Re-run the optimization to compare.</div>;
+  }
+
+  const countWords = (type: 'insert' | 'delete') => words.filter(op => op.type === type).reduce((sum, op) => sum + op.text.split(/\s+/).filter(Boolean).length, 0);
+
+  return (
+    <div className="max-w-6xl mx-auto space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-bold text-white flex items-center"><GitCompare size={18} className="mr-2 text-indigo-400"/> Original vs Draft</h3>
+        <div className="flex bg-slate-800 p-1 rounded-lg border border-slate-700">
+          <button onClick={() => setMode('structure')} className={`px-3 py-1 rounded text-xs font-bold ${mode === 'structure' ? 'bg-indigo-600 text-white' : 'text-slate-400'}`}>Structure</button>
+          <button onClick={() => setMode('text')} className={`px-3 py-1 rounded text-xs font-bold ${mode === 'text' ? 'bg-indigo-600 text-white' : 'text-slate-400'}`}>Text</button>
+        </div>
+      </div>
+
+      {mode === 'structure' && structure && (
+        <div className="grid lg:grid-cols-3 gap-4">
+          <DiffList title="Headings" icon={<Heading size={14} className="mr-2 text-indigo-400"/>} diff={structure.headings} />
+          <DiffList title="Links" icon={<Link2 size={14} className="mr-2 text-indigo-400"/>} diff={structure.links} />
+          <DiffList title="Products" icon={<ShoppingBag size={14} className="mr-2 text-emerald-400"/>} diff={structure.products} />
+        </div>
+      )}
+
+      {mode === 'text' && (
+        <>
+          <div className="text-xs font-mono text-slate-500 flex items-center"><FileText size={12} className="mr-2"/> <span className="text-red-400 mr-3">-{countWords('delete')} words</span><span className="text-emerald-400">+{countWords('insert')} words</span></div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="bg-slate-800 rounded-xl border border-slate-700 p-5 text-sm text-slate-300 leading-relaxed whitespace-pre-wrap">
+              <div className="text-[10px] font-bold uppercase text-slate-500 mb-3">Original (live)</div>
+              {words.filter(op => op.type !== 'insert').map((op, i) => (
+                <span key={i} className={op.type === 'delete' ? 'bg-red-500/20 text-red-300 line-through' : ''}>{op.text} </span>
+              ))}
+            </div>
+            <div className="bg-slate-800 rounded-xl border border-slate-700 p-5 text-sm text-slate-300 leading-relaxed whitespace-pre-wrap">
+              <div className="text-[10px] font-bold uppercase text-slate-500 mb-3">Draft</div>
+              {words.filter(op => op.type !== 'delete').map((op, i) => (
+                <span key={i} className={op.type === 'insert' ? 'bg-emerald-500/20 text-emerald-300' : ''}>{op.text} </span>
+              ))}
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,134 @@
+
+import React, { useState, useEffect, useRef } from 'react';
+import { templateFromRenderedHtml, extractPlaceholders } from '../utils/helpers';
+import { Bold, Italic, Heading2, Heading3, List, Link2, Code, Eye, Save, Undo2, Lock, AlertTriangle } from 'lucide-react';
+
+interface DraftEditorProps {
+  html: string; // Rendered draft (product cards carry data-sota-box)
+  onSave: (html: string) => void;
+}
+
+// Visual mode edits the rendered draft with product cards locked; Source mode edits the template,
+// where cards appear as [[PRODUCT_BOX:n]] tokens. Both save through templateFromRenderedHtml upstream.
+export const DraftEditor: React.FC<DraftEditorProps> = ({ html, onSave }) => {
+  const [mode, setMode] = useState<'visual' | 'source'>('visual');
+  const [source, setSource] = useState('');
+  const [isDirty, setIsDirty] = useState(false);
+  const [, setRevision] = useState(0); // Re-renders on each edit so the removed-box warning stays current
+  const editorRef = useRef<HTMLDivElement>(null);
+  const pendingVisual = useRef<string | null>(null);
+
+  const expectedBoxes = extractPlaceholders(templateFromRenderedHtml(html)).filter(p => p.startsWith('[[PRODUCT_BOX:'));
+
+  const loadVisual = (content: string) => {
+    if (!editorRef.current) return;
+    editorRef.current.innerHTML = content;
+    editorRef.current.querySelectorAll<HTMLElement>('[data-sota-box]').forEach(card => {
+      card.contentEditable = 'false';
+      card.style.outline = '2px dashed #6366f1';
+      card.title = 'Product box: edit via the Monetization Matrix';
+    });
+  };
+
+  // Load external changes (new item, override re-render) unless the user has unsaved edits
+  useEffect(() => {
+    if (mode === 'visual' && pendingVisual.current !== null) {
+      loadVisual(pendingVisual.current);
+      pendingVisual.current = null;
+      return;
+    }
+    if (isDirty) return;
+    if (mode === 'visual') loadVisual(html);
+    else setSource(templateFromRenderedHtml(html));
+  }, [html, mode, isDirty]);
+
+  const currentHtml = (): string => mode === 'visual' ? (editorRef.current?.innerHTML || '') : source;
+
+  const currentBoxes = (): string[] =>
+    extractPlaceholders(templateFromRenderedHtml(currentHtml())).filter(p => p.startsWith('[[PRODUCT_BOX:'));
+
+  const missingBoxes = isDirty ? expectedBoxes.filter(b => !currentBoxes().includes(b)) : [];
+
+  const switchMode = (next: 'visual' | 'source') => {
+    if (next === mode) return;
+    const content = currentHtml();
+    if (next === 'source') setSource(templateFromRenderedHtml(content));
+    // Unsaved source edits carry over; their raw placeholders show as text until applied
+    else if (isDirty) pendingVisual.current = content;
+    setMode(next);
+  };
+
+  const exec = (command: string, value?: string) => {
+    if (mode !== 'visual') return;
+    document.execCommand(command, false, value);
+    editorRef.current?.focus();
+    markEdited();
+  };
+
+  const handleLink = () => {
+    const url = prompt('Link URL');
+    if (url) exec('createLink', url);
+  };
+
+  const handleSave = () => {
+    onSave(currentHtml());
+    setIsDirty(false);
+  };
+
+  const handleDiscard = () => setIsDirty(false);
+
+  const markEdited = () => {
+    setIsDirty(true);
+    setRevision(r => r + 1);
+  };
+
+  const toolButton = 'p-2 rounded hover:bg-slate-700 text-slate-300 disabled:opacity-30';
+
+  return (
+    <div className="max-w-4xl mx-auto flex flex-col gap-3">
+      <div className="flex items-center justify-between bg-slate-800 border border-slate-700 rounded-xl px-3 py-2">
+        <div className="flex items-center gap-1">
+          <button className={toolButton} disabled={mode !== 'visual'} onMouseDown={e => e.preventDefault()} onClick={() => exec('bold')}><Bold size={14}/></button>
+          <button className={toolButton} disabled={mode !== 'visual'} onMouseDown={e => e.preventDefault()} onClick={() => exec('italic')}><Italic size={14}/></button>
+          <button className={toolButton} disabled={mode !== 'visual'} onMouseDown={e => e.preventDefault()} onClick={() => exec('formatBlock', 'h2')}><Heading2 size={14}/></button>
+          <button className={toolButton} disabled={mode !== 'visual'} onMouseDown={e => e.preventDefault()} onClick={() => exec('formatBlock', 'h3')}><Heading3 size={14}/></button>
+          <button className={toolButton} disabled={mode !== 'visual'} onMouseDown={e => e.preventDefault()} onClick={() => exec('insertUnorderedList')}><List size={14}/></button>
+          <button className={toolButton} disabled={mode !== 'visual'} onMouseDown={e => e.preventDefault()} onClick={handleLink}><Link2 size={14}/></button>
+          <span className="w-px h-4 bg-slate-700 mx-2"></span>
+          <span className="text-[10px] font-mono text-slate-500 flex items-center"><Lock size={10} className="mr-1"/> {expectedBoxes.length} product box{expectedBoxes.length === 1 ? '' : 'es'} locked</span>
+        </div>
+        <div className="flex items-center gap-2">
+          <div className="flex bg-slate-900 p-1 rounded-lg border border-slate-700">
+            <button onClick={() => switchMode('visual')} className={`px-2 py-1 rounded text-xs font-bold flex items-center ${mode === 'visual' ? 'bg-indigo-600 text-white' : 'text-slate-400'}`}><Eye size={12} className="mr-1"/> Visual</button>
+            <button onClick={() => switchMode('source')} className={`px-2 py-1 rounded text-xs font-bold flex items-center ${mode === 'source' ? 'bg-indigo-600 text-white' : 'text-slate-400'}`}><Code size={12} className="mr-1"/> HTML</button>
+          </div>
+          <button onClick={handleDiscard} disabled={!isDirty} className="px-3 py-1.5 rounded-lg text-xs font-bold text-slate-300 hover:bg-slate-700 flex items-center disabled:opacity-30"><Undo2 size={12} className="mr-1"/> Discard</button>
+          <button onClick={handleSave} disabled={!isDirty} className="px-3 py-1.5 bg-emerald-600 hover:bg-emerald-500 rounded-lg text-xs font-bold text-white flex items-center disabled:opacity-30"><Save size={12} className="mr-1"/> Apply Edits</button>
+        </div>
+      </div>
+
+      {missingBoxes.length > 0 && (
+        <div className="bg-amber-500/10 border border-amber-500/30 text-amber-300 text-xs rounded-lg px-3 py-2 flex items-center">
+          <AlertTriangle size={14} className="mr-2 shrink-0"/> Removed {missingBoxes.join(', ')} from the draft.
+        </div>
+      )}
+
+      {mode === 'visual' ? (
+        <div
+          ref={editorRef}
+          contentEditable
+          suppressContentEditableWarning
+          onInput={markEdited}
+          className="bg-white rounded-xl shadow-xl min-h-[800px] p-8 prose prose-slate max-w-none outline-none focus:ring-2 focus:ring-indigo-500"
+        />
+      ) : (
+        <textarea
+          value={source}
+          onChange={(e) => { setSource(e.target.value); markEdited(); }}
+          spellCheck={false}
+          className="bg-slate-950 text-emerald-300 font-mono text-xs rounded-xl border border-slate-700 min-h-[800px] p-6 outline-none focus:border-indigo-500 whitespace-pre-wrap"
+        />
+      )}
+    </div>
+  );
+};
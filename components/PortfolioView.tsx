@@ -0,0 +1,83 @@
+
+import React from 'react';
+import { Workspace } from '../types';
+import { resolveAffiliateTag, resolveMarketplace } from '../utils/helpers';
+import { LayoutGrid, Globe, Plus, Pencil, ArrowRight } from 'lucide-react';
+
+interface PortfolioViewProps {
+  workspaces: Workspace[];
+  activeId: string | null;
+  onOpen: (workspace: Workspace) => void;
+  onAddSite: () => void;
+  onRename: (id: string, name: string) => void;
+}
+
+const scoreColor = (score: number) => score >= 70 ? 'text-emerald-400' : score >= 50 ? 'text-amber-400' : 'text-red-400';
+
+export const PortfolioView: React.FC<PortfolioViewProps> = ({ workspaces, activeId, onOpen, onAddSite, onRename }) => {
+  // Sites that were never indexed sort last; the rest weakest first, like the grouped post list
+  const sorted = [...workspaces].sort((a, b) => (a.health ? a.health.avgScore : 101) - (b.health ? b.health.avgScore : 101));
+
+  const handleRename = (workspace: Workspace) => {
+    const name = prompt('Workspace name', workspace.name);
+    if (name && name.trim()) onRename(workspace.id, name.trim());
+  };
+
+  return (
+    <div className="flex-1 overflow-y-auto">
+      <div className="flex items-center justify-between mb-6">
+        <h2 className="text-xl font-bold text-white flex items-center"><LayoutGrid size={20} className="mr-2 text-emerald-400"/> Portfolio</h2>
+        <button onClick={onAddSite} className="px-4 py-2 bg-emerald-600 hover:bg-emerald-500 text-white rounded-lg text-xs font-bold flex items-center"><Plus size={14} className="mr-2"/> Add Site</button>
+      </div>
+
+      <div className="bg-slate-900 border border-slate-800 rounded-2xl overflow-hidden">
+        <table className="w-full text-sm">
+          <thead className="bg-slate-950 text-[10px] uppercase text-slate-500 font-bold">
+            <tr>
+              <th className="text-left px-5 py-3">Site</th>
+              <th className="text-right px-5 py-3">Posts</th>
+              <th className="text-right px-5 py-3">Avg SEO</th>
+              <th className="text-right px-5 py-3">Avg AEO</th>
+              <th className="text-right px-5 py-3">Weak</th>
+              <th className="text-right px-5 py-3">In Review</th>
+              <th className="text-right px-5 py-3">Published</th>
+              <th className="text-right px-5 py-3">Last Indexed</th>
+              <th className="px-5 py-3"></th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-800">
+            {sorted.map(ws => (
+              <tr key={ws.id} className={ws.id === activeId ? 'bg-emerald-500/5' : 'hover:bg-slate-800/50'}>
+                <td className="px-5 py-3">
+                  <div className="flex items-center font-bold text-white">
+                    <Globe size={14} className="mr-2 text-slate-500"/> {ws.name}
+                    <button onClick={() => handleRename(ws)} className="ml-2 text-slate-600 hover:text-slate-300"><Pencil size={12}/></button>
+                    {ws.id === activeId && <span className="ml-2 text-[9px] uppercase bg-emerald-500/20 text-emerald-400 px-1.5 py-0.5 rounded">Active</span>}
+                  </div>
+                  <div className="text-[10px] font-mono text-slate-500 mt-0.5">{ws.connection.url}{resolveAffiliateTag(ws.aiConfig) && ` · ${resolveMarketplace(ws.aiConfig).id} tag ${resolveAffiliateTag(ws.aiConfig)}`}</div>
+                </td>
+                {ws.health ? (
+                  <>
+                    <td className="px-5 py-3 text-right font-mono text-slate-300">{ws.health.posts}</td>
+                    <td className={`px-5 py-3 text-right font-mono font-bold ${scoreColor(ws.health.avgScore)}`}>{ws.health.avgScore}</td>
+                    <td className={`px-5 py-3 text-right font-mono font-bold ${scoreColor(ws.health.avgAeo)}`}>{ws.health.avgAeo}</td>
+                    <td className="px-5 py-3 text-right font-mono text-red-400">{ws.health.weak}</td>
+                    <td className="px-5 py-3 text-right font-mono text-indigo-400">{ws.health.reviewPending}</td>
+                    <td className="px-5 py-3 text-right font-mono text-emerald-400">{ws.health.published}</td>
+                    <td className="px-5 py-3 text-right text-xs text-slate-500">{new Date(ws.health.capturedAt).toLocaleString()}</td>
+                  </>
+                ) : (
+                  <td colSpan={7} className="px-5 py-3 text-right text-xs text-slate-600 italic">Not indexed yet</td>
+                )}
+                <td className="px-5 py-3 text-right">
+                  <button onClick={() => onOpen(ws)} className="px-3 py-1.5 bg-slate-800 hover:bg-slate-700 rounded-md text-xs font-bold text-slate-300 inline-flex items-center">Open <ArrowRight size={12} className="ml-1"/></button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {sorted.length === 0 && <div className="p-10 text-center text-slate-500 text-sm">No saved sites yet.</div>}
+      </div>
+    </div>
+  );
+};
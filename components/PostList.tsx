@@ -1,7 +1,9 @@
 
 import React, { useState, useMemo } from 'react';
-import { WPPostHeader, PostHealth } from '../types';
-import { AlertTriangle, CheckCircle2, Circle, ExternalLink, Activity, Loader2, Sparkles, Database, CheckSquare, Square, ScanSearch, AlertCircle, FileText, Play } from 'lucide-react';
+import { WPPostHeader, PostHealth, TaxonomyIndex, ManualMapping } from '../types';
+import { MappingModal } from './MappingModal';
+import { summarizeUsage, formatUsd } from '../utils/usage';
+import { AlertTriangle, CheckCircle2, Circle, ExternalLink, Activity, Loader2, Sparkles, Database, CheckSquare, Square, ScanSearch, AlertCircle, FileText, Play, Filter, CalendarClock, FileClock, FileSpreadsheet } from 'lucide-react';
 
 interface PostListProps {
   posts: WPPostHeader[];
@@ -10,19 +12,108 @@ interface PostListProps {
   onScan: (ids: number[]) => void;
   onReview?: (id: number) => void;
   isProcessing: boolean;
+  taxonomy?: TaxonomyIndex;
+  onApplyMappings?: (mappings: { slug: string; mapping: ManualMapping }[]) => number[]; // Resolves to the matched post IDs
 }
 
-const PostList: React.FC<PostListProps> = ({ posts, healthData, onOptimize, onScan, onReview, isProcessing }) => {
+type GroupBy = 'none' | 'category' | 'tag' | 'author';
+
+interface PostGroup {
+  key: string;
+  label: string | null; // null = ungrouped, no header row
+  posts: WPPostHeader[];
+  stats: { avgScore: number; avgAeo: number; weak: number; published: number };
+}
+
+const WEAK_SCORE = 50; // Below this a post is a refresh candidate
+
+const groupStats = (posts: WPPostHeader[], healthData: Record<number, PostHealth>): PostGroup['stats'] => {
+  const healths = posts.map(p => healthData[p.id]).filter(Boolean);
+  const avg = (values: number[]) => values.length ? Math.round(values.reduce((a, b) => a + b, 0) / values.length) : 0;
+  return {
+    avgScore: avg(healths.map(h => h.score)),
+    avgAeo: avg(healths.map(h => h.aeoScore)),
+    weak: healths.filter(h => h.score < WEAK_SCORE).length,
+    published: healths.filter(h => h.status === 'published').length
+  };
+};
+
+const publishStateLabel = (health: PostHealth): string => {
+  const last = health.publishLog?.[health.publishLog.length - 1];
+  if (health.status === 'scheduled' && health.scheduled) {
+    const at = new Date(health.scheduled.at).toLocaleString();
+    return health.scheduled.content ? `Update scheduled for ${at} (live post unchanged until then)` : `Scheduled for ${at}`;
+  }
+  if (health.status === 'revision_saved') return 'Saved as draft revision (live post unchanged)';
+  if (health.status === 'submitted') return 'Pending review in WordPress';
+  return last ? `Published ${new Date(last.at).toLocaleString()}` : 'Published';
+};
+
+const PostList: React.FC<PostListProps> = ({ posts, healthData, onOptimize, onScan, onReview, isProcessing, taxonomy, onApplyMappings }) => {
   const [selectedIds, setSelectedIds] = useState<Set<number>>(new Set());
   const [lastSelectedId, setLastSelectedId] = useState<number | null>(null);
+  const [categoryFilter, setCategoryFilter] = useState<number | null>(null);
+  const [tagFilter, setTagFilter] = useState<number | null>(null);
+  const [authorFilter, setAuthorFilter] = useState<number | null>(null);
+  const [groupBy, setGroupBy] = useState<GroupBy>('none');
+  const [isMappingOpen, setIsMappingOpen] = useState(false);
+
+  const visiblePosts = useMemo(() => posts.filter(p =>
+      (categoryFilter === null || p.categories?.includes(categoryFilter)) &&
+      (tagFilter === null || p.tags?.includes(tagFilter)) &&
+      (authorFilter === null || p.author === authorFilter)
+  ), [posts, categoryFilter, tagFilter, authorFilter]);
+
+  // Facet counts reflect the other active filters, so every option shown yields results
+  const facets = useMemo(() => {
+      const count = (ids: (p: WPPostHeader) => number[], names: Record<number, string> = {}, exclude: 'category' | 'tag' | 'author') => {
+          const base = posts.filter(p =>
+              (exclude === 'category' || categoryFilter === null || p.categories?.includes(categoryFilter)) &&
+              (exclude === 'tag' || tagFilter === null || p.tags?.includes(tagFilter)) &&
+              (exclude === 'author' || authorFilter === null || p.author === authorFilter)
+          );
+          const counts = new Map<number, number>();
+          base.forEach(p => ids(p).forEach(id => counts.set(id, (counts.get(id) || 0) + 1)));
+          return Array.from(counts.entries())
+              .map(([id, n]) => ({ id, name: names[id] || `#${id}`, count: n }))
+              .sort((a, b) => b.count - a.count);
+      };
+      return {
+          categories: count(p => p.categories || [], taxonomy?.categories, 'category'),
+          tags: count(p => p.tags || [], taxonomy?.tags, 'tag'),
+          authors: count(p => p.author !== undefined ? [p.author] : [], taxonomy?.authors, 'author')
+      };
+  }, [posts, taxonomy, categoryFilter, tagFilter, authorFilter]);
+
+  // A post with several terms appears under each of them
+  const groups = useMemo((): PostGroup[] => {
+      if (groupBy === 'none') return [{ key: 'all', label: null, posts: visiblePosts, stats: groupStats(visiblePosts, healthData) }];
+      const termsOf = (p: WPPostHeader): number[] =>
+          groupBy === 'category' ? p.categories || [] : groupBy === 'tag' ? p.tags || [] : p.author !== undefined ? [p.author] : [];
+      const names = (groupBy === 'category' ? taxonomy?.categories : groupBy === 'tag' ? taxonomy?.tags : taxonomy?.authors) || {};
+      const buckets = new Map<number, WPPostHeader[]>();
+      const unassigned: WPPostHeader[] = [];
+      visiblePosts.forEach(p => {
+          const terms = termsOf(p);
+          if (terms.length === 0) unassigned.push(p);
+          terms.forEach(t => buckets.set(t, [...(buckets.get(t) || []), p]));
+      });
+      const result = Array.from(buckets.entries()).map(([id, list]) => ({
+          key: `${groupBy}-${id}`, label: names[id] || `#${id}`, posts: list, stats: groupStats(list, healthData)
+      }));
+      // Weakest niches first: those are the refresh priorities
+      result.sort((a, b) => a.stats.avgScore - b.stats.avgScore);
+      if (unassigned.length) result.push({ key: `${groupBy}-none`, label: 'Unassigned', posts: unassigned, stats: groupStats(unassigned, healthData) });
+      return result;
+  }, [groupBy, visiblePosts, taxonomy, healthData]);
 
   const handleSelect = (id: number, shiftKey: boolean) => {
       const newSet = new Set(selectedIds);
       if (shiftKey && lastSelectedId !== null) {
-          const startIdx = posts.findIndex(p => p.id === lastSelectedId);
-          const endIdx = posts.findIndex(p => p.id === id);
+          const startIdx = visiblePosts.findIndex(p => p.id === lastSelectedId);
+          const endIdx = visiblePosts.findIndex(p => p.id === id);
           const [min, max] = [Math.min(startIdx, endIdx), Math.max(startIdx, endIdx)];
-          for (let i = min; i <= max; i++) { newSet.add(posts[i].id); }
+          if (min >= 0) for (let i = min; i <= max; i++) { newSet.add(visiblePosts[i].id); }
       } else {
           if (newSet.has(id)) newSet.delete(id); else newSet.add(id);
       }
@@ -31,8 +122,8 @@ const PostList: React.FC<PostListProps> = ({ posts, healthData, onOptimize, onSc
   };
 
   const handleSelectAll = () => {
-      if (selectedIds.size === posts.length) setSelectedIds(new Set());
-      else setSelectedIds(new Set(posts.map(p => p.id)));
+      if (selectedIds.size === visiblePosts.length) setSelectedIds(new Set());
+      else setSelectedIds(new Set(visiblePosts.map(p => p.id)));
   };
 
   const handleBatchOptimize = () => {
@@ -44,6 +135,130 @@ const PostList: React.FC<PostListProps> = ({ posts, healthData, onOptimize, onSc
       onScan(Array.from(selectedIds));
   };
 
+  // Selects the mapped posts so "Generate Drafts" runs them with their ASINs
+  const handleMap = (mappings: { slug: string; mapping: ManualMapping }[]) => {
+      const matched = onApplyMappings ? onApplyMappings(mappings) : [];
+      if (matched.length === 0) {
+          alert("No matching posts found. Check the URLs or slugs in the first column.");
+          return;
+      }
+      setSelectedIds(new Set(matched));
+  };
+
+  const renderRow = (post: WPPostHeader, rowKey: string) => {
+    const health = healthData[post.id];
+    const isOptimizing = health?.status === 'optimizing' || health?.status === 'scanning';
+    const isReviewReady = health?.status === 'review_pending';
+    const isPublished = health?.status === 'published';
+    const isAwaitingWp = health?.status === 'revision_saved' || health?.status === 'submitted' || health?.status === 'scheduled';
+    const isSelected = selectedIds.has(post.id);
+    const isPendingScan = health?.metrics.wordCount === 0 && health?.status === 'idle';
+    
+    return (
+      <tr key={rowKey} className={`group transition-colors duration-200 ${isSelected ? 'bg-indigo-900/20' : 'hover:bg-slate-800/40'}`} onClick={(e) => handleSelect(post.id, e.shiftKey)}>
+        <td className="px-6 py-4">
+            <button className={`text-slate-600 hover:text-indigo-400 ${isSelected ? 'text-indigo-500' : ''}`}>
+                {isSelected ? <CheckSquare size={16}/> : <Square size={16}/>}
+            </button>
+        </td>
+        <td className="px-6 py-4 whitespace-nowrap w-16">
+           {isPublished ? (
+               <span title={publishStateLabel(health)}><CheckCircle2 className="text-emerald-500" size={18} /></span>
+           ) : isAwaitingWp ? (
+               <span title={publishStateLabel(health)}>{health.status === 'scheduled' ? <CalendarClock className="text-indigo-400" size={18} /> : <FileClock className="text-indigo-400" size={18} />}</span>
+           ) : isReviewReady ? (
+               <div className="flex items-center justify-center w-5 h-5 bg-amber-500/20 rounded-full" title={health.log}>
+                   <FileText className="text-amber-500" size={12} />
+               </div>
+           ) : health?.status === 'error' ? (
+               <div className="group/err relative">
+                   <AlertTriangle className="text-red-500 cursor-help" size={18} />
+                   <div className="absolute left-full ml-2 top-0 w-48 bg-red-900/90 text-red-100 text-[10px] p-2 rounded z-50 hidden group-hover/err:block shadow-xl border border-red-700">
+                       {health.log || "Unknown Error"}
+                       {health.validationIssues && (
+                           <ul className="mt-1 font-mono">
+                               {health.validationIssues.slice(0, 5).map((issue, i) => <li key={i}>• {issue.path}: {issue.message}</li>)}
+                           </ul>
+                       )}
+                   </div>
+               </div>
+           ) : isOptimizing ? (
+               <Loader2 className="text-cyan-400 animate-spin" size={18} />
+           ) : (
+               <Circle className="text-slate-700" size={18} />
+           )}
+        </td>
+
+        <td className="px-6 py-4 max-w-xs">
+           <div className="font-bold text-slate-200 truncate text-sm mb-1" title={post.title.rendered}>{post.title.rendered}</div>
+           <div className="flex items-center gap-3 text-[10px] font-mono text-slate-500">
+              <a href={post.link} target="_blank" rel="noreferrer" onClick={e => e.stopPropagation()} className="flex items-center hover:text-cyan-400 transition-colors">
+                  <ExternalLink size={10} className="mr-1" /> View
+              </a>
+              <span className="flex items-center text-slate-600">ID: {post.id}</span>
+              {post.type && post.type !== 'post' && <span className="uppercase text-indigo-400">{post.type}</span>}
+              {health?.manualMapping && <span className="text-emerald-400" title={`Next draft uses ${health.manualMapping.productName}`}>ASIN {health.manualMapping.asin}</span>}
+              {taxonomy && post.categories?.slice(0, 2).map(id => <span key={id} className="text-slate-400">{taxonomy.categories[id] || `#${id}`}</span>)}
+              {!!health?.aiResult?.usage?.length && (
+                  <span className="flex items-center text-amber-500/80" title={health.aiResult.usage.some(r => r.unpriced) ? 'AI spend for this post; some calls ran on a model with no known price' : 'AI spend for this post'}>{formatUsd(summarizeUsage(health.aiResult.usage).costUsd)}{health.aiResult.usage.some(r => r.unpriced) && '+?'}</span>
+              )}
+           </div>
+        </td>
+
+        <td className="px-6 py-4 whitespace-nowrap">
+           {isPendingScan ? (
+               <span className="text-xs text-slate-600 flex items-center font-mono bg-slate-900/50 px-2 py-1 rounded border border-slate-800">
+                   <ScanSearch size={12} className="mr-1.5" /> HEADER ONLY
+               </span>
+           ) : health ? (
+               <div className="w-24">
+                   <div className="flex justify-between text-[10px] font-bold mb-1 text-slate-400">
+                       <span className={health.score > 80 ? 'text-emerald-400' : 'text-amber-400'}>{health.score}</span>
+                   </div>
+                   <div className="h-1.5 bg-slate-800 rounded-full overflow-hidden">
+                       <div className={`h-full rounded-full transition-all duration-1000 ${health.score > 80 ? 'bg-emerald-500' : health.score > 50 ? 'bg-amber-500' : 'bg-red-500'}`} style={{ width: `${health.score}%` }}></div>
+                   </div>
+               </div>
+           ) : <span className="text-slate-700">--</span>}
+        </td>
+
+        <td className="px-6 py-4 whitespace-nowrap">
+           {health ? (
+               <div className="w-24">
+                   <div className="flex justify-between text-[10px] font-bold mb-1 text-indigo-300">
+                       <span>{health.aeoScore}%</span>
+                   </div>
+                   <div className="h-1.5 bg-slate-800 rounded-full overflow-hidden">
+                       <div className={`h-full rounded-full transition-all duration-1000 ${health.aeoScore > 80 ? 'bg-indigo-500' : 'bg-indigo-900'}`} style={{ width: `${health.aeoScore}%` }}></div>
+                   </div>
+               </div>
+           ) : <span className="text-slate-700">--</span>}
+        </td>
+
+        <td className="px-6 py-4 text-right" onClick={e => e.stopPropagation()}>
+            {isReviewReady ? (
+                <button
+                    onClick={() => onReview?.(post.id)}
+                    className="px-3 py-1.5 bg-amber-500 hover:bg-amber-600 text-white rounded-lg text-[10px] font-bold transition-all shadow shadow-amber-900/20 uppercase tracking-wide flex items-center ml-auto"
+                >
+                    <FileText size={12} className="mr-1.5"/> Review
+                </button>
+            ) : isPublished ? (
+                <span className="text-[10px] font-bold text-emerald-500 uppercase tracking-wide">Published</span>
+            ) : (
+                <button
+                    onClick={() => onOptimize([post.id])}
+                    disabled={isProcessing || health?.status === 'scanning'}
+                    className="px-3 py-1.5 bg-indigo-600 hover:bg-indigo-500 text-white rounded-lg text-[10px] font-bold transition-all disabled:opacity-20 disabled:cursor-not-allowed uppercase tracking-wide ml-auto flex items-center"
+                >
+                    <Sparkles size={12} className="mr-1.5"/> Generate
+                </button>
+            )}
+        </td>
+      </tr>
+    );
+  };
+
   return (
     <div className="flex flex-col h-full bg-[#0f172a] border border-slate-800 rounded-3xl overflow-hidden shadow-2xl">
       {selectedIds.size > 0 && (
@@ -62,13 +277,44 @@ const PostList: React.FC<PostListProps> = ({ posts, healthData, onOptimize, onSc
           </div>
       )}
 
+      <div className="border-b border-slate-800 px-6 py-3 flex flex-wrap items-center gap-3 text-xs bg-[#020617]">
+          <Filter size={14} className="text-slate-500" />
+          {([
+              ['Category', categoryFilter, setCategoryFilter, facets.categories],
+              ['Tag', tagFilter, setTagFilter, facets.tags],
+              ['Author', authorFilter, setAuthorFilter, facets.authors]
+          ] as const).map(([label, value, setValue, options]) => options.length > 0 && (
+              <select
+                  key={label}
+                  value={value ?? ''}
+                  onChange={(e) => { setValue(e.target.value ? parseInt(e.target.value) : null); setSelectedIds(new Set()); }}
+                  className="bg-slate-900 border border-slate-700 text-slate-300 rounded-lg px-2 py-1.5 outline-none max-w-[180px]"
+              >
+                  <option value="">All {label === 'Category' ? 'Categories' : `${label}s`}</option>
+                  {options.map(o => <option key={o.id} value={o.id}>{o.name} ({o.count})</option>)}
+              </select>
+          ))}
+          <select value={groupBy} onChange={(e) => setGroupBy(e.target.value as GroupBy)} className="bg-slate-900 border border-slate-700 text-slate-300 rounded-lg px-2 py-1.5 outline-none">
+              <option value="none">No Grouping</option>
+              <option value="category">Group by Category</option>
+              <option value="tag">Group by Tag</option>
+              <option value="author">Group by Author</option>
+          </select>
+          <span className="ml-auto font-mono text-slate-500">{visiblePosts.length}/{posts.length} shown</span>
+          {onApplyMappings && (
+              <button onClick={() => setIsMappingOpen(true)} className="bg-slate-900 border border-slate-700 text-slate-300 hover:text-white rounded-lg px-2 py-1.5 font-bold flex items-center" title="Map posts to ASINs from a spreadsheet; their next draft uses the mapped product">
+                  <FileSpreadsheet size={12} className="mr-1.5"/> ASIN Mapping
+              </button>
+          )}
+      </div>
+
       <div className="overflow-auto custom-scrollbar flex-1">
         <table className="w-full text-left border-collapse relative">
           <thead className="sticky top-0 z-10">
             <tr className="border-b border-slate-800 bg-[#020617] text-xs font-bold text-slate-500 uppercase tracking-wider shadow-sm">
               <th className="px-6 py-5 w-12">
                   <button onClick={handleSelectAll} className="text-slate-500 hover:text-white">
-                      {selectedIds.size === posts.length && posts.length > 0 ? <CheckSquare size={16}/> : <Square size={16}/>}
+                      {selectedIds.size === visiblePosts.length && visiblePosts.length > 0 ? <CheckSquare size={16}/> : <Square size={16}/>}
                   </button>
               </th>
               <th className="px-6 py-5 whitespace-nowrap">Status</th>
@@ -79,108 +325,30 @@ const PostList: React.FC<PostListProps> = ({ posts, healthData, onOptimize, onSc
             </tr>
           </thead>
           <tbody className="divide-y divide-slate-800/50">
-            {posts.map(post => {
-              const health = healthData[post.id];
-              const isOptimizing = health?.status === 'optimizing' || health?.status === 'scanning';
-              const isReviewReady = health?.status === 'review_pending';
-              const isPublished = health?.status === 'published';
-              const isSelected = selectedIds.has(post.id);
-              const isPendingScan = health?.metrics.wordCount === 0 && health?.status === 'idle';
-              
-              return (
-                <tr key={post.id} className={`group transition-colors duration-200 ${isSelected ? 'bg-indigo-900/20' : 'hover:bg-slate-800/40'}`} onClick={(e) => handleSelect(post.id, e.shiftKey)}>
-                  <td className="px-6 py-4">
-                      <button className={`text-slate-600 hover:text-indigo-400 ${isSelected ? 'text-indigo-500' : ''}`}>
-                          {isSelected ? <CheckSquare size={16}/> : <Square size={16}/>}
-                      </button>
-                  </td>
-                  <td className="px-6 py-4 whitespace-nowrap w-16">
-                     {isPublished ? (
-                         <CheckCircle2 className="text-emerald-500" size={18} />
-                     ) : isReviewReady ? (
-                         <div className="flex items-center justify-center w-5 h-5 bg-amber-500/20 rounded-full">
-                             <FileText className="text-amber-500" size={12} />
-                         </div>
-                     ) : health?.status === 'error' ? (
-                         <div className="group/err relative">
-                             <AlertTriangle className="text-red-500 cursor-help" size={18} />
-                             <div className="absolute left-full ml-2 top-0 w-48 bg-red-900/90 text-red-100 text-[10px] p-2 rounded z-50 hidden group-hover/err:block shadow-xl border border-red-700">
-                                 {health.log || "Unknown Error"}
-                             </div>
-                         </div>
-                     ) : isOptimizing ? (
-                         <Loader2 className="text-cyan-400 animate-spin" size={18} />
-                     ) : (
-                         <Circle className="text-slate-700" size={18} />
-                     )}
-                  </td>
-
-                  <td className="px-6 py-4 max-w-xs">
-                     <div className="font-bold text-slate-200 truncate text-sm mb-1" title={post.title.rendered}>{post.title.rendered}</div>
-                     <div className="flex items-center gap-3 text-[10px] font-mono text-slate-500">
-                        <a href={post.link} target="_blank" rel="noreferrer" onClick={e => e.stopPropagation()} className="flex items-center hover:text-cyan-400 transition-colors">
-                            <ExternalLink size={10} className="mr-1" /> View
-                        </a>
-                        <span className="flex items-center text-slate-600">ID: {post.id}</span>
-                     </div>
-                  </td>
-
-                  <td className="px-6 py-4 whitespace-nowrap">
-                     {isPendingScan ? (
-                         <span className="text-xs text-slate-600 flex items-center font-mono bg-slate-900/50 px-2 py-1 rounded border border-slate-800">
-                             <ScanSearch size={12} className="mr-1.5" /> HEADER ONLY
-                         </span>
-                     ) : health ? (
-                         <div className="w-24">
-                             <div className="flex justify-between text-[10px] font-bold mb-1 text-slate-400">
-                                 <span className={health.score > 80 ? 'text-emerald-400' : 'text-amber-400'}>{health.score}</span>
-                             </div>
-                             <div className="h-1.5 bg-slate-800 rounded-full overflow-hidden">
-                                 <div className={`h-full rounded-full transition-all duration-1000 ${health.score > 80 ? 'bg-emerald-500' : health.score > 50 ? 'bg-amber-500' : 'bg-red-500'}`} style={{ width: `${health.score}%` }}></div>
-                             </div>
-                         </div>
-                     ) : <span className="text-slate-700">--</span>}
-                  </td>
-
-                  <td className="px-6 py-4 whitespace-nowrap">
-                     {health ? (
-                         <div className="w-24">
-                             <div className="flex justify-between text-[10px] font-bold mb-1 text-indigo-300">
-                                 <span>{health.aeoScore}%</span>
-                             </div>
-                             <div className="h-1.5 bg-slate-800 rounded-full overflow-hidden">
-                                 <div className={`h-full rounded-full transition-all duration-1000 ${health.aeoScore > 80 ? 'bg-indigo-500' : 'bg-indigo-900'}`} style={{ width: `${health.aeoScore}%` }}></div>
-                             </div>
-                         </div>
-                     ) : <span className="text-slate-700">--</span>}
-                  </td>
-
-                  <td className="px-6 py-4 text-right" onClick={e => e.stopPropagation()}>
-                      {isReviewReady ? (
-                          <button
-                              onClick={() => onReview?.(post.id)}
-                              className="px-3 py-1.5 bg-amber-500 hover:bg-amber-600 text-white rounded-lg text-[10px] font-bold transition-all shadow shadow-amber-900/20 uppercase tracking-wide flex items-center ml-auto"
-                          >
-                              <FileText size={12} className="mr-1.5"/> Review
-                          </button>
-                      ) : isPublished ? (
-                          <span className="text-[10px] font-bold text-emerald-500 uppercase tracking-wide">Published</span>
-                      ) : (
-                          <button
-                              onClick={() => onOptimize([post.id])}
-                              disabled={isProcessing || health?.status === 'scanning'}
-                              className="px-3 py-1.5 bg-indigo-600 hover:bg-indigo-500 text-white rounded-lg text-[10px] font-bold transition-all disabled:opacity-20 disabled:cursor-not-allowed uppercase tracking-wide ml-auto flex items-center"
-                          >
-                              <Sparkles size={12} className="mr-1.5"/> Generate
-                          </button>
-                      )}
-                  </td>
-                </tr>
-              );
-            })}
+            {groups.map(group => (
+              <React.Fragment key={group.key}>
+                {group.label !== null && (
+                  <tr className="bg-slate-900/80">
+                    <td colSpan={6} className="px-6 py-2">
+                      <div className="flex items-center justify-between text-[10px] font-mono text-slate-400">
+                        <span className="font-bold text-slate-200 uppercase tracking-wider text-xs">{group.label} <span className="text-slate-500 font-normal">({group.posts.length})</span></span>
+                        <span className="flex gap-4">
+                          <span>SEO avg <span className={group.stats.avgScore > 80 ? 'text-emerald-400' : 'text-amber-400'}>{group.stats.avgScore}</span></span>
+                          <span>AEO avg <span className="text-indigo-300">{group.stats.avgAeo}%</span></span>
+                          <span className="text-red-400">{group.stats.weak} weak</span>
+                          <span className="text-emerald-400">{group.stats.published} published</span>
+                        </span>
+                      </div>
+                    </td>
+                  </tr>
+                )}
+                {group.posts.map(post => renderRow(post, `${group.key}-${post.id}`))}
+              </React.Fragment>
+            ))}
           </tbody>
         </table>
       </div>
+      <MappingModal isOpen={isMappingOpen} onClose={() => setIsMappingOpen(false)} onMap={handleMap} />
     </div>
   );
 };
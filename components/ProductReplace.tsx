@@ -0,0 +1,183 @@
+
+import React, { useState, useRef } from 'react';
+import { AIConfig, WPConnection, WPPostHeader, PostHealth, ProductReplacement, ReplacementPreview } from '../types';
+import { findReplacementTargets, normalizeReplacement, ReplaceScanProgress, ReplaceScanResult } from '../services/productReplaceService';
+import { resolveAsin, AsinResolution } from '../services/asinResolver';
+import { isValidAsin } from '../utils/helpers';
+import { redactError } from '../utils/redact';
+import { DiffView } from './DiffView';
+import { ArrowRightLeft, Search, Square, Loader2, ExternalLink, AlertTriangle, ChevronDown, ChevronRight, ListChecks } from 'lucide-react';
+
+interface ProductReplaceProps {
+  connection: WPConnection;
+  posts: WPPostHeader[];
+  healthData: Record<number, PostHealth>;
+  config: AIConfig;
+  onQueue: (previews: ReplacementPreview[], spec: ProductReplacement, resolution: AsinResolution) => void;
+}
+
+const EMPTY_SPEC: ProductReplacement = { oldAsin: '', oldName: '', newAsin: '', newName: '' };
+
+export const ProductReplace: React.FC<ProductReplaceProps> = ({ connection, posts, healthData, config, onQueue }) => {
+  const [spec, setSpec] = useState<ProductReplacement>(EMPTY_SPEC);
+  const [progress, setProgress] = useState<ReplaceScanProgress | null>(null);
+  const [error, setError] = useState('');
+  const [scan, setScan] = useState<{ spec: ProductReplacement; resolution: AsinResolution; result: ReplaceScanResult } | null>(null);
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [expanded, setExpanded] = useState<number | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const update = (field: keyof ProductReplacement, value: string) => setSpec(prev => ({ ...prev, [field]: value }));
+
+  const validate = (s: ProductReplacement): string | null => {
+    if (!s.oldAsin && !s.oldName) return 'Enter the old product\'s ASIN, its name, or both.';
+    if (s.oldAsin && !isValidAsin(s.oldAsin)) return `${s.oldAsin} is not a valid ASIN.`;
+    if (!isValidAsin(s.newAsin)) return 'Enter a valid ASIN for the new product.';
+    if (s.oldAsin === s.newAsin) return 'The old and new ASIN are the same.';
+    return null;
+  };
+
+  const handleFind = async () => {
+    const normalized = normalizeReplacement(spec);
+    const invalid = validate(normalized);
+    if (invalid) return setError(invalid);
+
+    abortRef.current = new AbortController();
+    setError('');
+    setScan(null);
+    setExpanded(null);
+    setProgress({ done: 0, total: posts.length });
+    try {
+      const resolution = await resolveAsin(config, normalized.newAsin, normalized.newName || '');
+      if (resolution.check.status === 'not_found' || resolution.check.status === 'error') {
+        setError(resolution.check.message || `Could not look up ${normalized.newAsin}.`);
+        return;
+      }
+      const result = await findReplacementTargets(connection, posts, healthData, normalized, resolution.product, config, setProgress, abortRef.current.signal);
+      setScan({ spec: normalized, resolution, result });
+      setSelected(new Set(result.previews.map(p => p.postId)));
+    } catch (e: any) {
+      setError(redactError(e));
+    } finally {
+      setProgress(null);
+      abortRef.current = null;
+    }
+  };
+
+  const toggle = (id: number) => setSelected(prev => {
+    const next = new Set(prev);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    return next;
+  });
+
+  const handleQueue = () => {
+    if (!scan) return;
+    onQueue(scan.result.previews.filter(p => selected.has(p.postId)), scan.spec, scan.resolution);
+    setScan(null);
+    setSelected(new Set());
+  };
+
+  const check = scan?.resolution.check;
+  const productNames = [scan?.spec.oldName, scan?.spec.newName].filter((n): n is string => !!n);
+  const field = 'block w-full p-3 bg-slate-950 border border-slate-700 rounded-xl text-sm text-white outline-none focus:border-emerald-500';
+
+  return (
+    <div className="flex-1 flex flex-col overflow-hidden gap-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-xl font-bold text-white flex items-center"><ArrowRightLeft size={20} className="mr-2 text-emerald-400"/> Replace Product</h2>
+          <p className="text-xs text-slate-500 mt-1">Swap a product across every post. Changes are queued as drafts in Reviews; nothing is published from here.</p>
+        </div>
+        {scan && scan.result.previews.length > 0 && (
+          <button onClick={handleQueue} disabled={selected.size === 0} className="px-4 py-2 bg-emerald-600 hover:bg-emerald-500 text-white rounded-lg text-xs font-bold flex items-center disabled:opacity-40">
+            <ListChecks size={14} className="mr-2"/> Queue {selected.size} Draft{selected.size === 1 ? '' : 's'} for Review
+          </button>
+        )}
+      </div>
+
+      <div className="bg-slate-900 border border-slate-800 rounded-2xl p-5 grid md:grid-cols-2 gap-4">
+        <div className="space-y-3">
+          <div className="text-[10px] font-bold uppercase text-slate-500">Replace</div>
+          <input type="text" placeholder="Old ASIN (e.g. B08N5WRWNW)" value={spec.oldAsin} onChange={(e) => update('oldAsin', e.target.value)} className={`${field} font-mono`} />
+          <input type="text" placeholder="Old product name (matches links and mentions)" value={spec.oldName} onChange={(e) => update('oldName', e.target.value)} className={field} />
+        </div>
+        <div className="space-y-3">
+          <div className="text-[10px] font-bold uppercase text-slate-500">With</div>
+          <input type="text" placeholder="New ASIN" value={spec.newAsin} onChange={(e) => update('newAsin', e.target.value)} className={`${field} font-mono`} />
+          <input type="text" placeholder="New product name (needed to rewrite mentions)" value={spec.newName} onChange={(e) => update('newName', e.target.value)} className={field} />
+        </div>
+        <div className="md:col-span-2 flex justify-end">
+          {progress ? (
+            <button onClick={() => abortRef.current?.abort()} className="px-4 py-2 bg-red-600 hover:bg-red-500 text-white rounded-lg text-xs font-bold flex items-center">
+              <Square size={14} className="mr-2"/> Stop
+            </button>
+          ) : (
+            <button onClick={handleFind} disabled={posts.length === 0} className="px-4 py-2 bg-slate-800 hover:bg-slate-700 text-white rounded-lg text-xs font-bold flex items-center border border-slate-700 disabled:opacity-40">
+              <Search size={14} className="mr-2"/> Find Affected Posts
+            </button>
+          )}
+        </div>
+      </div>
+
+      {progress && (
+        <div className="bg-slate-900 border border-slate-800 rounded-xl p-4 text-xs text-slate-400">
+          <div className="flex items-center mb-2"><Loader2 size={14} className="animate-spin mr-2 text-emerald-400"/> Scanning post {Math.min(progress.done + 1, progress.total)} of {progress.total}</div>
+          <div className="h-1.5 bg-slate-800 rounded-full overflow-hidden">
+            <div className="h-full bg-emerald-500 transition-all" style={{ width: `${progress.total ? (progress.done / progress.total) * 100 : 0}%` }}></div>
+          </div>
+        </div>
+      )}
+
+      {error && <div className="p-3 bg-red-500/10 border border-red-500/20 rounded-lg text-red-400 text-xs">{error}</div>}
+
+      {scan && (
+        <>
+          <div className="text-xs text-slate-500 font-mono">
+            {scan.result.postsScanned} posts scanned · {scan.result.previews.length} affected
+            {scan.resolution.product && <span> · {scan.spec.newAsin} is "{scan.resolution.product.title}"</span>}
+            {scan.result.postsFailed > 0 && <span className="text-amber-400"> · {scan.result.postsFailed} posts could not be fetched</span>}
+          </div>
+          {check && check.status !== 'valid' && (
+            <div className="p-3 bg-amber-500/10 border border-amber-500/20 rounded-lg text-amber-300 text-xs flex items-center"><AlertTriangle size={14} className="mr-2 shrink-0"/> {scan.spec.newAsin}: {check.message}</div>
+          )}
+          {scan.result.postsBusy.length > 0 && (
+            <div className="p-3 bg-amber-500/10 border border-amber-500/20 rounded-lg text-amber-300 text-xs flex items-center"><AlertTriangle size={14} className="mr-2 shrink-0"/> {scan.result.postsBusy.length} matching posts are queued for optimization and were left out. Run the replacement again once they finish.</div>
+          )}
+          {scan.result.postsScheduled.length > 0 && (
+            <div className="p-3 bg-amber-500/10 border border-amber-500/20 rounded-lg text-amber-300 text-xs flex items-center"><AlertTriangle size={14} className="mr-2 shrink-0"/> {scan.result.postsScheduled.length} matching posts have a scheduled draft and were left out. Cancel or publish the schedule, then run the replacement again.</div>
+          )}
+          {scan.result.postsGenerated.length > 0 && (
+            <div className="p-3 bg-amber-500/10 border border-amber-500/20 rounded-lg text-amber-300 text-xs flex items-center"><AlertTriangle size={14} className="mr-2 shrink-0"/> {scan.result.postsGenerated.length} matching posts only show the old product through a block, shortcode or embed ({scan.result.postsGenerated.map(id => `#${id}`).join(', ')}). Change those in the WordPress editor.</div>
+          )}
+
+          <div className="flex-1 overflow-y-auto bg-slate-900 border border-slate-800 rounded-2xl divide-y divide-slate-800">
+            {scan.result.previews.map(preview => (
+              <div key={preview.postId}>
+                <div className="flex items-center gap-3 px-4 py-3 hover:bg-slate-800/50">
+                  <input type="checkbox" checked={selected.has(preview.postId)} onChange={() => toggle(preview.postId)} className="accent-emerald-500" />
+                  <button onClick={() => setExpanded(expanded === preview.postId ? null : preview.postId)} className="text-slate-500 hover:text-white">
+                    {expanded === preview.postId ? <ChevronDown size={16}/> : <ChevronRight size={16}/>}
+                  </button>
+                  <div className="min-w-0 flex-1">
+                    <a href={preview.postUrl} target="_blank" className="text-sm text-white font-bold hover:text-emerald-400 flex items-center truncate">{preview.postTitle} <ExternalLink size={10} className="ml-1 shrink-0"/></a>
+                    <div className="text-[10px] font-mono text-slate-500 mt-0.5">
+                      {preview.changes.links} links · {preview.changes.boxes} product boxes · {preview.changes.mentions} mentions
+                    </div>
+                  </div>
+                  {preview.source === 'draft' && <span className="text-[10px] uppercase font-bold border px-2 py-0.5 rounded bg-indigo-500/20 text-indigo-300 border-indigo-500/30" title="This post already has an unpublished draft; the replacement is applied to that draft">Pending Draft</span>}
+                </div>
+                {expanded === preview.postId && (
+                  <div className="px-4 pb-4">
+                    <DiffView originalHtml={preview.originalHtml} draftHtml={preview.updatedHtml} productNames={productNames} />
+                  </div>
+                )}
+              </div>
+            ))}
+            {scan.result.previews.length === 0 && <div className="p-10 text-center text-slate-500 text-sm">No posts reference this product.</div>}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
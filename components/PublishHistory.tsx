@@ -0,0 +1,99 @@
+
+import React, { useState, useEffect } from 'react';
+import { PostSnapshot, PublishLogEntry } from '../types';
+import { getSnapshots } from '../services/publishHistory';
+import { redactError } from '../utils/redact';
+import { stripHtmlPreservingStructure } from '../utils/helpers';
+import { History, RotateCcw, Loader2 } from 'lucide-react';
+
+interface PublishHistoryProps {
+  siteUrl: string;
+  postId: number;
+  version: number; // Bumped by the parent after a publish so the timeline re-reads storage
+  onRollback: (snapshot: PostSnapshot) => Promise<void>;
+  log?: PublishLogEntry[];
+}
+
+const DATE_POLICY_LABELS = { keep: 'original date kept', modified_only: 'modified date only', new_date: 'new publish date' };
+
+const wordCount = (html: string) => html.replace(/<[^>]+>/g, ' ').split(/\s+/).filter(Boolean).length;
+
+export const PublishHistory: React.FC<PublishHistoryProps> = ({ siteUrl, postId, version, onRollback, log }) => {
+  const [snapshots, setSnapshots] = useState<PostSnapshot[]>([]);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = () => getSnapshots(siteUrl, postId).then(setSnapshots).catch(e => setError(redactError(e)));
+
+  useEffect(() => { load(); }, [siteUrl, postId, version]);
+
+  const handleRollback = async (snapshot: PostSnapshot) => {
+    if (!confirm(`Restore the version from ${new Date(snapshot.takenAt).toLocaleString()}? The live post will be overwritten (a backup of it is taken first).`)) return;
+    setBusy(snapshot.id);
+    setError(null);
+    try {
+      await onRollback(snapshot);
+    } catch (e: any) {
+      setError(redactError(e));
+    } finally {
+      setBusy(null);
+      load();
+    }
+  };
+
+  return (
+    <div className="bg-slate-800 rounded-xl border border-slate-700 p-6">
+      <h3 className="text-lg font-bold text-white mb-4 flex items-center"><History size={18} className="mr-2 text-indigo-400"/> Publish History</h3>
+      {snapshots.length === 0 ? (
+        <div className="text-sm text-slate-500">No backups yet. One is taken automatically before every publish.</div>
+      ) : (
+        <ol className="relative border-l border-slate-700 ml-2 space-y-4">
+          {snapshots.map(snapshot => (
+            <li key={snapshot.id} className="ml-4">
+              <span className={`absolute -left-1.5 w-3 h-3 rounded-full border-2 border-slate-800 ${snapshot.reason === 'publish' ? 'bg-emerald-500' : 'bg-amber-500'}`}></span>
+              <div className="flex items-start justify-between gap-4 bg-slate-900 p-3 rounded-lg border border-slate-700">
+                <div className="min-w-0">
+                  <div className="text-xs font-mono text-slate-500">
+                    {new Date(snapshot.takenAt).toLocaleString()} · {snapshot.reason === 'publish' ? 'Before publish' : 'Before rollback'}
+                    {snapshot.wpRevisionId && <> · WP rev #{snapshot.wpRevisionId}</>}
+                  </div>
+                  <div className="text-sm font-bold text-white truncate mt-0.5">{stripHtmlPreservingStructure(snapshot.title).trim() || '(untitled)'}</div>
+                  <div className="text-xs text-slate-500 mt-0.5">
+                    {snapshot.offloaded ? 'Content stored in WP revision' : `${wordCount(snapshot.content)} words`} · dated {new Date(snapshot.date).toLocaleDateString()}
+                    {snapshot.status && <> · was {snapshot.status}</>}
+                  </div>
+                </div>
+                <button
+                  onClick={() => handleRollback(snapshot)}
+                  disabled={busy !== null}
+                  className="px-3 py-1.5 bg-slate-700 hover:bg-amber-600 text-white rounded-md text-xs font-bold flex items-center shrink-0 disabled:opacity-40"
+                >
+                  {busy === snapshot.id ? <Loader2 size={12} className="animate-spin mr-1"/> : <RotateCcw size={12} className="mr-1"/>} Rollback
+                </button>
+              </div>
+            </li>
+          ))}
+        </ol>
+      )}
+      {error && <div className="text-xs text-red-400 mt-3">{error}</div>}
+
+      {log && log.length > 0 && (
+        <div className="mt-6">
+          <div className="text-xs font-bold text-slate-500 uppercase mb-2">Publish Log</div>
+          <ul className="space-y-1 text-xs font-mono text-slate-400">
+            {[...log].reverse().map(entry => (
+              <li key={entry.at}>
+                {new Date(entry.at).toLocaleString()} · {entry.mode}
+                {entry.scheduledAt && <> for {new Date(entry.scheduledAt).toLocaleString()}</>}
+                {entry.datePolicy && <> · {DATE_POLICY_LABELS[entry.datePolicy]}{entry.newDate && ` (${new Date(entry.newDate).toLocaleString()})`}</>}
+                {entry.lastUpdatedNotice && <> · "Last updated" notice</>}
+                {entry.seoFields && entry.seoFields.length > 0 && <> · {entry.seoFields.join(', ')}</>}
+                {entry.warnings?.map((warning, i) => <div key={i} className="text-amber-400 pl-4">{warning}</div>)}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,22 +1,72 @@
 
-import React, { useState, useMemo } from 'react';
-import { ProcessedItem, AIConfig } from '../types';
-import { Search, Loader2, Send, FileText, BarChart3, Monitor, ShoppingBag, ExternalLink, Clock, Zap, Check, Image as ImageIcon } from 'lucide-react';
+import React, { useState, useMemo, useEffect } from 'react';
+import { ProcessedItem, AIConfig, SectionTarget, PostSnapshot, PublishMode, PublishOptions, DatePolicy, SeoPlugin, SeoField, AsinCheck, AsinCheckStatus } from '../types';
+import { SEO_PLUGIN_LABELS, defaultSeoFields } from '../services/seoPluginService';
+import { SectionRegenerator } from './SectionRegenerator';
+import { DraftEditor } from './DraftEditor';
+import { DiffView } from './DiffView';
+import { PublishHistory } from './PublishHistory';
+import { ScheduleBatchModal } from './ScheduleBatchModal';
+import { summarizeUsage, formatUsd, formatTokens } from '../utils/usage';
+import { redactError } from '../utils/redact';
+import { Search, Loader2, Send, FileText, BarChart3, Monitor, ShoppingBag, ExternalLink, Clock, Zap, Check, Image as ImageIcon, HelpCircle, CheckCircle2, MinusCircle, Target, PenLine, GitCompare, CalendarClock, Globe, Upload, ShieldCheck } from 'lucide-react';
 
 interface ReviewResultsProps {
   items: ProcessedItem[];
   config: AIConfig;
   onOpenSettings: () => void;
   onUpdateItem: (id: string, updates: Partial<ProcessedItem>) => void;
-  customPublishHandler?: (item: ProcessedItem) => Promise<void>;
+  customPublishHandler?: (item: ProcessedItem, options: PublishOptions) => Promise<string[] | void>; // Resolves to non-fatal warnings
+  onRegenerateSection?: (id: string, target: SectionTarget, instruction: string) => Promise<void>;
+  onRollback?: (id: string, snapshot: PostSnapshot) => Promise<void>;
+  onScheduleBatch?: (plan: { id: string; scheduledAt: string }[]) => Promise<string[]>; // Resolves to the posts it skipped
+  seoPlugin?: SeoPlugin;
+  onSideloadImages?: (id: string, productNames?: string[]) => Promise<void>;
+  onResolveAsin?: (id: string, productName: string, asin: string) => Promise<AsinCheck>;
 }
 
-export const ReviewResults: React.FC<ReviewResultsProps> = ({ items, config, onUpdateItem, customPublishHandler }) => {
+const PUBLISH_MODES: Record<PublishMode, { label: string; action: string; done: string }> = {
+  update: { label: 'Update live post', action: 'Publish to WordPress', done: 'Published Successfully!' },
+  draft_revision: { label: 'Save as draft revision', action: 'Save Revision', done: 'Saved as a draft revision; the live post is unchanged.' },
+  pending: { label: 'Set to pending review', action: 'Submit for Review', done: 'Submitted as pending review.' },
+  schedule: { label: 'Schedule', action: 'Schedule', done: 'Scheduled. A live post stays published until the slot, when the dashboard applies the rewrite.' }
+};
+
+const ASIN_CHECK_STYLES: Record<AsinCheckStatus, { label: string; className: string }> = {
+  valid: { label: 'Verified', className: 'bg-emerald-500/20 text-emerald-300 border-emerald-500/30' },
+  mismatch: { label: 'Name mismatch', className: 'bg-amber-500/20 text-amber-300 border-amber-500/30' },
+  unavailable: { label: 'Unavailable', className: 'bg-amber-500/20 text-amber-300 border-amber-500/30' },
+  not_found: { label: 'Not found', className: 'bg-red-500/20 text-red-300 border-red-500/30' },
+  unverified: { label: 'Unverified', className: 'bg-slate-700 text-slate-300 border-slate-600' },
+  error: { label: 'Lookup failed', className: 'bg-red-500/20 text-red-300 border-red-500/30' }
+};
+
+const DATE_POLICIES: Record<DatePolicy, string> = {
+  keep: 'Keep original date',
+  modified_only: 'Update modified only',
+  new_date: 'Set new publish date'
+};
+
+export const ReviewResults: React.FC<ReviewResultsProps> = ({ items, config, onUpdateItem, customPublishHandler, onRegenerateSection, onRollback, onScheduleBatch, seoPlugin = 'none', onSideloadImages, onResolveAsin }) => {
   const [selectedIndex, setSelectedIndex] = useState(0);
   const [searchTerm, setSearchTerm] = useState('');
-  const [activeTab, setActiveTab] = useState<'preview' | 'control'>('control');
+  const [activeTab, setActiveTab] = useState<'preview' | 'control' | 'edit' | 'diff'>('control');
   const [isPublishing, setIsPublishing] = useState(false);
   const [publishStatus, setPublishStatus] = useState<{type: 'success' | 'error', msg: string} | null>(null);
+  const [historyVersion, setHistoryVersion] = useState(0);
+  const [publishMode, setPublishMode] = useState<PublishMode>('update');
+  const [scheduledAt, setScheduledAt] = useState('');
+  const [datePolicy, setDatePolicy] = useState<DatePolicy>(config.datePolicy || 'modified_only');
+  const [newDate, setNewDate] = useState(''); // Empty = now
+  const [lastUpdatedNotice, setLastUpdatedNotice] = useState(!!config.lastUpdatedNotice);
+  const [featuredImage, setFeaturedImage] = useState(false);
+  const [uploading, setUploading] = useState<string | null>(null); // Product name, or '*' for all
+  const [resolvingAsin, setResolvingAsin] = useState<string | null>(null); // Product name
+  const [seoFields, setSeoFields] = useState<SeoField[]>(() => defaultSeoFields(seoPlugin));
+
+  // Plugin detection finishes after connect; re-derive defaults once it lands
+  useEffect(() => { setSeoFields(defaultSeoFields(seoPlugin)); }, [seoPlugin]);
+  const [isScheduleOpen, setIsScheduleOpen] = useState(false);
 
   const filteredItems = useMemo(() => {
       if (!searchTerm) return items;
@@ -26,6 +76,7 @@ export const ReviewResults: React.FC<ReviewResultsProps> = ({ items, config, onU
   }, [items, searchTerm]);
 
   const currentItem = filteredItems[selectedIndex] || filteredItems[0];
+  const pendingItems = items.filter(item => item.status === 'pending'); // Drafts not live yet, including scheduled ones
 
   const handleUpdateOverride = (productName: string, field: 'asin' | 'image' | 'price', value: string) => {
       if (!currentItem) return;
@@ -35,22 +86,61 @@ export const ReviewResults: React.FC<ReviewResultsProps> = ({ items, config, onU
       onUpdateItem(currentItem.id, {
           productOverrides: {
               ...currentOverrides,
-              [productName]: { ...productOverride, [field]: value }
+              // A hand-edited image URL no longer points at the uploaded attachment
+              [productName]: { ...productOverride, [field]: value, ...(field === 'image' ? { mediaId: undefined } : {}) }
           }
       });
   };
 
+  const handleResolveAsin = async (productName: string, asin: string) => {
+      if (!currentItem || !onResolveAsin || !asin.trim()) return;
+      setResolvingAsin(productName);
+      setPublishStatus(null);
+      try {
+          const check = await onResolveAsin(currentItem.id, productName, asin);
+          if (check.status === 'not_found' || check.status === 'error') setPublishStatus({ type: 'error', msg: `${check.asin}: ${check.message}` });
+      } catch (e: any) {
+          setPublishStatus({ type: 'error', msg: redactError(e) });
+      } finally {
+          setResolvingAsin(null);
+      }
+  };
+
+  const handleSideload = async (productName?: string) => {
+      if (!currentItem || !onSideloadImages) return;
+      setUploading(productName || '*');
+      setPublishStatus(null);
+      try {
+          await onSideloadImages(currentItem.id, productName ? [productName] : undefined);
+          setPublishStatus({ type: 'success', msg: 'Images uploaded to the media library.' });
+      } catch (e: any) {
+          setPublishStatus({ type: 'error', msg: `Upload failed: ${redactError(e)}` });
+      } finally {
+          setUploading(null);
+      }
+  };
+
   const handlePublish = async () => {
       if (!currentItem || !customPublishHandler) return;
       setIsPublishing(true);
       setPublishStatus(null);
       try {
-          await customPublishHandler(currentItem);
-          setPublishStatus({ type: 'success', msg: 'Published Successfully!' });
+          if (publishMode === 'schedule' && !scheduledAt) throw new Error('Pick a date and time to schedule.');
+          const warnings = await customPublishHandler(currentItem, {
+              mode: publishMode,
+              ...(publishMode === 'schedule' ? { scheduledAt: new Date(scheduledAt).toISOString() } : {}),
+              datePolicy,
+              ...(datePolicy === 'new_date' && newDate ? { newDate: new Date(newDate).toISOString() } : {}),
+              lastUpdatedNotice,
+              seoFields,
+              featuredImage
+          });
+          setPublishStatus({ type: 'success', msg: [PUBLISH_MODES[publishMode].done, ...(warnings || [])].join(' ') });
       } catch (e: any) {
-          setPublishStatus({ type: 'error', msg: e.message });
+          setPublishStatus({ type: 'error', msg: redactError(e) });
       } finally {
           setIsPublishing(false);
+          setHistoryVersion(v => v + 1);
       }
   };
 
@@ -58,9 +148,23 @@ export const ReviewResults: React.FC<ReviewResultsProps> = ({ items, config, onU
 
   const strategy = currentItem.aiResult?.strategy;
   const coverage = currentItem.aiResult?.keywordCoverage;
+  const usage = summarizeUsage(currentItem.aiResult?.usage);
+  const paaCoverage = currentItem.aiResult?.paaCoverage || [];
 
   return (
     <div className="flex h-[calc(100vh-140px)] gap-6">
+      {onScheduleBatch && isScheduleOpen && (
+          <ScheduleBatchModal
+              isOpen={isScheduleOpen}
+              onClose={() => setIsScheduleOpen(false)}
+              items={pendingItems}
+              onConfirm={async (plan) => {
+                  const skipped = await onScheduleBatch(plan);
+                  setPublishStatus({ type: 'success', msg: [`Scheduled ${plan.length - skipped.length} of ${plan.length} drafts.`, ...(skipped.length ? [`Skipped: ${skipped.join('; ')}.`] : [])].join(' ') });
+                  setHistoryVersion(v => v + 1);
+              }}
+          />
+      )}
       
       {/* 1. Sidebar List */}
       <div className="w-80 bg-white rounded-2xl border border-slate-200 overflow-hidden flex flex-col shrink-0">
@@ -87,6 +191,7 @@ export const ReviewResults: React.FC<ReviewResultsProps> = ({ items, config, onU
                     <div className="text-xs text-slate-500 mt-1 flex items-center justify-between">
                         <span>Score: {item.aiResult?.strategy.verdict.score || 0}</span>
                         {item.status === 'completed' && <Check size={12} className="text-emerald-500" />}
+                        {item.scheduledAt && <span title={`Scheduled for ${new Date(item.scheduledAt).toLocaleString()}`}><CalendarClock size={12} className="text-indigo-500" /></span>}
                     </div>
                 </div>
             ))}
@@ -105,15 +210,49 @@ export const ReviewResults: React.FC<ReviewResultsProps> = ({ items, config, onU
                     <button onClick={() => setActiveTab('preview')} className={`px-4 py-1.5 rounded text-sm font-bold flex items-center ${activeTab === 'preview' ? 'bg-indigo-600 text-white' : 'text-slate-400 hover:text-white'}`}>
                         <Monitor size={14} className="mr-2"/> Live Preview
                     </button>
+                    <button onClick={() => setActiveTab('edit')} className={`px-4 py-1.5 rounded text-sm font-bold flex items-center ${activeTab === 'edit' ? 'bg-indigo-600 text-white' : 'text-slate-400 hover:text-white'}`}>
+                        <PenLine size={14} className="mr-2"/> Edit Draft
+                    </button>
+                    <button onClick={() => setActiveTab('diff')} className={`px-4 py-1.5 rounded text-sm font-bold flex items-center ${activeTab === 'diff' ? 'bg-indigo-600 text-white' : 'text-slate-400 hover:text-white'}`}>
+                        <GitCompare size={14} className="mr-2"/> Diff
+                    </button>
                 </div>
                 
                 <div className="flex items-center space-x-4">
                      {/* Efficiency Metric */}
-                    <div className="hidden md:flex items-center space-x-3 text-xs font-mono text-slate-500 bg-slate-900 px-3 py-1.5 rounded border border-slate-800">
-                        <span className="flex items-center"><Clock size={12} className="mr-1 text-indigo-400"/> ~8.2s</span>
-                        <span className="w-px h-3 bg-slate-700"></span>
-                        <span className="flex items-center"><Zap size={12} className="mr-1 text-amber-400"/> ~4k Tokens</span>
-                    </div>
+                    {usage.calls > 0 && (
+                        <div className="hidden md:flex items-center space-x-3 text-xs font-mono text-slate-500 bg-slate-900 px-3 py-1.5 rounded border border-slate-800" title={`${usage.calls} AI calls${usage.estimated ? ' (some token counts estimated)' : ''}${usage.unpriced ? ' (some calls ran on a model with no known price)' : ''}`}>
+                            <span className="flex items-center"><Clock size={12} className="mr-1 text-indigo-400"/> {(usage.latencyMs / 1000).toFixed(1)}s</span>
+                            <span className="w-px h-3 bg-slate-700"></span>
+                            <span className="flex items-center"><Zap size={12} className="mr-1 text-amber-400"/> {usage.estimated && '~'}{formatTokens(usage.promptTokens + usage.completionTokens)} Tokens</span>
+                            <span className="w-px h-3 bg-slate-700"></span>
+                            <span className="flex items-center text-emerald-400">{formatUsd(usage.costUsd)}{usage.unpriced && '+?'}</span>
+                        </div>
+                    )}
+
+                    {onScheduleBatch && (
+                        <button onClick={() => setIsScheduleOpen(true)} disabled={pendingItems.length === 0} className="text-slate-400 hover:text-white text-xs font-bold flex items-center disabled:opacity-30" title="Spread unpublished drafts over a date range">
+                            <CalendarClock size={14} className="mr-1"/> Schedule Batch
+                        </button>
+                    )}
+
+                    <select value={publishMode} onChange={(e) => setPublishMode(e.target.value as PublishMode)} className="bg-slate-900 border border-slate-700 text-slate-300 text-xs rounded-lg px-2 py-2 outline-none">
+                        {(Object.keys(PUBLISH_MODES) as PublishMode[]).map(mode => <option key={mode} value={mode}>{PUBLISH_MODES[mode].label}</option>)}
+                    </select>
+                    {publishMode === 'schedule' && (
+                        <input type="datetime-local" value={scheduledAt} onChange={(e) => setScheduledAt(e.target.value)} className="bg-slate-900 border border-slate-700 text-slate-300 text-xs rounded-lg px-2 py-1.5 outline-none" />
+                    )}
+                    {(publishMode === 'update' || publishMode === 'pending') && (
+                        <select value={datePolicy} onChange={(e) => setDatePolicy(e.target.value as DatePolicy)} className="bg-slate-900 border border-slate-700 text-slate-300 text-xs rounded-lg px-2 py-2 outline-none" title="What happens to the post's publish date">
+                            {(Object.keys(DATE_POLICIES) as DatePolicy[]).map(policy => <option key={policy} value={policy}>{DATE_POLICIES[policy]}</option>)}
+                        </select>
+                    )}
+                    {(publishMode === 'update' || publishMode === 'pending') && datePolicy === 'new_date' && (
+                        <input type="datetime-local" value={newDate} onChange={(e) => setNewDate(e.target.value)} title="Leave empty for now" className="bg-slate-900 border border-slate-700 text-slate-300 text-xs rounded-lg px-2 py-1.5 outline-none" />
+                    )}
+                    <label className="flex items-center text-xs text-slate-400 whitespace-nowrap" title='Prepend a "Last updated" line to the post'>
+                        <input type="checkbox" className="mr-1" checked={lastUpdatedNotice} onChange={(e) => setLastUpdatedNotice(e.target.checked)} /> Notice
+                    </label>
 
                     <button 
                         onClick={handlePublish}
@@ -121,7 +260,7 @@ export const ReviewResults: React.FC<ReviewResultsProps> = ({ items, config, onU
                         className="bg-emerald-600 hover:bg-emerald-500 text-white px-6 py-2 rounded-lg text-sm font-bold shadow-lg shadow-emerald-500/20 transition-all flex items-center disabled:opacity-50"
                     >
                         {isPublishing ? <Loader2 size={16} className="animate-spin mr-2"/> : <Send size={16} className="mr-2" />}
-                        {isPublishing ? 'Publishing...' : 'Publish to WordPress'}
+                        {isPublishing ? 'Publishing...' : PUBLISH_MODES[publishMode].action}
                     </button>
                 </div>
            </div>
@@ -129,9 +268,10 @@ export const ReviewResults: React.FC<ReviewResultsProps> = ({ items, config, onU
            {/* Content */}
            <div className="flex-1 overflow-y-auto bg-slate-900 custom-scrollbar p-6">
                
-               {activeTab === 'control' && strategy && (
+               {activeTab === 'control' && (
                    <div className="max-w-5xl mx-auto space-y-6">
                        
+                       {strategy && (<>
                        {/* Strategy Map */}
                        <div className="bg-slate-800 rounded-xl border border-slate-700 p-6">
                             <h3 className="text-lg font-bold text-white mb-4 flex items-center"><FileText size={18} className="mr-2 text-indigo-400"/> Strategy Execution</h3>
@@ -157,14 +297,33 @@ export const ReviewResults: React.FC<ReviewResultsProps> = ({ items, config, onU
 
                        {/* Monetization Matrix (Multi-Product) */}
                        <div className="bg-slate-800 rounded-xl border border-slate-700 p-6 border-l-4 border-l-emerald-500">
-                           <h3 className="text-lg font-bold text-white mb-4 flex items-center"><ShoppingBag size={18} className="mr-2 text-emerald-400"/> Monetization Matrix</h3>
+                           <h3 className="text-lg font-bold text-white mb-4 flex items-center justify-between">
+                               <span className="flex items-center"><ShoppingBag size={18} className="mr-2 text-emerald-400"/> Monetization Matrix
+                                   {currentItem.aiResult?.detectedProducts.some(p => p.amazonData?.isSimulated) && (
+                                       <span className="ml-3 text-[10px] uppercase bg-amber-500/20 text-amber-300 border border-amber-500/30 px-2 py-0.5 rounded" title="Amazon demo mode: ASINs, prices and ratings are invented. Set PA-API keys in Settings for live data.">Demo Data</span>
+                                   )}
+                               </span>
+                               {onSideloadImages && (
+                                   <button onClick={() => handleSideload()} disabled={uploading !== null} className="text-xs font-bold text-slate-400 hover:text-white flex items-center disabled:opacity-40" title="Upload every product image to the WordPress media library">
+                                       {uploading === '*' ? <Loader2 size={12} className="animate-spin mr-1"/> : <Upload size={12} className="mr-1"/>} Upload All Images
+                                   </button>
+                               )}
+                           </h3>
                            <div className="space-y-4">
                                 {currentItem.aiResult?.detectedProducts.map((prod, i) => (
                                     <div key={i} className="flex flex-col md:flex-row items-start md:items-center justify-between bg-slate-900 p-4 rounded-lg border border-slate-700 gap-4">
                                         <div className="flex items-center min-w-0 flex-1">
                                             <div className="w-8 h-8 shrink-0 rounded-full bg-slate-800 flex items-center justify-center text-xs font-bold text-slate-500 mr-3 border border-slate-600">{i+1}</div>
                                             <div className="min-w-0">
-                                                <div className="text-white font-bold text-sm truncate pr-2">{prod.name}</div>
+                                                <div className="text-white font-bold text-sm truncate pr-2">
+                                                    {prod.name}{prod.amazonData?.isSimulated && <span className="ml-2 text-[9px] font-mono text-amber-400">SIMULATED</span>}
+                                                    {prod.asinCheck && (
+                                                        <span className={`ml-2 text-[9px] uppercase border px-1.5 py-0.5 rounded ${ASIN_CHECK_STYLES[prod.asinCheck.status].className}`} title={prod.asinCheck.message || `${prod.asinCheck.asin} matches Amazon's listing`}>
+                                                            {ASIN_CHECK_STYLES[prod.asinCheck.status].label}
+                                                        </span>
+                                                    )}
+                                                </div>
+                                                {prod.asinCheck?.message && prod.asinCheck.status !== 'valid' && <div className="text-[10px] text-amber-400/80 truncate mt-0.5">{prod.asinCheck.message}</div>}
                                                 <a href={prod.url} target="_blank" className="text-xs text-slate-500 hover:text-emerald-400 flex items-center mt-0.5 truncate"><ExternalLink size={10} className="mr-1"/> {prod.url}</a>
                                             </div>
                                         </div>
@@ -177,8 +336,14 @@ export const ReviewResults: React.FC<ReviewResultsProps> = ({ items, config, onU
                                                     placeholder={prod.asin || "B0..."}
                                                     value={currentItem.productOverrides?.[prod.name]?.asin || ''}
                                                     onChange={(e) => handleUpdateOverride(prod.name, 'asin', e.target.value)}
+                                                    onKeyDown={(e) => { if (e.key === 'Enter') handleResolveAsin(prod.name, currentItem.productOverrides?.[prod.name]?.asin || ''); }}
                                                     className="bg-transparent py-2 text-xs text-emerald-400 w-24 outline-none font-mono"
                                                 />
+                                                {onResolveAsin && (
+                                                    <button onClick={() => handleResolveAsin(prod.name, currentItem.productOverrides?.[prod.name]?.asin || '')} disabled={resolvingAsin !== null || !currentItem.productOverrides?.[prod.name]?.asin} className="text-slate-500 hover:text-white ml-1 disabled:opacity-40" title="Fetch this ASIN from Amazon and check it matches the product">
+                                                        {resolvingAsin === prod.name ? <Loader2 size={12} className="animate-spin"/> : <ShieldCheck size={12}/>}
+                                                    </button>
+                                                )}
                                             </div>
 
                                             <div className="flex items-center bg-slate-950 border border-slate-700 rounded-md px-2">
@@ -190,12 +355,154 @@ export const ReviewResults: React.FC<ReviewResultsProps> = ({ items, config, onU
                                                     onChange={(e) => handleUpdateOverride(prod.name, 'image', e.target.value)}
                                                     className="bg-transparent py-2 text-xs text-white w-32 outline-none"
                                                 />
+                                                {currentItem.productOverrides?.[prod.name]?.mediaId ? (
+                                                    <span className="text-[10px] font-mono text-emerald-400 ml-1" title="Served from the media library">#{currentItem.productOverrides[prod.name].mediaId}</span>
+                                                ) : onSideloadImages && (
+                                                    <button onClick={() => handleSideload(prod.name)} disabled={uploading !== null} className="text-slate-500 hover:text-white ml-1 disabled:opacity-40" title="Upload to media library">
+                                                        {uploading === prod.name ? <Loader2 size={12} className="animate-spin"/> : <Upload size={12}/>}
+                                                    </button>
+                                                )}
                                             </div>
                                         </div>
                                     </div>
                                 ))}
                            </div>
                        </div>
+                       </>)}
+
+                       {/* Featured Image */}
+                       <div className="bg-slate-800 rounded-xl border border-slate-700 p-6">
+                           <h3 className="text-lg font-bold text-white mb-4 flex items-center"><ImageIcon size={18} className="mr-2 text-indigo-400"/> Featured Image</h3>
+                           <div className="flex items-center gap-3">
+                               <input
+                                   type="text"
+                                   placeholder="Image URL (defaults to the first product image)"
+                                   value={currentItem.customImageUrl || ''}
+                                   onChange={(e) => onUpdateItem(currentItem.id, { customImageUrl: e.target.value })}
+                                   className="flex-1 bg-slate-950 border border-slate-700 rounded-md px-3 py-2 text-xs text-white outline-none focus:border-indigo-500"
+                               />
+                               <label className="flex items-center text-xs text-slate-300 whitespace-nowrap">
+                                   <input type="checkbox" className="mr-2" checked={featuredImage} onChange={(e) => setFeaturedImage(e.target.checked)} /> Set on publish
+                               </label>
+                           </div>
+                       </div>
+
+                       {/* Per-Section Regeneration */}
+                       {onRegenerateSection && currentItem.aiResult && (
+                           <SectionRegenerator aiResult={currentItem.aiResult} onRegenerate={(target, instruction) => onRegenerateSection(currentItem.id, target, instruction)} />
+                       )}
+
+                       {/* Keyword Coverage */}
+                       {coverage?.keywords && coverage.keywords.length > 0 && (
+                           <div className="bg-slate-800 rounded-xl border border-slate-700 p-6">
+                               <h3 className="text-lg font-bold text-white mb-4 flex items-center justify-between">
+                                   <span className="flex items-center"><Target size={18} className="mr-2 text-amber-400"/> Keyword Coverage</span>
+                                   <span className="text-xs font-mono text-slate-400">{coverage.used}/{coverage.total} used · {coverage.wordCount} words</span>
+                               </h3>
+                               <table className="w-full text-sm">
+                                   <thead>
+                                       <tr className="text-[10px] uppercase text-slate-500 text-left">
+                                           <th className="pb-2">Keyword</th>
+                                           <th className="pb-2 text-right">Count</th>
+                                           <th className="pb-2 text-right">Density</th>
+                                           <th className="pb-2 pl-4">Placement</th>
+                                       </tr>
+                                   </thead>
+                                   <tbody className="divide-y divide-slate-700/50">
+                                       {coverage.keywords.map(kw => (
+                                           <tr key={kw.keyword} className={kw.count === 0 ? 'text-red-400' : 'text-slate-300'}>
+                                               <td className="py-2">
+                                                   {kw.keyword}
+                                                   {kw.isPrimary && <span className="ml-2 text-[9px] font-bold uppercase bg-indigo-600 text-white px-1.5 py-0.5 rounded">Primary</span>}
+                                                   {coverage.wovenIn?.includes(kw.keyword) && <span className="ml-2 text-[9px] font-bold uppercase bg-amber-500/20 text-amber-400 px-1.5 py-0.5 rounded">Woven</span>}
+                                               </td>
+                                               <td className="py-2 text-right font-mono">{kw.count}</td>
+                                               <td className="py-2 text-right font-mono">{kw.density.toFixed(2)}%</td>
+                                               <td className="py-2 pl-4">
+                                                   <div className="flex gap-1">
+                                                       {([['title', 'Title'], ['h2', 'H2'], ['firstParagraph', 'Intro'], ['sgeSummary', 'SGE']] as const).map(([key, label]) => (
+                                                           <span key={key} className={`text-[9px] font-bold uppercase px-1.5 py-0.5 rounded border ${kw.locations[key] ? 'border-emerald-500/40 text-emerald-400' : 'border-slate-700 text-slate-600'}`}>{label}</span>
+                                                       ))}
+                                                   </div>
+                                               </td>
+                                           </tr>
+                                       ))}
+                                   </tbody>
+                               </table>
+                           </div>
+                       )}
+
+                       {/* People Also Ask Coverage */}
+                       {paaCoverage.length > 0 && (
+                           <div className="bg-slate-800 rounded-xl border border-slate-700 p-6">
+                               <h3 className="text-lg font-bold text-white mb-4 flex items-center justify-between">
+                                   <span className="flex items-center"><HelpCircle size={18} className="mr-2 text-cyan-400"/> People Also Ask Coverage</span>
+                                   <span className="text-xs font-mono text-slate-400">{paaCoverage.filter(p => p.answered).length}/{paaCoverage.length} answered</span>
+                               </h3>
+                               <ul className="space-y-2">
+                                   {paaCoverage.map((paa, i) => (
+                                       <li key={i} className="flex items-start justify-between bg-slate-900 p-3 rounded-lg border border-slate-700 text-sm">
+                                           <span className={`flex items-start ${paa.answered ? 'text-slate-200' : 'text-slate-500'}`}>
+                                               {paa.answered ? <CheckCircle2 size={16} className="mr-2 mt-0.5 shrink-0 text-emerald-400"/> : <MinusCircle size={16} className="mr-2 mt-0.5 shrink-0 text-slate-600"/>}
+                                               {paa.question}
+                                           </span>
+                                           <span className={`text-[10px] font-bold uppercase ml-4 shrink-0 ${paa.answered ? 'text-emerald-400' : 'text-slate-500'}`}>
+                                               {paa.answered ? `FAQ #${(paa.faqIndex ?? 0) + 1}` : 'Skipped'}
+                                           </span>
+                                       </li>
+                                   ))}
+                               </ul>
+                           </div>
+                       )}
+
+                       {/* SEO Fields */}
+                       {currentItem.aiResult ? (
+                           <div className="bg-slate-800 rounded-xl border border-slate-700 p-6">
+                               <h3 className="text-lg font-bold text-white mb-4 flex items-center justify-between">
+                                   <span className="flex items-center"><Globe size={18} className="mr-2 text-indigo-400"/> SEO Fields on Publish</span>
+                                   <span className="text-xs font-mono text-slate-400">{SEO_PLUGIN_LABELS[seoPlugin]}</span>
+                               </h3>
+                               <div className="space-y-2">
+                                   {([
+                                       ['title', 'WP Title', currentItem.aiResult.newTitle],
+                                       ['excerpt', 'WP Excerpt', currentItem.aiResult.metaDescription],
+                                       ['seoTitle', 'SEO Title', seoPlugin === 'none' ? 'Needs Yoast, Rank Math or AIOSEO' : currentItem.aiResult.newTitle],
+                                       ['metaDescription', 'Meta Description', seoPlugin === 'none' ? 'Needs Yoast, Rank Math or AIOSEO' : currentItem.aiResult.metaDescription],
+                                       ['schema', 'JSON-LD Script', seoPlugin === 'none' ? 'Embedded at the end of the content' : `Embedded in content; may duplicate ${SEO_PLUGIN_LABELS[seoPlugin]}'s own schema`]
+                                   ] as [SeoField, string, string][]).map(([field, label, preview]) => (
+                                       <label key={field} className="flex items-start gap-3 bg-slate-900 p-3 rounded-lg border border-slate-700 text-sm cursor-pointer">
+                                           <input
+                                               type="checkbox"
+                                               className="mt-1"
+                                               checked={seoFields.includes(field)}
+                                               onChange={(e) => setSeoFields(prev => e.target.checked ? [...prev, field] : prev.filter(f => f !== field))}
+                                           />
+                                           <span className="min-w-0">
+                                               <span className="block text-xs font-bold uppercase text-slate-500">{label}</span>
+                                               <span className="block text-slate-300 truncate">{preview}</span>
+                                           </span>
+                                       </label>
+                                   ))}
+                               </div>
+                           </div>
+                       ) : (
+                           <div className="bg-slate-800 rounded-xl border border-slate-700 p-4 text-xs text-slate-400 flex items-center">
+                               <Globe size={14} className="mr-2 text-slate-500 shrink-0"/> Content-only draft: publishing updates the post body and keeps its title, excerpt and SEO fields as they are on WordPress.
+                           </div>
+                       )}
+
+                       {onRollback && config.wpUrl && (
+                           <PublishHistory
+                               siteUrl={config.wpUrl}
+                               postId={parseInt(currentItem.id)}
+                               version={historyVersion}
+                               log={currentItem.publishLog}
+                               onRollback={async (snapshot) => {
+                                   await onRollback(currentItem.id, snapshot);
+                                   setPublishStatus({ type: 'success', msg: `Rolled back to ${new Date(snapshot.takenAt).toLocaleString()}` });
+                               }}
+                           />
+                       )}
                    </div>
                )}
 
@@ -204,6 +511,18 @@ export const ReviewResults: React.FC<ReviewResultsProps> = ({ items, config, onU
                        <div className="prose prose-slate max-w-none" dangerouslySetInnerHTML={{ __html: currentItem.draftHtml || '' }} />
                    </div>
                )}
+
+               {activeTab === 'edit' && (
+                   <DraftEditor key={currentItem.id} html={currentItem.draftHtml || ''} onSave={(html) => onUpdateItem(currentItem.id, { draftHtml: html })} />
+               )}
+
+               {activeTab === 'diff' && (
+                   <DiffView
+                       originalHtml={currentItem.originalHtml}
+                       draftHtml={currentItem.draftHtml || ''}
+                       productNames={[strategy?.oldProduct, ...(currentItem.aiResult?.detectedProducts || []).map(p => p.name)].filter(Boolean)}
+                   />
+               )}
            </div>
 
            {/* Footer Status */}
@@ -0,0 +1,139 @@
+import React, { useState, useMemo } from 'react';
+import { ProcessedItem } from '../types';
+import { spreadSchedule } from '../utils/scheduling';
+import { redactError } from '../utils/redact';
+import { X, CalendarClock, Loader2, AlertTriangle } from 'lucide-react';
+
+interface ScheduleBatchModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  items: ProcessedItem[]; // Drafts that are not live yet; the user picks which to schedule
+  onConfirm: (plan: { id: string; scheduledAt: string }[]) => Promise<void>;
+}
+
+// <input type="datetime-local"> works in local time without a zone suffix
+const toLocalInput = (d: Date) => new Date(d.getTime() - d.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+
+export const ScheduleBatchModal: React.FC<ScheduleBatchModalProps> = ({ isOpen, onClose, items, onConfirm }) => {
+  const [start, setStart] = useState(() => toLocalInput(new Date(Date.now() + 60 * 60 * 1000)));
+  const [end, setEnd] = useState(() => toLocalInput(new Date(Date.now() + 14 * 24 * 60 * 60 * 1000)));
+  const [dailyStartHour, setDailyStartHour] = useState(9);
+  const [dailyEndHour, setDailyEndHour] = useState(17);
+  const [skipWeekends, setSkipWeekends] = useState(false);
+  const [isScheduling, setIsScheduling] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Already-scheduled drafts start unticked so a second batch doesn't silently move them
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(() => new Set(items.filter(i => i.draftHtml && !i.scheduledAt).map(i => i.id)));
+
+  const selected = useMemo(() => items.filter(item => selectedIds.has(item.id)), [items, selectedIds]);
+  const schedulable = items.filter(item => item.draftHtml);
+
+  const toggle = (id: string) => setSelectedIds(prev => {
+    const next = new Set(prev);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    return next;
+  });
+
+  const plan = useMemo(() => {
+    try {
+      const slots = spreadSchedule(selected.length, { start: new Date(start), end: new Date(end), dailyStartHour, dailyEndHour, skipWeekends });
+      return { slots, error: null as string | null };
+    } catch (e: any) {
+      return { slots: [] as Date[], error: e.message as string };
+    }
+  }, [selected.length, start, end, dailyStartHour, dailyEndHour, skipWeekends]);
+
+  if (!isOpen) return null;
+
+  const handleConfirm = async () => {
+    setIsScheduling(true);
+    setError(null);
+    try {
+      await onConfirm(selected.map((item, i) => ({ id: item.id, scheduledAt: plan.slots[i].toISOString() })));
+      onClose();
+    } catch (e: any) {
+      setError(redactError(e));
+    } finally {
+      setIsScheduling(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/60 backdrop-blur-sm p-4 animate-in fade-in duration-200">
+      <div className="bg-white rounded-3xl shadow-2xl w-full max-w-lg overflow-hidden animate-in zoom-in-95 duration-200 border border-slate-200 flex flex-col max-h-[90vh]">
+        <div className="bg-slate-50/80 backdrop-blur-md px-6 py-5 border-b border-slate-100 flex justify-between items-center">
+          <h2 className="text-lg font-bold text-slate-900 flex items-center">
+            <CalendarClock size={18} className="mr-2 text-brand-600" /> Schedule {selected.length} Draft{selected.length === 1 ? '' : 's'}
+          </h2>
+          <button onClick={onClose}><X size={18}/></button>
+        </div>
+
+        <div className="p-6 space-y-5 overflow-y-auto flex-1 custom-scrollbar">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-xs font-bold text-slate-500 uppercase mb-2">Window Start</label>
+              <input type="datetime-local" value={start} onChange={(e) => setStart(e.target.value)} className="block w-full p-3 border rounded-xl text-sm" />
+            </div>
+            <div>
+              <label className="block text-xs font-bold text-slate-500 uppercase mb-2">Window End</label>
+              <input type="datetime-local" value={end} onChange={(e) => setEnd(e.target.value)} className="block w-full p-3 border rounded-xl text-sm" />
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-xs font-bold text-slate-500 uppercase mb-2">Daily From (hour)</label>
+              <input type="number" min={0} max={23} value={dailyStartHour} onChange={(e) => setDailyStartHour(parseInt(e.target.value) || 0)} className="block w-full p-3 border rounded-xl font-mono" />
+            </div>
+            <div>
+              <label className="block text-xs font-bold text-slate-500 uppercase mb-2">Daily Until (hour)</label>
+              <input type="number" min={1} max={24} value={dailyEndHour} onChange={(e) => setDailyEndHour(parseInt(e.target.value) || 24)} className="block w-full p-3 border rounded-xl font-mono" />
+            </div>
+          </div>
+          <label className="flex items-center gap-3 text-sm text-slate-600">
+            <input type="checkbox" checked={skipWeekends} onChange={(e) => setSkipWeekends(e.target.checked)} /> Skip weekends
+          </label>
+
+          <div className="bg-amber-50 p-3 rounded-xl text-xs text-amber-900 border border-amber-200 space-y-1">
+            <div className="font-bold flex items-center"><AlertTriangle size={14} className="mr-2 shrink-0"/> Keep this dashboard open for live posts</div>
+            <p>Live posts stay published: each rewrite is saved as a draft revision and only goes live at its slot if this dashboard is open in a browser tab. Slots missed while it is closed are held until your next visit, where you can publish them or spread them out again.</p>
+            <p>Posts that are not live yet are scheduled in WordPress itself and go out on time without the dashboard.</p>
+          </div>
+
+          {plan.error && <div className="text-sm text-red-600">{plan.error}</div>}
+          <div>
+            <div className="flex justify-between items-center mb-2">
+              <span className="text-xs font-bold text-slate-500 uppercase">Drafts ({selected.length}/{schedulable.length})</span>
+              <button onClick={() => setSelectedIds(new Set(selectedIds.size === schedulable.length ? [] : schedulable.map(i => i.id)))} className="text-xs font-bold text-brand-600 hover:text-brand-500">
+                {selectedIds.size === schedulable.length ? 'Select none' : 'Select all'}
+              </button>
+            </div>
+            <ul className="text-xs font-mono divide-y divide-slate-100 border border-slate-200 rounded-xl">
+              {items.map(item => {
+                const slot = plan.slots[selected.indexOf(item)];
+                return (
+                  <li key={item.id}>
+                    <label className={`flex items-center gap-3 px-3 py-2 ${item.draftHtml ? 'cursor-pointer' : 'opacity-50'}`}>
+                      <input type="checkbox" checked={selectedIds.has(item.id)} disabled={!item.draftHtml} onChange={() => toggle(item.id)} />
+                      <span className="truncate flex-1 text-slate-700">{item.slug}</span>
+                      <span className="text-slate-500 shrink-0">
+                        {!item.draftHtml ? 'no draft' : slot ? slot.toLocaleString() : item.scheduledAt ? `already ${new Date(item.scheduledAt).toLocaleString()}` : ''}
+                      </span>
+                    </label>
+                  </li>
+                );
+              })}
+            </ul>
+          </div>
+          {error && <div className="text-sm text-red-600">{error}</div>}
+        </div>
+
+        <div className="bg-slate-50 px-6 py-4 border-t flex justify-end">
+          <button onClick={handleConfirm} disabled={isScheduling || !!plan.error || selected.length === 0} className="px-6 py-3 bg-brand-600 text-white rounded-xl font-bold hover:bg-brand-500 transition-colors shadow-lg shadow-brand-500/20 flex items-center disabled:opacity-50">
+            {isScheduling && <Loader2 size={16} className="animate-spin mr-2"/>} Schedule Batch
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,94 @@
+
+import React, { useState } from 'react';
+import { AIAnalysisResult, SectionTarget } from '../types';
+import { splitTemplateSections } from '../utils/sections';
+import { redactError } from '../utils/redact';
+import { RefreshCw, Loader2, Layers } from 'lucide-react';
+
+interface SectionRegeneratorProps {
+  aiResult: AIAnalysisResult;
+  onRegenerate: (target: SectionTarget, instruction: string) => Promise<void>;
+}
+
+const excerpt = (html: string, length = 110): string => {
+  const text = html.replace(/<[^>]+>/g, ' ').replace(/\s+/g, ' ').trim();
+  return text.length > length ? text.substring(0, length) + '…' : text;
+};
+
+const targetKey = (target: SectionTarget): string => target.kind === 'h2' ? `h2:${target.index}` : target.kind;
+
+export const SectionRegenerator: React.FC<SectionRegeneratorProps> = ({ aiResult, onRegenerate }) => {
+  const [instructions, setInstructions] = useState<Record<string, string>>({});
+  const [busy, setBusy] = useState<string | null>(null);
+  const [error, setError] = useState<{ key: string; msg: string } | null>(null);
+
+  // Blocks are only offered where the draft has a template to swap them into
+  const rows: { target: SectionTarget; label: string; preview: string }[] = [
+    ...(aiResult.contentTemplate ? [
+      { target: { kind: 'sgeSummary' }, label: 'SGE Summary', preview: excerpt(aiResult.sgeSummaryHTML) },
+      { target: { kind: 'comparisonTable' }, label: 'Comparison Table', preview: aiResult.comparisonTableHTML ? excerpt(aiResult.comparisonTableHTML) : 'Not generated' },
+      { target: { kind: 'faq' }, label: 'FAQ', preview: excerpt(aiResult.faqHTML) || 'Not generated' },
+      { target: { kind: 'verdict' }, label: 'Verdict', preview: `${aiResult.strategy.verdict.score}/100 · ${aiResult.strategy.verdict.summary}` }
+    ] as { target: SectionTarget; label: string; preview: string }[] : []),
+    ...splitTemplateSections(aiResult.contentTemplate || '').sections.map((section, index) => ({
+      target: { kind: 'h2', index } as SectionTarget,
+      label: `H2 · ${section.heading || `Section ${index + 1}`}`,
+      preview: excerpt(section.html.replace(/<h2[^>]*>[\s\S]*?<\/h2>/i, ''))
+    }))
+  ];
+
+  const handleRegenerate = async (target: SectionTarget) => {
+    const key = targetKey(target);
+    setBusy(key);
+    setError(null);
+    try {
+      await onRegenerate(target, instructions[key] || '');
+      setInstructions(prev => ({ ...prev, [key]: '' }));
+    } catch (e: any) {
+      setError({ key, msg: redactError(e) });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  if (rows.length === 0) return null;
+
+  return (
+    <div className="bg-slate-800 rounded-xl border border-slate-700 p-6">
+      <h3 className="text-lg font-bold text-white mb-4 flex items-center"><Layers size={18} className="mr-2 text-indigo-400"/> Sections</h3>
+      <div className="space-y-3">
+        {rows.map(({ target, label, preview }) => {
+          const key = targetKey(target);
+          return (
+            <div key={key} className="bg-slate-900 p-3 rounded-lg border border-slate-700">
+              <div className="flex items-start justify-between gap-4">
+                <div className="min-w-0 flex-1">
+                  <div className="text-sm font-bold text-white truncate">{label}</div>
+                  <div className="text-xs text-slate-500 truncate mt-0.5">{preview}</div>
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  <input
+                    type="text"
+                    placeholder='e.g. "make it shorter"'
+                    value={instructions[key] || ''}
+                    onChange={(e) => setInstructions(prev => ({ ...prev, [key]: e.target.value }))}
+                    onKeyDown={(e) => { if (e.key === 'Enter' && !busy) handleRegenerate(target); }}
+                    className="bg-slate-950 border border-slate-700 rounded-md px-2 py-1.5 text-xs text-white w-48 outline-none focus:border-indigo-500"
+                  />
+                  <button
+                    onClick={() => handleRegenerate(target)}
+                    disabled={busy !== null}
+                    className="px-3 py-1.5 bg-indigo-600 hover:bg-indigo-500 text-white rounded-md text-xs font-bold flex items-center disabled:opacity-40"
+                  >
+                    {busy === key ? <Loader2 size={12} className="animate-spin mr-1"/> : <RefreshCw size={12} className="mr-1"/>} Regenerate
+                  </button>
+                </div>
+              </div>
+              {error?.key === key && <div className="text-xs text-red-400 mt-2">{error.msg}</div>}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
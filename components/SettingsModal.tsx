@@ -1,22 +1,38 @@
 
 import React, { useState } from 'react';
-import { AIConfig, AIProvider } from '../types';
-import { PROVIDER_LABELS } from '../constants';
-import { X, Save, Key, Server, ShoppingBag, Globe, Lock, User, Wifi, Zap, Edit3, Search, ShieldCheck } from 'lucide-react';
+import { AIConfig, AIProvider, DatePolicy } from '../types';
+import { PROVIDER_LABELS, AMAZON_MARKETPLACES, DEFAULT_MARKETPLACE } from '../constants';
+import { getProvider, resolveModel } from '../services/providers';
+import { resolvePrice } from '../utils/usage';
+import { resolveMarketplace } from '../utils/helpers';
+import { isSimulated } from '../services/paapiClient';
+import { X, Save, Key, Server, ShoppingBag, Globe, Lock, User, Wifi, Zap, Edit3, Search, ShieldCheck, Download } from 'lucide-react';
 
 interface SettingsModalProps {
   isOpen: boolean;
   onClose: () => void;
   config: AIConfig;
   onSave: (config: AIConfig) => void;
+  onExportVault?: () => void; // Only while the vault is unlocked
 }
 
-export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, config, onSave }) => {
+export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, config, onSave, onExportVault }) => {
   const [localConfig, setLocalConfig] = useState<AIConfig>(config);
   const [activeTab, setActiveTab] = useState<'ai' | 'monetization' | 'wordpress'>('ai');
 
   if (!isOpen) return null;
 
+  // Pricing is keyed by model ID so switching models keeps each override
+  const pricedModel = resolveModel(localConfig);
+  const price = resolvePrice(pricedModel, localConfig.priceTable);
+  const marketplace = resolveMarketplace(localConfig);
+  const updatePrice = (field: 'input' | 'output', value: string) => {
+    setLocalConfig({
+      ...localConfig,
+      priceTable: { ...localConfig.priceTable, [pricedModel]: { input: 0, output: 0, ...price, [field]: parseFloat(value) || 0 } }
+    });
+  };
+
   const handleSave = () => {
     onSave(localConfig);
     onClose();
@@ -51,8 +67,23 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, c
                             ))}
                         </select>
                     </div>
+                    {localConfig.provider === 'custom' && (
+                        <div className="bg-slate-50 p-4 rounded-xl border border-slate-200 space-y-4">
+                            <div>
+                                <label className="block text-xs font-bold text-slate-500 uppercase mb-2">Base URL (OpenAI-Compatible)</label>
+                                <div className="relative">
+                                    <Globe size={16} className="absolute left-3 top-3.5 text-slate-400" />
+                                    <input type="url" value={localConfig.customBaseUrl || ''} onChange={(e) => setLocalConfig({ ...localConfig, customBaseUrl: e.target.value })} className="block w-full pl-10 p-3 border rounded-xl font-mono text-sm" placeholder="http://localhost:11434/v1" />
+                                </div>
+                            </div>
+                            <div className="flex gap-6 text-xs font-bold text-slate-600">
+                                <label className="flex items-center gap-2"><input type="checkbox" checked={!!localConfig.customJsonMode} onChange={(e) => setLocalConfig({ ...localConfig, customJsonMode: e.target.checked })} /> Supports JSON Mode</label>
+                                <label className="flex items-center gap-2"><input type="checkbox" checked={localConfig.customSystemPrompt !== false} onChange={(e) => setLocalConfig({ ...localConfig, customSystemPrompt: e.target.checked })} /> Supports System Prompt</label>
+                            </div>
+                        </div>
+                    )}
                     <div>
-                        <label className="block text-xs font-bold text-slate-500 uppercase mb-2">LLM API Key</label>
+                        <label className="block text-xs font-bold text-slate-500 uppercase mb-2">LLM API Key{localConfig.provider === 'custom' && ' (Optional)'}</label>
                         <input type="password" value={localConfig.apiKey} onChange={(e) => setLocalConfig({ ...localConfig, apiKey: e.target.value })} className="block w-full p-3 border rounded-xl" placeholder="sk-..." />
                     </div>
                     <div>
@@ -66,6 +97,33 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, c
                         <label className="block text-xs font-bold text-slate-500 uppercase mb-2">Model ID</label>
                         <input type="text" value={localConfig.model} onChange={(e) => setLocalConfig({ ...localConfig, model: e.target.value })} className="block w-full p-3 border rounded-xl font-mono" />
                     </div>
+                    <div className="grid grid-cols-3 gap-4">
+                        <div>
+                            <label className="block text-xs font-bold text-slate-500 uppercase mb-2">$ / 1M In</label>
+                            <input type="number" min={0} step="0.01" value={price?.input ?? ''} placeholder="Unknown" disabled={!pricedModel} onChange={(e) => updatePrice('input', e.target.value)} className="block w-full p-3 border rounded-xl font-mono text-sm" />
+                        </div>
+                        <div>
+                            <label className="block text-xs font-bold text-slate-500 uppercase mb-2">$ / 1M Out</label>
+                            <input type="number" min={0} step="0.01" value={price?.output ?? ''} placeholder="Unknown" disabled={!pricedModel} onChange={(e) => updatePrice('output', e.target.value)} className="block w-full p-3 border rounded-xl font-mono text-sm" />
+                        </div>
+                        <div>
+                            <label className="block text-xs font-bold text-slate-500 uppercase mb-2">Batch Cap ($)</label>
+                            <input type="number" min={0} step="0.5" value={localConfig.budgetCapUsd || ''} onChange={(e) => setLocalConfig({ ...localConfig, budgetCapUsd: e.target.value ? parseFloat(e.target.value) : undefined })} className="block w-full p-3 border rounded-xl font-mono text-sm" placeholder="None" />
+                        </div>
+                    </div>
+                    {!price && (
+                        <div className="bg-amber-50 p-3 rounded-xl text-xs text-amber-900 border border-amber-200">
+                            {pricedModel ? `No price is known for ${pricedModel}. Enter it above, otherwise its calls count as $0` : 'Set a Model ID to price its calls. Until then they count as $0'}{localConfig.budgetCapUsd ? ' and a batch with a cap will not start.' : '.'}
+                        </div>
+                    )}
+                    <div>
+                        <label className="block text-xs font-bold text-slate-500 uppercase mb-2">Max Output Tokens</label>
+                        <input type="number" min={256} value={localConfig.maxTokens || ''} onChange={(e) => setLocalConfig({ ...localConfig, maxTokens: e.target.value ? parseInt(e.target.value) : undefined })} className="block w-full p-3 border rounded-xl font-mono" placeholder={`Provider default (${getProvider(localConfig.provider).capabilities.maxOutputTokens})`} />
+                    </div>
+                    <label className="flex items-start gap-3 text-sm text-slate-600 bg-slate-50 p-3 rounded-xl border border-slate-200">
+                        <input type="checkbox" className="mt-1" checked={!!localConfig.weaveMissingKeywords} onChange={(e) => setLocalConfig({ ...localConfig, weaveMissingKeywords: e.target.checked })} />
+                        <span><strong className="block text-xs uppercase text-slate-500">Keyword Weave Pass</strong>When target keywords are missing from the draft, run one extra AI call to work them in.</span>
+                    </label>
                 </div>
             )}
 
@@ -73,12 +131,25 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, c
                 <div className="space-y-5">
                     <div className="bg-amber-50 p-4 rounded-xl text-xs text-amber-900 border border-amber-200 leading-relaxed">
                         <strong className="flex items-center mb-1"><ShieldCheck size={14} className="mr-1"/> Amazon PA-API 5.0 (Strict Security)</strong>
-                        Credentials are stored locally in your browser. This enables the Autonomous Agent to fetch real-time prices, high-res images, and check stock status automatically.
+                        {onExportVault ? 'Keys are encrypted in this browser\'s vault with your passphrase.' : 'The vault is not set up, so keys are kept in memory for this session only.'} This enables the Autonomous Agent to fetch real-time prices, high-res images, and check stock status automatically.
                     </div>
-                    <div>
-                        <label className="block text-xs font-bold text-slate-500 uppercase mb-2">Amazon Associate Tag</label>
-                        <input type="text" value={localConfig.amazonAffiliateTag || ''} onChange={(e) => setLocalConfig({ ...localConfig, amazonAffiliateTag: e.target.value })} className="block w-full p-3 border rounded-xl" placeholder="mytag-20" />
+                    <div className="grid grid-cols-2 gap-4">
+                        <div>
+                            <label className="block text-xs font-bold text-slate-500 uppercase mb-2">Marketplace</label>
+                            <select value={marketplace.id} onChange={(e) => setLocalConfig({ ...localConfig, amazonMarketplace: e.target.value })} className="block w-full p-3 border rounded-xl text-sm">
+                                {Object.values(AMAZON_MARKETPLACES).map(m => (
+                                    <option key={m.id} value={m.id}>{m.label} ({m.host.replace('www.', '')})</option>
+                                ))}
+                            </select>
+                        </div>
+                        <div>
+                            <label className="block text-xs font-bold text-slate-500 uppercase mb-2">Associate Tag ({marketplace.id})</label>
+                            <input type="text" value={localConfig.amazonTags?.[marketplace.id] ?? (marketplace.id === DEFAULT_MARKETPLACE ? localConfig.amazonAffiliateTag || '' : '')} onChange={(e) => setLocalConfig({ ...localConfig, amazonTags: { ...localConfig.amazonTags, [marketplace.id]: e.target.value } })} className="block w-full p-3 border rounded-xl" placeholder={marketplace.id === 'UK' ? 'mytag-21' : 'mytag-20'} />
+                        </div>
                     </div>
+                    {!localConfig.amazonTags?.[marketplace.id] && localConfig.amazonAffiliateTag && marketplace.id !== DEFAULT_MARKETPLACE && (
+                        <p className="text-[10px] text-slate-400 -mt-3">No {marketplace.id} tag yet; links fall back to {localConfig.amazonAffiliateTag}, which Amazon only credits on its own marketplace.</p>
+                    )}
                     <div className="grid grid-cols-2 gap-4">
                         <div>
                             <label className="block text-xs font-bold text-slate-500 uppercase mb-2">Access Key ID</label>
@@ -90,13 +161,17 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, c
                         </div>
                     </div>
                     <div>
-                        <label className="block text-xs font-bold text-slate-500 uppercase mb-2">Region</label>
-                        <select value={localConfig.amazonRegion || 'us-east-1'} onChange={(e) => setLocalConfig({ ...localConfig, amazonRegion: e.target.value })} className="block w-full p-3 border rounded-xl text-sm">
-                            <option value="us-east-1">US East (N. Virginia)</option>
-                            <option value="us-west-2">US West (Oregon)</option>
-                            <option value="eu-west-1">EU (Ireland)</option>
-                        </select>
+                        <label className="block text-xs font-bold text-slate-500 uppercase mb-2">API Endpoint Override</label>
+                        <input type="url" value={localConfig.amazonApiEndpoint || ''} onChange={(e) => setLocalConfig({ ...localConfig, amazonApiEndpoint: e.target.value })} className="block w-full p-3 border rounded-xl font-mono text-sm" placeholder={`https://${marketplace.apiHost}`} />
+                        <p className="text-[10px] text-slate-400 mt-1">Amazon blocks browser requests; point this at a CORS relay or a local mock server. The affiliate audit also asks it to expand shortlinks via GET /expand?url=.</p>
                     </div>
+                    <label className="flex items-start gap-3 text-sm text-slate-600 bg-slate-50 p-3 rounded-xl border border-slate-200">
+                        <input type="checkbox" className="mt-1" checked={!!localConfig.amazonDemoMode} onChange={(e) => setLocalConfig({ ...localConfig, amazonDemoMode: e.target.checked })} />
+                        <span><strong className="block text-xs uppercase text-slate-500">Demo Mode</strong>Use simulated products (invented ASINs, prices and ratings) instead of PA-API. Always on while the keys or tag are missing.</span>
+                    </label>
+                    {isSimulated(localConfig) && (
+                        <div className="text-xs font-bold text-amber-700 bg-amber-50 border border-amber-200 rounded-xl p-3">Demo mode is active: product data will be simulated and marked as such in the review screen.</div>
+                    )}
                 </div>
             )}
 
@@ -110,11 +185,34 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, c
                         <input type="text" value={localConfig.wpUsername || ''} onChange={(e) => setLocalConfig({ ...localConfig, wpUsername: e.target.value })} className="block w-full p-3 border rounded-xl" placeholder="Username" />
                         <input type="password" value={localConfig.wpAppPassword || ''} onChange={(e) => setLocalConfig({ ...localConfig, wpAppPassword: e.target.value })} className="block w-full p-3 border rounded-xl" placeholder="App Password" />
                     </div>
+                    <label className="flex items-start gap-3 text-sm text-slate-600 bg-slate-50 p-3 rounded-xl border border-slate-200">
+                        <input type="checkbox" className="mt-1" checked={!!localConfig.trackWpRevisions} onChange={(e) => setLocalConfig({ ...localConfig, trackWpRevisions: e.target.checked })} />
+                        <span><strong className="block text-xs uppercase text-slate-500">Track WP Revisions</strong>Record the WordPress revision id with each pre-publish backup. Rollback falls back to it if the local copy had to be dropped.</span>
+                    </label>
+                    <div>
+                        <label className="block text-xs font-bold text-slate-500 uppercase mb-2">Default Date Policy</label>
+                        <select value={localConfig.datePolicy || 'modified_only'} onChange={(e) => setLocalConfig({ ...localConfig, datePolicy: e.target.value as DatePolicy })} className="block w-full p-3 border rounded-xl text-sm">
+                            <option value="modified_only">Update modified date only</option>
+                            <option value="keep">Keep original publish date</option>
+                            <option value="new_date">Set a new publish date</option>
+                        </select>
+                    </div>
+                    <label className="flex items-start gap-3 text-sm text-slate-600 bg-slate-50 p-3 rounded-xl border border-slate-200">
+                        <input type="checkbox" className="mt-1" checked={!!localConfig.lastUpdatedNotice} onChange={(e) => setLocalConfig({ ...localConfig, lastUpdatedNotice: e.target.checked })} />
+                        <span><strong className="block text-xs uppercase text-slate-500">"Last Updated" Notice</strong>Prepend a dated notice to the content on publish. Replaced, not duplicated, on republish.</span>
+                    </label>
+                    <label className="flex items-start gap-3 text-sm text-slate-600 bg-slate-50 p-3 rounded-xl border border-slate-200">
+                        <input type="checkbox" className="mt-1" checked={!!localConfig.sideloadImagesOnPublish} onChange={(e) => setLocalConfig({ ...localConfig, sideloadImagesOnPublish: e.target.checked })} />
+                        <span><strong className="block text-xs uppercase text-slate-500">Upload Product Images</strong>On publish, copy product images into the media library (alt text from the product name) and replace the hotlinks.</span>
+                    </label>
                 </div>
             )}
         </div>
 
-        <div className="bg-slate-50 px-6 py-4 border-t flex justify-end">
+        <div className="bg-slate-50 px-6 py-4 border-t flex justify-between items-center">
+            {onExportVault
+                ? <button onClick={onExportVault} className="text-xs font-bold text-slate-500 hover:text-slate-800 flex items-center"><Download size={14} className="mr-1"/> Export Encrypted Backup</button>
+                : <span className="text-xs text-slate-400 flex items-center"><Lock size={12} className="mr-1"/> Vault not set up</span>}
             <button onClick={handleSave} className="px-6 py-3 bg-brand-600 text-white rounded-xl font-bold hover:bg-brand-500 transition-colors shadow-lg shadow-brand-500/20">Save Configuration</button>
         </div>
       </div>
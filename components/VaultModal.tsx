@@ -0,0 +1,137 @@
+
+import React, { useState, useRef } from 'react';
+import { Workspace } from '../types';
+import { hasVault, createVault, unlockVault, resetVault, importVaultBackup } from '../services/vaultService';
+import { ShieldCheck, KeyRound, Loader2, AlertCircle, ArrowRight, Upload } from 'lucide-react';
+
+interface VaultModalProps {
+  onReady: (imported?: Workspace[]) => void;
+  onSkip: () => void;
+}
+
+export const VaultModal: React.FC<VaultModalProps> = ({ onReady, onSkip }) => {
+  const [exists, setExists] = useState(hasVault());
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    if (!exists && passphrase !== confirmation) {
+      setError('Passphrases do not match.');
+      return;
+    }
+    setIsLoading(true);
+    try {
+      if (exists) await unlockVault(passphrase);
+      else await createVault(passphrase);
+      onReady();
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // The backup is decrypted with the passphrase typed above, which then protects this browser's vault
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    if (!passphrase) {
+      setError('Enter the backup passphrase first.');
+      return;
+    }
+    setError('');
+    setIsLoading(true);
+    try {
+      const imported = await importVaultBackup(await file.text(), passphrase);
+      onReady(imported);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleReset = () => {
+    if (!confirm('Delete the stored credentials? Saved sites are kept, but you will need to re-enter every key and password.')) return;
+    resetVault();
+    setExists(false);
+    setPassphrase('');
+    setError('');
+  };
+
+  return (
+    <div className="min-h-screen bg-[#09090b] flex items-center justify-center p-6">
+      <div className="bg-slate-900 border border-slate-800 rounded-2xl shadow-2xl p-8 max-w-md w-full relative overflow-hidden">
+        <div className="absolute top-0 left-0 w-full h-1 bg-gradient-to-r from-emerald-500 to-cyan-500"></div>
+
+        <div className="flex items-center gap-3 mb-6">
+          <div className="h-10 w-10 bg-gradient-to-br from-emerald-500 to-cyan-600 rounded-xl flex items-center justify-center text-white">
+            <ShieldCheck size={22} />
+          </div>
+          <div>
+            <h1 className="font-bold text-xl tracking-tight text-white">{exists ? 'Unlock Vault' : 'Create Vault'}</h1>
+            <p className="text-xs text-slate-500 font-mono uppercase tracking-wider">Encrypted Credentials</p>
+          </div>
+        </div>
+
+        <p className="text-xs text-slate-400 mb-6 leading-relaxed">
+          {exists
+            ? 'Your API keys and WordPress passwords are encrypted in this browser. Enter your passphrase once to use them this session.'
+            : 'Choose a passphrase to encrypt API keys and WordPress passwords in this browser (AES-GCM). It cannot be recovered if lost.'}
+        </p>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="relative">
+            <KeyRound size={16} className="absolute left-3 top-3.5 text-slate-500" />
+            <input
+              type="password"
+              autoFocus
+              required
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+              placeholder="Passphrase"
+              className="w-full bg-slate-950 border border-slate-800 rounded-lg py-3 pl-10 pr-4 text-sm text-white placeholder-slate-600 focus:border-emerald-500 focus:ring-1 focus:ring-emerald-500 outline-none transition-all"
+            />
+          </div>
+          {!exists && (
+            <div className="relative">
+              <KeyRound size={16} className="absolute left-3 top-3.5 text-slate-500" />
+              <input
+                type="password"
+                required
+                value={confirmation}
+                onChange={(e) => setConfirmation(e.target.value)}
+                placeholder="Confirm passphrase"
+                className="w-full bg-slate-950 border border-slate-800 rounded-lg py-3 pl-10 pr-4 text-sm text-white placeholder-slate-600 focus:border-emerald-500 focus:ring-1 focus:ring-emerald-500 outline-none transition-all"
+              />
+            </div>
+          )}
+
+          {error && (
+            <div className="p-3 bg-red-500/10 border border-red-500/20 rounded-lg flex items-center text-red-400 text-xs">
+              <AlertCircle size={14} className="mr-2" /> {error}
+            </div>
+          )}
+
+          <button type="submit" disabled={isLoading} className="w-full bg-emerald-600 hover:bg-emerald-500 text-white font-bold py-3 rounded-lg transition-all flex items-center justify-center disabled:opacity-50">
+            {isLoading ? <Loader2 size={18} className="animate-spin" /> : <>{exists ? 'Unlock' : 'Create Vault'} <ArrowRight size={18} className="ml-2" /></>}
+          </button>
+        </form>
+
+        <div className="flex items-center justify-between mt-6 text-xs">
+          <button onClick={() => fileRef.current?.click()} disabled={isLoading} className="text-slate-400 hover:text-white flex items-center"><Upload size={12} className="mr-1"/> Import Backup</button>
+          <input ref={fileRef} type="file" accept="application/json,.json" className="hidden" onChange={handleImport} />
+          {exists
+            ? <button onClick={handleReset} className="text-slate-500 hover:text-red-400">Forgot passphrase?</button>
+            : <button onClick={onSkip} className="text-slate-500 hover:text-slate-300">Skip (keep keys in memory only)</button>}
+        </div>
+      </div>
+    </div>
+  );
+};
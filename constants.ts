@@ -1,6 +1,6 @@
 
 import { Home, BarChart2, Wand2, FileText } from 'lucide-react';
-import { AIProvider } from './types';
+import { AIProvider, ModelPrice, AmazonMarketplace } from './types';
 
 export const NAV_ITEMS = [
   { id: 'ingest', label: 'Ingest Sitemap', icon: Home },
@@ -17,7 +17,8 @@ export const DEFAULT_MODELS: Record<AIProvider, string> = {
   openai: 'gpt-4-turbo',
   anthropic: 'claude-3-opus-20240229',
   groq: 'llama3-70b-8192',
-  openrouter: 'openai/gpt-4-turbo'
+  openrouter: 'openai/gpt-4-turbo',
+  custom: 'local-model'
 };
 
 export const PROVIDER_LABELS: Record<AIProvider, string> = {
@@ -25,5 +26,47 @@ export const PROVIDER_LABELS: Record<AIProvider, string> = {
   openai: 'OpenAI GPT-4 Turbo',
   anthropic: 'Anthropic Claude 3',
   groq: 'Groq (Llama 3 70B)',
-  openrouter: 'OpenRouter'
-};
\ No newline at end of file
+  openrouter: 'OpenRouter',
+  custom: 'Custom (OpenAI-Compatible Base URL)'
+};
+// USD per 1M tokens. Override per model in Settings; unknown models are costed at $0.
+export const DEFAULT_PRICE_TABLE: Record<string, ModelPrice> = {
+  'gemini-2.5-flash': { input: 0.30, output: 2.50 },
+  'gemini-2.5-pro': { input: 1.25, output: 10.00 },
+  'gpt-4-turbo': { input: 10.00, output: 30.00 },
+  'gpt-4-turbo-preview': { input: 10.00, output: 30.00 },
+  'gpt-4o': { input: 2.50, output: 10.00 },
+  'gpt-4o-mini': { input: 0.15, output: 0.60 },
+  'claude-3-opus-20240229': { input: 15.00, output: 75.00 },
+  'claude-3-5-sonnet-20241022': { input: 3.00, output: 15.00 },
+  'claude-3-5-haiku-20241022': { input: 0.80, output: 4.00 },
+  'llama3-70b-8192': { input: 0.59, output: 0.79 },
+  'openai/gpt-4-turbo': { input: 10.00, output: 30.00 }
+};
+
+// PA-API 5 locales. The AWS region is fixed per marketplace, so it is not configured separately.
+export const AMAZON_MARKETPLACES: Record<string, AmazonMarketplace> = {
+  US: { id: 'US', label: 'United States', host: 'www.amazon.com', apiHost: 'webservices.amazon.com', region: 'us-east-1', currency: 'USD', locale: 'en-US', language: 'en_US' },
+  CA: { id: 'CA', label: 'Canada', host: 'www.amazon.ca', apiHost: 'webservices.amazon.ca', region: 'us-east-1', currency: 'CAD', locale: 'en-CA', language: 'en_CA' },
+  MX: { id: 'MX', label: 'Mexico', host: 'www.amazon.com.mx', apiHost: 'webservices.amazon.com.mx', region: 'us-east-1', currency: 'MXN', locale: 'es-MX', language: 'es_MX' },
+  BR: { id: 'BR', label: 'Brazil', host: 'www.amazon.com.br', apiHost: 'webservices.amazon.com.br', region: 'us-east-1', currency: 'BRL', locale: 'pt-BR', language: 'pt_BR' },
+  UK: { id: 'UK', label: 'United Kingdom', host: 'www.amazon.co.uk', apiHost: 'webservices.amazon.co.uk', region: 'eu-west-1', currency: 'GBP', locale: 'en-GB', language: 'en_GB' },
+  DE: { id: 'DE', label: 'Germany', host: 'www.amazon.de', apiHost: 'webservices.amazon.de', region: 'eu-west-1', currency: 'EUR', locale: 'de-DE', language: 'de_DE' },
+  FR: { id: 'FR', label: 'France', host: 'www.amazon.fr', apiHost: 'webservices.amazon.fr', region: 'eu-west-1', currency: 'EUR', locale: 'fr-FR', language: 'fr_FR' },
+  IT: { id: 'IT', label: 'Italy', host: 'www.amazon.it', apiHost: 'webservices.amazon.it', region: 'eu-west-1', currency: 'EUR', locale: 'it-IT', language: 'it_IT' },
+  ES: { id: 'ES', label: 'Spain', host: 'www.amazon.es', apiHost: 'webservices.amazon.es', region: 'eu-west-1', currency: 'EUR', locale: 'es-ES', language: 'es_ES' },
+  NL: { id: 'NL', label: 'Netherlands', host: 'www.amazon.nl', apiHost: 'webservices.amazon.nl', region: 'eu-west-1', currency: 'EUR', locale: 'nl-NL', language: 'nl_NL' },
+  BE: { id: 'BE', label: 'Belgium', host: 'www.amazon.com.be', apiHost: 'webservices.amazon.com.be', region: 'eu-west-1', currency: 'EUR', locale: 'fr-BE', language: 'fr_BE' },
+  SE: { id: 'SE', label: 'Sweden', host: 'www.amazon.se', apiHost: 'webservices.amazon.se', region: 'eu-west-1', currency: 'SEK', locale: 'sv-SE', language: 'sv_SE' },
+  PL: { id: 'PL', label: 'Poland', host: 'www.amazon.pl', apiHost: 'webservices.amazon.pl', region: 'eu-west-1', currency: 'PLN', locale: 'pl-PL', language: 'pl_PL' },
+  TR: { id: 'TR', label: 'Turkey', host: 'www.amazon.com.tr', apiHost: 'webservices.amazon.com.tr', region: 'eu-west-1', currency: 'TRY', locale: 'tr-TR', language: 'tr_TR' },
+  AE: { id: 'AE', label: 'United Arab Emirates', host: 'www.amazon.ae', apiHost: 'webservices.amazon.ae', region: 'eu-west-1', currency: 'AED', locale: 'en-AE', language: 'en_AE' },
+  SA: { id: 'SA', label: 'Saudi Arabia', host: 'www.amazon.sa', apiHost: 'webservices.amazon.sa', region: 'eu-west-1', currency: 'SAR', locale: 'ar-SA', language: 'ar_AE' },
+  EG: { id: 'EG', label: 'Egypt', host: 'www.amazon.eg', apiHost: 'webservices.amazon.eg', region: 'eu-west-1', currency: 'EGP', locale: 'ar-EG', language: 'ar_EG' },
+  IN: { id: 'IN', label: 'India', host: 'www.amazon.in', apiHost: 'webservices.amazon.in', region: 'eu-west-1', currency: 'INR', locale: 'en-IN', language: 'en_IN' },
+  JP: { id: 'JP', label: 'Japan', host: 'www.amazon.co.jp', apiHost: 'webservices.amazon.co.jp', region: 'us-west-2', currency: 'JPY', locale: 'ja-JP', language: 'ja_JP' },
+  AU: { id: 'AU', label: 'Australia', host: 'www.amazon.com.au', apiHost: 'webservices.amazon.com.au', region: 'us-west-2', currency: 'AUD', locale: 'en-AU', language: 'en_AU' },
+  SG: { id: 'SG', label: 'Singapore', host: 'www.amazon.sg', apiHost: 'webservices.amazon.sg', region: 'us-west-2', currency: 'SGD', locale: 'en-SG', language: 'en_SG' }
+};
+
+export const DEFAULT_MARKETPLACE = 'US';
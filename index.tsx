@@ -1,6 +1,10 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { installConsoleRedaction } from './utils/redact';
+
+// Before anything can log a provider error or request that carries a key
+installConsoleRedaction();
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
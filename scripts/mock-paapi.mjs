@@ -0,0 +1,145 @@
+// Local stand-in for the Amazon Product Advertising API 5.0.
+//
+//   npm run mock:paapi            # listens on http://127.0.0.1:8787
+//
+// Point Settings > Monetization > API Endpoint Override at it and use the access key, secret key and
+// associate tag printed on start. Requests must be SigV4-signed for webservices.amazon.com / us-east-1
+// (the US marketplace), exactly as the real API expects, so signing bugs surface here first.
+import { createServer } from 'node:http';
+import { createHash, createHmac } from 'node:crypto';
+import { pathToFileURL } from 'node:url';
+
+export const MOCK_CREDENTIALS = {
+  accessKey: 'AKIDMOCKPAAPI',
+  secretKey: 'mock/secret/key/for/local/testing',
+  partnerTag: 'mocktag-20'
+};
+
+const SIGNED_HOST = 'webservices.amazon.com';
+const REGION = 'us-east-1';
+const SERVICE = 'ProductAdvertisingAPI';
+
+// --- CATALOG ---
+const item = (asin, title, price, { available = true, rating = 4.5, reviews = 1200 } = {}) => ({
+  ASIN: asin,
+  DetailPageURL: `https://www.amazon.com/dp/${asin}?tag=${MOCK_CREDENTIALS.partnerTag}`,
+  ItemInfo: { Title: { DisplayValue: title }, Features: { DisplayValues: [`${title} feature one`, `${title} feature two`] } },
+  Images: { Primary: { Large: { URL: `https://m.media-amazon.com/images/I/${asin}.jpg` } } },
+  Offers: available ? { Listings: [{ Price: { DisplayAmount: price }, DeliveryInfo: { IsPrimeEligible: true } }] } : undefined,
+  CustomerReviews: { Count: reviews, StarRating: { Value: rating } }
+});
+
+export const MOCK_CATALOG = [
+  item('B0MOCK0001', 'Acme Trail Running Shoe', '$129.99'),
+  item('B0MOCK0002', 'Acme Road Running Shoe', '$99.00', { rating: 4.2, reviews: 860 }),
+  item('B0MOCK0003', 'Contoso Carbon Plate Racer', '$249.95', { available: false })
+];
+
+// Shortlink expansion (GET /expand?url=...) is the relay's other job: browsers can't follow amzn.to
+// redirects, so a real relay follows them server-side and returns the final URL.
+export const MOCK_SHORTLINKS = {
+  'https://amzn.to/mock0001': `https://www.amazon.com/dp/B0MOCK0001?tag=${MOCK_CREDENTIALS.partnerTag}`,
+  'https://amzn.to/mock0003': `https://www.amazon.com/dp/B0MOCK0003?tag=${MOCK_CREDENTIALS.partnerTag}`
+};
+
+// --- SIGV4 VERIFICATION ---
+// Independent of the client's WebCrypto implementation on purpose: both have to agree.
+const sha256 = (text) => createHash('sha256').update(text).digest('hex');
+const hmac = (key, text) => createHmac('sha256', key).update(text).digest();
+
+const expectedSignature = (req, body, signedHeaders, amzDate) => {
+  const headers = signedHeaders.split(';').map(name => `${name}:${name === 'host' ? SIGNED_HOST : String(req.headers[name] ?? '').trim()}\n`).join('');
+  const canonicalRequest = [req.method, req.url.split('?')[0], '', headers, signedHeaders, sha256(body)].join('\n');
+  const dateStamp = amzDate.slice(0, 8);
+  const scope = `${dateStamp}/${REGION}/${SERVICE}/aws4_request`;
+  const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256(canonicalRequest)].join('\n');
+  const key = hmac(hmac(hmac(hmac(`AWS4${MOCK_CREDENTIALS.secretKey}`, dateStamp), REGION), SERVICE), 'aws4_request');
+  return createHmac('sha256', key).update(stringToSign).digest('hex');
+};
+
+const authError = (req, body) => {
+  const auth = req.headers.authorization || '';
+  const match = auth.match(/^AWS4-HMAC-SHA256 Credential=([^/]+)\/\d{8}\/[^/]+\/[^/]+\/aws4_request, SignedHeaders=([^,]+), Signature=([0-9a-f]{64})$/);
+  if (!match) return ['IncompleteSignature', 'The request signature does not conform to AWS standards.'];
+  const [, accessKey, signedHeaders, signature] = match;
+  if (accessKey !== MOCK_CREDENTIALS.accessKey) return ['UnrecognizedClient', 'The Access Key ID or security token included in the request is invalid.'];
+  const amzDate = String(req.headers['x-amz-date'] || '');
+  if (signature !== expectedSignature(req, body, signedHeaders, amzDate)) return ['InvalidSignature', 'The request signature we calculated does not match the signature you provided.'];
+  return null;
+};
+
+// --- SERVER ---
+// `failures` queues canned responses (e.g. a 429) that are served before normal handling,
+// which is how tests exercise throttling and error mapping.
+export const createMockPaapiServer = () => {
+  const failures = [];
+  const requests = [];
+
+  const server = createServer((req, res) => {
+    const send = (status, payload) => {
+      res.writeHead(status, {
+        'Content-Type': 'application/json',
+        'Access-Control-Allow-Origin': '*',
+        'Access-Control-Allow-Headers': '*',
+        'Access-Control-Allow-Methods': 'GET, POST, OPTIONS'
+      });
+      res.end(JSON.stringify(payload));
+    };
+    const error = (status, code, message) => send(status, { Errors: [{ Code: code, Message: message }] });
+
+    if (req.method === 'OPTIONS') return send(204, {});
+    if (req.method === 'GET' && req.url.startsWith('/expand')) {
+      requests.push({ path: req.url, headers: req.headers, body: '' });
+      const url = MOCK_SHORTLINKS[new URL(req.url, 'http://relay').searchParams.get('url')];
+      return url ? send(200, { url }) : error(404, 'UnknownShortlink', 'The shortlink does not redirect to Amazon.');
+    }
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      requests.push({ path: req.url, headers: req.headers, body });
+      const failure = failures.shift();
+      if (failure) return send(failure.status, failure.body);
+
+      const denied = authError(req, body);
+      if (denied) return error(401, ...denied);
+
+      let payload;
+      try {
+        payload = JSON.parse(body);
+      } catch (e) {
+        return error(400, 'InvalidParameterValue', 'The request body is not valid JSON.');
+      }
+      if (payload.PartnerTag !== MOCK_CREDENTIALS.partnerTag) return error(400, 'InvalidPartnerTag', 'The partner tag is invalid or not present.');
+
+      if (req.url === '/paapi5/getitems') {
+        const ids = payload.ItemIds || [];
+        const found = MOCK_CATALOG.filter(i => ids.includes(i.ASIN));
+        const missing = ids.filter(id => !found.some(i => i.ASIN === id)).map(id => ({ Code: 'InvalidParameterValue', Message: `The ItemId ${id} provided in the request is invalid.` }));
+        if (found.length === 0) return send(404, { Errors: missing });
+        return send(200, { ItemsResult: { Items: found }, ...(missing.length && { Errors: missing }) });
+      }
+      if (req.url === '/paapi5/searchitems') {
+        const words = String(payload.Keywords || '').toLowerCase().split(/\s+/).filter(Boolean);
+        const hits = MOCK_CATALOG.filter(i => words.every(w => i.ItemInfo.Title.DisplayValue.toLowerCase().includes(w)));
+        if (hits.length === 0) return error(404, 'NoResults', 'No results found for your request.');
+        return send(200, { SearchResult: { Items: hits.slice(0, payload.ItemCount || 10), TotalResultCount: hits.length } });
+      }
+      return error(404, 'UnknownOperation', `No operation at ${req.url}.`);
+    });
+  });
+
+  return {
+    server,
+    requests,
+    fail: (status, body) => failures.push({ status, body }),
+    listen: (port = 0) => new Promise(resolve => server.listen(port, '127.0.0.1', () => resolve(`http://127.0.0.1:${server.address().port}`))),
+    close: () => new Promise(resolve => server.close(() => resolve()))
+  };
+};
+
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const mock = createMockPaapiServer();
+  const url = await mock.listen(Number(process.env.PORT) || 8787);
+  console.log(`Mock PA-API listening on ${url}`);
+  console.log(`Access Key: ${MOCK_CREDENTIALS.accessKey}\nSecret Key: ${MOCK_CREDENTIALS.secretKey}\nAssociate Tag (US): ${MOCK_CREDENTIALS.partnerTag}`);
+}
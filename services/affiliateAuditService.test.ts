@@ -0,0 +1,83 @@
+// @vitest-environment happy-dom
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { AIConfig, AmazonProduct, WPConnection, WPPostHeader } from '../types';
+import { getItems } from './paapiClient';
+import { runAffiliateAudit } from './affiliateAuditService';
+
+// PA-API itself is covered against the mock server in paapiClient.test.ts; here only the routing matters
+vi.mock('./paapiClient', () => ({ getItems: vi.fn(), isSimulated: () => false }));
+
+const conn: WPConnection = { url: 'https://blog.example.com', username: 'editor', appPassword: 'abcd efgh ijkl mnop' };
+const post = { id: 1, title: { rendered: 'Best Running Shoes' }, link: 'https://blog.example.com/best-running-shoes', modified: new Date().toISOString() } as WPPostHeader;
+const baseConfig: AIConfig = { provider: 'gemini', apiKey: '', model: '', amazonMarketplace: 'US', amazonTags: { US: 'site-20' }, amazonAccessKey: 'AKID', amazonSecretKey: 'secret' };
+const product = (asin: string): AmazonProduct => ({ asin, title: asin, imageUrl: '', price: '$10.00', url: '', features: [], isPrime: false, isAvailable: true });
+
+// --- WP AND RELAY STUB ---
+let html: string;
+let requested: string[];
+
+beforeEach(() => {
+  requested = [];
+  vi.mocked(getItems).mockReset().mockImplementation(async (config, asins) => asins.filter(a => a !== 'B0000DEAD1').map(product));
+  vi.stubGlobal('fetch', vi.fn(async (url: string) => {
+    requested.push(url);
+    if (url.startsWith('https://relay.example.com/expand')) {
+      const target = new URL(url).searchParams.get('url');
+      return target === 'https://amzn.to/abc123'
+        ? new Response(JSON.stringify({ url: 'https://www.amazon.com/dp/B0000DEAD1?tag=site-20' }), { status: 200 })
+        : new Response('{}', { status: 404 });
+    }
+    return new Response(JSON.stringify({ id: 1, title: { raw: post.title.rendered }, content: { raw: html, rendered: html }, modified: post.modified, link: post.link }), { status: 200 });
+  }));
+});
+
+afterEach(() => vi.unstubAllGlobals());
+
+const audit = (config: AIConfig) => runAffiliateAudit(conn, [post], {}, config, () => {});
+
+describe('affiliate audit', () => {
+  it('looks up each storefront with its own tag and skips storefronts without one', async () => {
+    html = [
+      '<a href="https://www.amazon.com/dp/B0000LIVE1?tag=site-20">US</a>',
+      '<a href="https://www.amazon.de/dp/B0000DEAD1?tag=site-21">DE</a>',
+      '<a href="https://www.amazon.co.uk/dp/B0000LIVE2?tag=site-21">UK</a>'
+    ].join('');
+    const report = await audit({ ...baseConfig, amazonTags: { US: 'site-20', DE: 'site-21' } });
+
+    expect(vi.mocked(getItems).mock.calls.map(([config, asins]) => [config.amazonMarketplace, asins])).toEqual([
+      ['US', ['B0000LIVE1']],
+      ['DE', ['B0000DEAD1']]
+    ]);
+    expect(report.asinsChecked).toBe(2);
+    expect(report.skippedMarketplaces).toEqual([{ marketplaceId: 'UK', asins: 1, reason: 'No associate tag is set for www.amazon.co.uk.' }]);
+    expect(report.issues.map(i => [i.kind, i.detail])).toEqual([['dead', 'B0000DEAD1 is no longer available on www.amazon.de.']]);
+  });
+
+  it('reports a failing secondary storefront as skipped instead of failing the audit', async () => {
+    html = '<a href="https://www.amazon.com/dp/B0000LIVE1?tag=site-20">US</a><a href="https://www.amazon.de/dp/B0000LIVE2?tag=site-21">DE</a>';
+    vi.mocked(getItems).mockImplementation(async (config, asins) => {
+      if (config.amazonMarketplace === 'DE') throw new Error('The Access Key ID is not registered for this marketplace.');
+      return asins.map(product);
+    });
+    const report = await audit({ ...baseConfig, amazonTags: { US: 'site-20', DE: 'site-21' } });
+    expect(report.asinsChecked).toBe(1);
+    expect(report.skippedMarketplaces?.[0]).toMatchObject({ marketplaceId: 'DE', asins: 1 });
+    expect(report.issues).toEqual([]);
+  });
+
+  it('leaves shortlinks unresolved without a relay and never fetches them directly', async () => {
+    html = '<a href="https://amzn.to/abc123">Deal</a>';
+    const report = await audit(baseConfig);
+    expect(requested.some(url => url.includes('amzn.to'))).toBe(false);
+    expect(report.asinsChecked).toBe(0);
+    expect(report.issues).toMatchObject([{ kind: 'unresolved_shortlink', detail: 'Shortlinks are only expanded through a PA-API relay; check it by hand.' }]);
+  });
+
+  it('expands shortlinks through the relay and checks the product behind them', async () => {
+    html = '<a href="https://amzn.to/abc123">Deal</a><a href="https://amzn.to/zzz999">Other</a>';
+    const report = await audit({ ...baseConfig, amazonApiEndpoint: 'https://relay.example.com/' });
+    expect(report.issues.map(i => i.kind)).toEqual(['dead', 'unresolved_shortlink']);
+    expect(report.issues[0].link).toMatchObject({ asin: 'B0000DEAD1', marketplaceId: 'US', resolvedUrl: 'https://www.amazon.com/dp/B0000DEAD1?tag=site-20' });
+    expect(report.issues[1].detail).toBe('The relay could not expand this shortlink; check it by hand.');
+  });
+});
@@ -0,0 +1,211 @@
+import { AIConfig, WPConnection, WPPostHeader, PostHealth, AffiliateLink, AffiliateIssue, AffiliateAuditReport, AmazonProduct } from '../types';
+import { AMAZON_MARKETPLACES, DECAY_KEYWORDS } from '../constants';
+import { fetchPostContent } from './wordpressService';
+import { getItems, isSimulated } from './paapiClient';
+import { resolveAffiliateTag, resolveMarketplace } from '../utils/helpers';
+import { redactError } from '../utils/redact';
+
+const SHORTLINK_HOSTS = ['amzn.to', 'amzn.eu', 'amzn.asia', 'a.co'];
+
+// --- LINK PARSING ---
+const marketplaceForHost = (hostname: string): string | undefined => {
+  const host = hostname.toLowerCase().replace(/^(www|smile|m)\./, '');
+  return Object.values(AMAZON_MARKETPLACES).find(m => m.host.replace(/^www\./, '') === host)?.id;
+};
+
+const isShortlink = (url: URL) => SHORTLINK_HOSTS.includes(url.hostname.toLowerCase());
+
+// Covers /dp/, /gp/product/, /gp/aw/d/, /exec/obidos/ASIN/ and /o/ASIN/ (optionally prefixed by a slug)
+const ASIN_PATH = /\/(?:dp|gp\/product|gp\/aw\/d|exec\/obidos\/ASIN|o\/ASIN)\/([A-Z0-9]{10})(?:[/?]|$)/i;
+
+export const parseAmazonUrl = (href: string): Pick<AffiliateLink, 'asin' | 'tag' | 'marketplaceId'> | null => {
+  let url: URL;
+  try {
+    url = new URL(href);
+  } catch (e) {
+    return null;
+  }
+  const marketplaceId = marketplaceForHost(url.hostname);
+  if (!marketplaceId) return null;
+  return {
+    marketplaceId,
+    asin: url.pathname.match(ASIN_PATH)?.[1]?.toUpperCase(),
+    tag: url.searchParams.get('tag') || undefined
+  };
+};
+
+export const extractAmazonLinks = (html: string): AffiliateLink[] => {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  return Array.from(doc.querySelectorAll('a[href]')).flatMap(a => {
+    const href = a.getAttribute('href') || '';
+    let url: URL;
+    try {
+      url = new URL(href);
+    } catch (e) {
+      return [];
+    }
+    const anchorText = (a.textContent || '').trim().slice(0, 120);
+    if (isShortlink(url)) return [{ href, anchorText }];
+    const parsed = parseAmazonUrl(href);
+    return parsed ? [{ href, anchorText, ...parsed }] : [];
+  });
+};
+
+// Browsers can't follow shortlink redirects: the hosts send no CORS headers and a cross-origin redirect hides
+// its final URL. Expansion therefore goes through the PA-API relay, which answers GET {endpoint}/expand?url=...
+// with { "url": "<final URL>" }. Without a relay, or when it can't expand a link, the link stays unresolved.
+const expandShortlink = async (config: AIConfig, href: string, cache: Map<string, string | null>): Promise<string | null> => {
+  if (!config.amazonApiEndpoint) return null;
+  if (cache.has(href)) return cache.get(href)!;
+  let resolved: string | null = null;
+  try {
+    const res = await fetch(`${config.amazonApiEndpoint.replace(/\/$/, '')}/expand?url=${encodeURIComponent(href)}`);
+    const data = res.ok ? await res.json() : null;
+    resolved = typeof data?.url === 'string' ? data.url : null;
+  } catch (e) {
+    resolved = null;
+  }
+  cache.set(href, resolved);
+  return resolved;
+};
+
+// --- TRAFFIC POTENTIAL ---
+// No analytics are connected, so this is an estimate from what the dashboard knows: commercial-intent
+// titles, depth, freshness and the health worker's opportunity score.
+export const estimateTrafficPotential = (post: WPPostHeader, health?: PostHealth): number => {
+  const title = post.title.rendered.toLowerCase();
+  const intent = DECAY_KEYWORDS.some(k => new RegExp(`\\b${k}\\b`).test(title)) ? 30 : 10;
+  const depth = Math.min((health?.metrics.wordCount || 0) / 2500, 1) * 25;
+  const ageDays = (Date.now() - new Date(post.modified).getTime()) / 86400000;
+  const freshness = Math.max(0, 20 - ageDays / 36); // Full marks when touched recently, none after ~2 years
+  const opportunity = Math.min(health?.opportunityScore || 0, 100) * 0.25;
+  return Math.round(Math.min(100, intent + depth + freshness + opportunity));
+};
+
+// --- AUDIT ---
+export interface AuditProgress {
+  done: number;
+  total: number;
+  phase: 'scanning' | 'lookup';
+}
+
+export const runAffiliateAudit = async (
+  conn: WPConnection,
+  posts: WPPostHeader[],
+  healthData: Record<number, PostHealth>,
+  config: AIConfig,
+  onProgress: (progress: AuditProgress) => void,
+  signal?: AbortSignal
+): Promise<AffiliateAuditReport> => {
+  const shortlinks = new Map<string, string | null>();
+  const found: { post: WPPostHeader; link: AffiliateLink }[] = [];
+  let postsScanned = 0;
+  let postsFailed = 0;
+
+  for (let i = 0; i < posts.length; i++) {
+    if (signal?.aborted) break;
+    const post = posts[i];
+    onProgress({ done: i, total: posts.length, phase: 'scanning' });
+    try {
+      const full = await fetchPostContent(conn, post.id, post.restBase);
+      for (const link of extractAmazonLinks(full.content.rendered)) {
+        if (link.marketplaceId) {
+          found.push({ post, link });
+          continue;
+        }
+        const resolvedUrl = await expandShortlink(config, link.href, shortlinks);
+        found.push({ post, link: { ...link, resolvedUrl: resolvedUrl || undefined, ...(resolvedUrl ? parseAmazonUrl(resolvedUrl) : {}) } });
+      }
+      postsScanned++;
+    } catch (e: any) {
+      postsFailed++;
+      console.warn(`[Affiliate Audit] Skipped #${post.id}: ${e.message}`);
+    }
+  }
+
+  // Availability is looked up per storefront, since offers and tags differ: each marketplace's ASINs go to
+  // its own PA-API locale with its own tag. Storefronts without a tag of their own are skipped, not guessed.
+  const marketplace = resolveMarketplace(config);
+  const lookupSkipped = isSimulated(config)
+    ? 'Demo mode is on (or PA-API credentials are missing), so availability and prices were not checked.'
+    : undefined;
+  const asinsByMarketplace = new Map<string, string[]>();
+  found.forEach(({ link }) => {
+    if (!link.asin || !link.marketplaceId) return;
+    const asins = asinsByMarketplace.get(link.marketplaceId) || [];
+    if (!asins.includes(link.asin)) asinsByMarketplace.set(link.marketplaceId, [...asins, link.asin]);
+  });
+
+  const items = new Map<string, AmazonProduct>(); // Keyed by marketplace id and ASIN
+  const checkedMarketplaces = new Set<string>();
+  const skippedMarketplaces: NonNullable<AffiliateAuditReport['skippedMarketplaces']> = [];
+  const total = Array.from(asinsByMarketplace.values()).reduce((sum, asins) => sum + asins.length, 0);
+  let done = 0;
+  if (!lookupSkipped && total > 0 && !signal?.aborted) {
+    onProgress({ done, total, phase: 'lookup' });
+    for (const [marketplaceId, asins] of asinsByMarketplace) {
+      if (signal?.aborted) break;
+      const host = AMAZON_MARKETPLACES[marketplaceId].host;
+      if (marketplaceId !== marketplace.id && !config.amazonTags?.[marketplaceId]) {
+        skippedMarketplaces.push({ marketplaceId, asins: asins.length, reason: `No associate tag is set for ${host}.` });
+      } else {
+        try {
+          for (let i = 0; i < asins.length; i += 10) {
+            (await getItems({ ...config, amazonMarketplace: marketplaceId }, asins.slice(i, i + 10))).forEach(item => items.set(`${marketplaceId}:${item.asin}`, item));
+            onProgress({ done: done + Math.min(i + 10, asins.length), total, phase: 'lookup' });
+          }
+          checkedMarketplaces.add(marketplaceId);
+        } catch (e) {
+          // The configured storefront failing is an audit failure; another one failing only loses its checks
+          if (marketplaceId === marketplace.id) throw e;
+          skippedMarketplaces.push({ marketplaceId, asins: asins.length, reason: `Lookup on ${host} failed: ${redactError(e)}` });
+        }
+      }
+      done += asins.length;
+      onProgress({ done, total, phase: 'lookup' });
+    }
+  }
+
+  const issues: AffiliateIssue[] = [];
+  for (const { post, link } of found) {
+    const base = {
+      postId: post.id,
+      postTitle: post.title.rendered,
+      postUrl: post.link,
+      link,
+      potential: estimateTrafficPotential(post, healthData[post.id])
+    };
+
+    if (!link.marketplaceId) {
+      const detail = config.amazonApiEndpoint
+        ? 'The relay could not expand this shortlink; check it by hand.'
+        : 'Shortlinks are only expanded through a PA-API relay; check it by hand.';
+      issues.push({ ...base, kind: 'unresolved_shortlink', detail });
+      continue;
+    }
+
+    const expectedTag = link.marketplaceId === marketplace.id ? resolveAffiliateTag(config) : config.amazonTags?.[link.marketplaceId];
+    if (!link.tag) issues.push({ ...base, kind: 'untagged', detail: `No associate tag${expectedTag ? `; expected ${expectedTag}` : ''}.` });
+    else if (expectedTag && link.tag !== expectedTag) issues.push({ ...base, kind: 'wrong_tag', detail: `Tagged ${link.tag}, expected ${expectedTag}.` });
+
+    if (!link.asin || !checkedMarketplaces.has(link.marketplaceId)) continue;
+    const item = items.get(`${link.marketplaceId}:${link.asin}`);
+    if (!item) issues.push({ ...base, kind: 'dead', detail: `${link.asin} is no longer available on ${AMAZON_MARKETPLACES[link.marketplaceId].host}.` });
+    else if (!item.isAvailable) issues.push({ ...base, kind: 'out_of_stock', detail: `${item.title} has no current offers.`, price: item.price });
+  }
+
+  // Highest-potential posts first; within a post, dead links before tagging problems
+  const severity: Record<AffiliateIssue['kind'], number> = { dead: 0, out_of_stock: 1, untagged: 2, wrong_tag: 3, unresolved_shortlink: 4 };
+  issues.sort((a, b) => b.potential - a.potential || a.postId - b.postId || severity[a.kind] - severity[b.kind]);
+
+  return {
+    generatedAt: new Date().toISOString(),
+    postsScanned,
+    postsFailed,
+    linksFound: found.length,
+    asinsChecked: Array.from(checkedMarketplaces).reduce((sum, id) => sum + asinsByMarketplace.get(id)!.length, 0),
+    lookupSkipped,
+    ...(skippedMarketplaces.length ? { skippedMarketplaces } : {}),
+    issues
+  };
+};
@@ -0,0 +1,87 @@
+import { AIStrategy, AIValidationIssue } from '../types';
+import { extractPlaceholders } from '../utils/helpers';
+import { Schema, string, number, boolean, array, object, optional } from '../utils/schema';
+
+// --- STEP 1: STRATEGY ---
+export const verdictSchema = object({
+  score: number({ min: 0, max: 100 }),
+  pros: array(string({ min: 1 }), { min: 1 }),
+  cons: array(string({ min: 1 })),
+  summary: string({ min: 1 }),
+  targetAudience: optional(string(), '')
+});
+
+export const strategySchema: Schema<AIStrategy> = object({
+  oldProduct: optional(string(), ''),
+  newProduct: string({ min: 1 }),
+  primaryKeyword: string({ min: 1 }),
+  secondaryKeywords: array(string({ min: 1 })),
+  targetAudience: optional(string(), ''),
+  verdict: verdictSchema,
+  specs: optional(object({
+    price: optional(string(), 'Check Price'),
+    rating: optional(number(), 0),
+    reviewCount: optional(number(), 0)
+  }), { price: 'Check Price', rating: 0, reviewCount: 0 }),
+  internalLinkIds: array(number()),
+  outline: optional(array(string()), []),
+  bluf: string({ min: 1 }),
+  commercialIntent: optional(boolean(), true),
+  products: optional(array(object({
+    name: string({ min: 1 }),
+    context: optional(string(), ''),
+    recommended: optional(boolean(), false)
+  })))
+});
+
+// --- STEP 2: CONTENT BLOCKS ---
+export interface FaqEntry {
+  q: string;
+  a: string;
+  paaIndex?: number; // Index into the People Also Ask list this FAQ answers
+}
+
+export interface ContentBlocks {
+  sgeSummary: string;
+  bodyHtml: string;
+  faqs: FaqEntry[];
+  comparisonTableHtml: string;
+}
+
+export const faqSchema: Schema<FaqEntry> = object({
+  q: string({ min: 1 }),
+  a: string({ min: 1 }),
+  paaIndex: optional(number({ min: 0 }))
+});
+
+export const contentBlocksSchema: Schema<ContentBlocks> = object({
+  sgeSummary: string({ min: 1 }),
+  bodyHtml: string({ min: 1 }),
+  faqs: optional(array(faqSchema), []),
+  comparisonTableHtml: optional(string(), '')
+});
+
+// --- STEP 3: KEYWORD WEAVE ---
+export const keywordWeaveSchema = object({
+  bodyHtml: string({ min: 1 })
+});
+
+// Rewrites must keep every placeholder and existing link the renderer depends on
+export const preservesTemplate = <K extends string>(originalHtml: string, field: K) => (value: Record<K, string>): AIValidationIssue[] => {
+  const issues: AIValidationIssue[] = [];
+  extractPlaceholders(originalHtml)
+    .filter(p => !value[field].includes(p))
+    .forEach(p => issues.push({ path: field, message: `placeholder ${p} was removed` }));
+  const hrefs = (html: string) => (html.match(/href=["'][^"']+["']/g) || []);
+  hrefs(originalHtml)
+    .filter(h => !value[field].includes(h))
+    .forEach(h => issues.push({ path: field, message: `link ${h} was removed` }));
+  return issues;
+};
+
+// --- SECTION REGENERATION ---
+export const sgeSummarySchema = object({ sgeSummary: string({ min: 1 }) });
+export const comparisonTableSchema = object({ comparisonTableHtml: string({ min: 1 }) });
+export const faqListSchema = object({ faqs: array(faqSchema, { min: 1 }) });
+export const verdictOnlySchema = object({ verdict: verdictSchema });
+export const sectionHtmlSchema = object({ html: string({ min: 1 }) });
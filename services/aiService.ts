@@ -1,8 +1,17 @@
 
-import { GoogleGenAI } from '@google/genai';
-import { AIAnalysisResult, SemanticNode, AIConfig, ReferenceData, PAAData, ProductDetection, AmazonProduct, AIStrategy, DraftMode } from '../types';
+import { AIAnalysisResult, SemanticNode, AIConfig, ReferenceData, PAAData, ProductDetection, AmazonProduct, AIStrategy, AIStep, AIValidationIssue, AIUsageRecord, PAACoverage, SectionTarget, VerdictData } from '../types';
 import { searchAmazonProduct } from './amazonService';
-import { renderFinalHtml } from '../utils/helpers';
+import { renderFinalHtml, tokenize, calculateRelevance, resolveAffiliateTag, resolveMarketplace } from '../utils/helpers';
+import { getProvider, resolveCapabilities, resolveModel, isProviderConfigured, AICompletionRequest } from './providers';
+import {
+    strategySchema, contentBlocksSchema, ContentBlocks, FaqEntry, keywordWeaveSchema, preservesTemplate,
+    sgeSummarySchema, comparisonTableSchema, faqListSchema, verdictOnlySchema, sectionHtmlSchema
+} from './aiSchemas';
+import { Schema, SchemaResult, AIValidationError, formatIssues, refine } from '../utils/schema';
+import { analyzeKeywordCoverage } from '../utils/keywords';
+import { resolveCitations, buildReferencesHtml, buildCitationSchema } from '../utils/citations';
+import { splitTemplateSections, replaceTemplateSection, setGeneratedBlock, stripGeneratedBlocks, GeneratedBlock } from '../utils/sections';
+import { estimateTokens, estimateCost, resolvePrice, summarizeUsage } from '../utils/usage';
 
 // --- HELPER: CLEAN JSON ---
 const cleanJsonOutput = (text: string): string => {
@@ -18,70 +27,87 @@ const cleanJsonOutput = (text: string): string => {
   return clean.replace(/[\x00-\x1F]+/g, ' '); 
 };
 
-// --- UNIVERSAL AI CALLER (Gemini + OpenAI Support) ---
-const callAI = async (config: AIConfig, system: string, prompt: string): Promise<string> => {
-    if (!config.apiKey) throw new Error("API Key Missing. Please check Settings.");
+// --- UNIVERSAL AI CALLER (Provider Registry) ---
+// Adapts the request to the provider's capabilities so the pipeline stays provider-agnostic.
+// Every call appends an AIUsageRecord to `ledger`, including calls that later fail validation.
+const callAI = async (config: AIConfig, system: string, prompt: string, step: AIStep, ledger: AIUsageRecord[]): Promise<string> => {
+    const provider = getProvider(config.provider);
+    const capabilities = resolveCapabilities(config);
+    if (!isProviderConfigured(config)) {
+        throw new Error(config.provider === 'custom' ? "Custom Base URL Missing. Please check Settings." : "API Key Missing. Please check Settings.");
+    }
 
-    // 1. GOOGLE GEMINI
-    if (config.provider === 'gemini') {
-        try {
-            const ai = new GoogleGenAI({ apiKey: config.apiKey });
-            const response = await ai.models.generateContent({
-                model: config.model || 'gemini-2.5-flash', 
-                contents: prompt,
-                config: { 
-                    systemInstruction: system, 
-                    responseMimeType: "application/json",
-                    maxOutputTokens: 8192 
-                }
-            });
-            return response.text || "{}";
-        } catch (e: any) {
-            console.error("Gemini API Error:", e);
-            // Handle specific 404
-            if (e.message?.includes('404') || e.message?.includes('not found')) {
-                throw new Error(`Model '${config.model}' not found. Check your API Key or Model ID in Settings.`);
-            }
-            throw e;
-        }
+    const jsonInstruction = capabilities.jsonMode ? '' : '\n\nRespond with a single valid JSON object only. No prose, no markdown fences.';
+    const request: AICompletionRequest = capabilities.systemPrompt
+        ? { system: system + jsonInstruction, prompt, maxTokens: capabilities.maxOutputTokens, json: true }
+        : { system: '', prompt: `${system}${jsonInstruction}\n\n${prompt}`, maxTokens: capabilities.maxOutputTokens, json: true };
+
+    const startedAt = Date.now();
+    const completion = await provider.complete(config, request);
+    const promptTokens = completion.usage?.promptTokens ?? estimateTokens(request.system + request.prompt);
+    const completionTokens = completion.usage?.completionTokens ?? estimateTokens(completion.text);
+    // Record what actually served the call; a dated snapshot falls back to the price of the model asked for
+    const requested = resolveModel(config);
+    const model = completion.model || requested;
+    const price = resolvePrice(model, config.priceTable) || resolvePrice(requested, config.priceTable);
+
+    ledger.push({
+        step,
+        provider: config.provider,
+        model,
+        promptTokens,
+        completionTokens,
+        latencyMs: Date.now() - startedAt,
+        costUsd: price ? estimateCost(price, promptTokens, completionTokens) : 0,
+        estimated: !completion.usage,
+        ...(price ? {} : { unpriced: true }),
+        timestamp: startedAt
+    });
+
+    return completion.text;
+};
+
+// --- STRUCTURED CALLER (Validate + Repair) ---
+// Parses and validates the JSON reply. On failure the model is re-prompted with the exact
+// validation errors and its previous answer; after MAX_REPAIR_ATTEMPTS we throw AIValidationError.
+const MAX_REPAIR_ATTEMPTS = 2;
+
+const parseJson = <T>(raw: string, schema: Schema<T>): SchemaResult<T> => {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(cleanJsonOutput(raw));
+    } catch (e: any) {
+        return { ok: false, issues: [{ path: '$', message: `invalid JSON (${e.message})` }] };
     }
+    return schema.parse(parsed, '');
+};
 
-    // 2. OPENAI (GPT-4 / Turbo)
-    if (config.provider === 'openai' || config.provider === 'openrouter') {
-        const baseUrl = config.provider === 'openrouter' ? 'https://openrouter.ai/api/v1' : 'https://api.openai.com/v1';
-        const model = config.model || 'gpt-4-turbo-preview';
-        
-        try {
-            const res = await fetch(`${baseUrl}/chat/completions`, {
-                method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json',
-                    'Authorization': `Bearer ${config.apiKey}`,
-                    ...(config.provider === 'openrouter' && { 'HTTP-Referer': 'https://neuralmesh.app', 'X-Title': 'NeuralMesh' })
-                },
-                body: JSON.stringify({
-                    model: model,
-                    messages: [
-                        { role: 'system', content: system },
-                        { role: 'user', content: prompt }
-                    ],
-                    response_format: { type: "json_object" }
-                })
-            });
-
-            if (!res.ok) {
-                const err = await res.json();
-                throw new Error(`OpenAI Error: ${err.error?.message || res.statusText}`);
-            }
-
-            const data = await res.json();
-            return data.choices[0]?.message?.content || "{}";
-        } catch (e: any) {
-            throw new Error(e.message);
-        }
+const callAIStructured = async <T>(config: AIConfig, step: AIStep, system: string, prompt: string, schema: Schema<T>, ledger: AIUsageRecord[]): Promise<T> => {
+    let currentPrompt = prompt;
+    let raw = '';
+    let issues: AIValidationIssue[] = [];
+
+    for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+        raw = await callAI(config, system, currentPrompt, step, ledger);
+        const result = parseJson(raw, schema);
+        if (result.ok) return result.value;
+
+        issues = result.issues;
+        console.warn(`[AI Pipeline] ${step} validation failed (attempt ${attempt + 1}/${MAX_REPAIR_ATTEMPTS + 1}): ${formatIssues(issues)}`);
+        currentPrompt = `
+        ${prompt}
+
+        YOUR PREVIOUS RESPONSE FAILED VALIDATION:
+        ${issues.map(i => `- ${i.path}: ${i.message}`).join('\n')}
+
+        PREVIOUS RESPONSE:
+        ${raw.substring(0, 6000)}
+
+        Return the complete, corrected JSON object. Keep every valid field as it was.
+        `;
     }
 
-    throw new Error(`Provider ${config.provider} not implemented yet.`);
+    throw new AIValidationError(step, issues, raw);
 };
 
 // --- STEP 1: MULTI-PRODUCT STRATEGY ---
@@ -90,7 +116,8 @@ const generateStrategy = async (
     rawText: string,
     semanticNeighbors: SemanticNode[],
     externalRefs: ReferenceData[],
-    config: AIConfig
+    config: AIConfig,
+    ledger: AIUsageRecord[]
 ): Promise<AIStrategy> => {
     
     const internalLinkInventory = semanticNeighbors.slice(0, 30).map(n => `ID: ${n.id} | Title: ${n.title}`).join('\n');
@@ -132,20 +159,21 @@ const generateStrategy = async (
         COMPETITORS: ${competitorData}
     `;
 
-    const json = await callAI(config, systemPrompt, userPrompt);
-    return JSON.parse(cleanJsonOutput(json)) as AIStrategy;
+    return callAIStructured(config, 'strategy', systemPrompt, userPrompt, strategySchema, ledger);
 };
 
 // --- STEP 2: CONTENT GENERATION ---
 const generateContentBlocks = async (
     strategy: AIStrategy,
-    config: AIConfig
-): Promise<{ 
-    sgeSummary: string; 
-    bodyHtml: string; 
-    faqs: {q: string, a: string}[]; 
-    comparisonTableHtml: string; 
-}> => {
+    paaQuestions: PAAData[],
+    sources: ReferenceData[],
+    config: AIConfig,
+    ledger: AIUsageRecord[]
+): Promise<ContentBlocks> => {
+
+    const paaInventory = paaQuestions.map((p, i) => `[${i}] ${p.question}${p.snippet ? ` (Google snippet: ${p.snippet.substring(0, 200)})` : ''}`).join('\n');
+
+    const sourceInventory = sources.slice(0, 8).map((r, i) => `[${i}] ${r.title}: ${r.snippet}`).join('\n');
 
     const systemPrompt = `
         ROLE: Expert SEO Writer.
@@ -158,24 +186,63 @@ const generateContentBlocks = async (
         4. **Product Placeholders**: YOU MUST PLACE '[[PRODUCT_BOX:Index]]' where a product card should appear.
            - Example: <h2>Nike Pegasus</h2>\n[[PRODUCT_BOX:0]]\n<p>Review text...</p>
            - Index corresponds to the 'products' array order from Strategy.
+        5. **FAQ**: Answer the "People Also Ask" questions first (real Google queries). Keep each question's wording,
+           answer in 40-60 words, and set "paaIndex" to its number. Skip a question only if it is off-topic.
+           You may add original questions with "paaIndex": null.
+        6. **Citations**: When a fact, spec or claim comes from SOURCES, cite it right after the sentence with
+           [[CITE:n]] (n = source number). Cite 3-6 times in bodyHtml. Never invent source numbers.
         
         OUTPUT SCHEMA (JSON):
         {
             "sgeSummary": "HTML",
             "bodyHtml": "HTML (with placeholders)",
-            "faqs": [{ "q": "...", "a": "..." }],
+            "faqs": [{ "q": "...", "a": "...", "paaIndex": 0 }],
             "comparisonTableHtml": "HTML Table or ''"
         }
     `;
 
     const userPrompt = `
         STRATEGY: ${JSON.stringify(strategy)}
+        PEOPLE ALSO ASK: ${paaInventory || 'None available. Write original FAQs.'}
+        SOURCES: ${sourceInventory || 'None available. Do not cite.'}
         MODE: ${config.draftMode}
         WRITE NOW.
     `;
 
-    const json = await callAI(config, systemPrompt, userPrompt);
-    return JSON.parse(cleanJsonOutput(json));
+    return callAIStructured(config, 'content', systemPrompt, userPrompt, contentBlocksSchema, ledger);
+};
+
+// --- STEP 3 (OPTIONAL): KEYWORD WEAVE ---
+const weaveMissingKeywords = async (
+    bodyTemplate: string,
+    strategy: AIStrategy,
+    missing: string[],
+    config: AIConfig,
+    ledger: AIUsageRecord[]
+): Promise<string> => {
+
+    const systemPrompt = `
+        ROLE: Senior SEO Editor.
+        TASK: Work the MISSING KEYWORDS into the HTML naturally. Minimal edits.
+
+        RULES:
+        1. Each missing keyword must appear at least once, verbatim or as a natural inflection.
+        2. Prefer existing paragraphs; add at most one short sentence per keyword. No keyword stuffing.
+        3. Keep ALL placeholders ([[PRODUCT_BOX:n]] etc.), links and headings exactly as they are.
+
+        OUTPUT SCHEMA (JSON):
+        { "bodyHtml": "HTML" }
+    `;
+
+    const userPrompt = `
+        PRIMARY KEYWORD: ${strategy.primaryKeyword}
+        MISSING KEYWORDS: ${missing.join(', ')}
+        HTML: ${bodyTemplate}
+    `;
+
+    const schema = refine(keywordWeaveSchema, preservesTemplate(bodyTemplate, 'bodyHtml'));
+    const result = await callAIStructured(config, 'keywords', systemPrompt, userPrompt, schema, ledger);
+    return result.bodyHtml;
 };
 
 // --- MAIN ORCHESTRATOR ---
@@ -185,14 +252,15 @@ export const analyzeAndGenerateAssets = async (
     semanticNeighbors: SemanticNode[],
     externalRefs: ReferenceData[],
     paaQuestions: PAAData[],
-    config: AIConfig
+    config: AIConfig,
+    usageLedger: AIUsageRecord[] = [] // Pass your own to observe spend even when the run throws
 ): Promise<AIAnalysisResult> => {
 
     const startTime = Date.now();
     console.log(`[AI Pipeline] Starting Analysis: ${currentTitle} (Provider: ${config.provider}, Model: ${config.model})`);
     
     // 1. STRATEGY
-    const strategy = await generateStrategy(currentTitle, rawText, semanticNeighbors, externalRefs, config);
+    const strategy = await generateStrategy(currentTitle, rawText, semanticNeighbors, externalRefs, config, usageLedger);
 
     // 2. PRODUCT INTELLIGENCE (Multi-Product)
     // If strategy has "products" array, map them. If not, fallback to single newProduct.
@@ -205,7 +273,7 @@ export const analyzeAndGenerateAssets = async (
     // Parallel Amazon Search / Validation
     await Promise.all(productList.map(async (prod, index) => {
         let amazonData: AmazonProduct | null = null;
-        if (config.amazonAffiliateTag) {
+        if (resolveAffiliateTag(config)) {
             amazonData = await searchAmazonProduct(prod.name, config);
         }
         detectedProducts[index] = {
@@ -217,7 +285,7 @@ export const analyzeAndGenerateAssets = async (
     }));
 
     // 3. CONTENT
-    const content = await generateContentBlocks(strategy, config);
+    const content = await generateContentBlocks(strategy, paaQuestions, externalRefs, config, usageLedger);
 
     // 4. ASSEMBLY & INJECTION
     let finalBodyTemplate = content.bodyHtml;
@@ -231,13 +299,57 @@ export const analyzeAndGenerateAssets = async (
         }
     });
 
-    // B. Product Box Injection (Initial Render)
-    const finalContentWithLinks = renderFinalHtml(finalBodyTemplate, detectedProducts, undefined, config.amazonAffiliateTag);
+    // B. Citations -> numbered footnotes (same slice of sources the prompt saw)
+    const { html: citedTemplate, cited } = resolveCitations(finalBodyTemplate, externalRefs.slice(0, 8));
+    finalBodyTemplate = citedTemplate;
+    const referencesHTML = buildReferencesHtml(cited);
+
+    // C. Product Box Injection (Initial Render)
+    let finalContentWithLinks = renderFinalHtml(finalBodyTemplate, detectedProducts, undefined, resolveAffiliateTag(config), resolveMarketplace(config));
 
     const generatedTitle = `${strategy.newProduct} Review (${new Date().getFullYear() + 1})`;
 
-    // C. FAQs & Schema
+    // D. Keyword Coverage (+ optional weave pass for missing keywords)
+    const measureCoverage = () => analyzeKeywordCoverage(
+        { title: generatedTitle, bodyHtml: finalContentWithLinks, sgeSummaryHtml: content.sgeSummary },
+        strategy.primaryKeyword,
+        strategy.secondaryKeywords
+    );
+    let keywordCoverage = measureCoverage();
+
+    if (config.weaveMissingKeywords && keywordCoverage.missing.length > 0) {
+        try {
+            const missingBefore = keywordCoverage.missing;
+            finalBodyTemplate = await weaveMissingKeywords(finalBodyTemplate, strategy, missingBefore, config, usageLedger);
+            finalContentWithLinks = renderFinalHtml(finalBodyTemplate, detectedProducts, undefined, resolveAffiliateTag(config), resolveMarketplace(config));
+            keywordCoverage = measureCoverage();
+            keywordCoverage.wovenIn = missingBefore.filter(k => !keywordCoverage.missing.includes(k));
+        } catch (e: any) {
+            // The draft is still usable without the weave; report instead of failing the post
+            console.warn(`[AI Pipeline] Keyword weave skipped: ${e.message}`);
+        }
+    }
+
+    // E. References block closes the draft (kept in the template so re-renders retain it)
+    if (referencesHTML) {
+        finalBodyTemplate = `${finalBodyTemplate}\n${referencesHTML}`;
+        finalContentWithLinks = renderFinalHtml(finalBodyTemplate, detectedProducts, undefined, resolveAffiliateTag(config), resolveMarketplace(config));
+    }
+
+    // F. Generated blocks go on the page between markers, so a regeneration swaps them in place.
+    // FAQs must be visible as well as in the schema: FAQPage markup has to describe content on the page.
     const { html: faqHtml, schemaObj: faqSchema } = generateFaqHtmlAndSchema(content.faqs);
+    const blocks: [GeneratedBlock, string][] = [
+        ['sgeSummary', content.sgeSummary],
+        ['comparisonTable', content.comparisonTableHtml],
+        ['verdict', generateVerdictHtml(strategy.verdict)],
+        ['faq', faqHtml]
+    ];
+    blocks.forEach(([kind, html]) => { finalBodyTemplate = setGeneratedBlock(finalBodyTemplate, kind, html || ''); });
+    finalContentWithLinks = renderFinalHtml(finalBodyTemplate, detectedProducts, undefined, resolveAffiliateTag(config), resolveMarketplace(config));
+
+    // G. Schema
+    const paaCoverage = mapPaaToFaqs(paaQuestions, content.faqs);
     const fullSchema: any[] = [
         {
             "@context": "https://schema.org",
@@ -247,12 +359,14 @@ export const analyzeAndGenerateAssets = async (
                 "@type": "Product",
                 "name": d.name,
                 "url": d.url
-            }))
+            })),
+            ...(cited.length > 0 && { "citation": buildCitationSchema(cited) })
         }
     ];
     if (faqSchema) fullSchema.push(faqSchema);
 
-    console.log(`[AI Pipeline] Finished in ${Date.now() - startTime}ms.`);
+    const spend = summarizeUsage(usageLedger);
+    console.log(`[AI Pipeline] Finished in ${Date.now() - startTime}ms. ${spend.calls} calls, ${spend.promptTokens + spend.completionTokens} tokens, ~$${spend.costUsd.toFixed(4)}.`);
 
     return {
         strategy: strategy,
@@ -265,12 +379,143 @@ export const analyzeAndGenerateAssets = async (
         schemaJSON: JSON.stringify(fullSchema),
         contentTemplate: finalBodyTemplate, // Store the template for re-rendering
         contentWithLinks: finalContentWithLinks,
-        referencesHTML: "",
+        referencesHTML: referencesHTML,
         detectedProducts: detectedProducts,
-        keywordCoverage: { used: 0, total: strategy.secondaryKeywords.length, missing: [] }
+        keywordCoverage: keywordCoverage,
+        usage: [...usageLedger],
+        paaCoverage: paaCoverage
     };
 };
 
+// --- SECTION REGENERATION ---
+// Rewrites one block of an existing result. Everything else, including the product box
+// placeholders elsewhere in contentTemplate, is carried over untouched.
+export const regenerateSection = async (
+    result: AIAnalysisResult,
+    target: SectionTarget,
+    instruction: string,
+    config: AIConfig,
+    usageLedger: AIUsageRecord[] = []
+): Promise<AIAnalysisResult> => {
+    const { strategy } = result;
+    const context = `
+        PRODUCT: ${strategy.newProduct}
+        PRIMARY KEYWORD: ${strategy.primaryKeyword}
+        SECONDARY KEYWORDS: ${strategy.secondaryKeywords.join(', ')}
+        TARGET AUDIENCE: ${strategy.targetAudience}
+        EDITOR INSTRUCTION: ${instruction.trim() || 'Improve clarity and freshness. Keep the same length.'}
+    `;
+    const role = `ROLE: Expert SEO Writer. TASK: Rewrite ONE block of an existing article following the EDITOR INSTRUCTION. HTML only, no markdown.`;
+    const updated: AIAnalysisResult = { ...result };
+    // Drafts without a template (replacement drafts) only carry the field; there is no block to swap
+    const placeBlock = (kind: GeneratedBlock, html: string) => {
+        if (!result.contentTemplate) return;
+        updated.contentTemplate = setGeneratedBlock(result.contentTemplate, kind, html);
+        updated.contentWithLinks = renderFinalHtml(updated.contentTemplate, result.detectedProducts, undefined, resolveAffiliateTag(config), resolveMarketplace(config));
+    };
+
+    if (target.kind === 'sgeSummary') {
+        const out = await callAIStructured(config, 'regenerate',
+            `${role}\nBLOCK: Direct Answer (SGE) box. <200 words, direct, bold entities.\nOUTPUT SCHEMA (JSON): { "sgeSummary": "HTML" }`,
+            `${context}\nCURRENT BLOCK: ${result.sgeSummaryHTML}`, sgeSummarySchema, usageLedger);
+        updated.sgeSummaryHTML = out.sgeSummary;
+        placeBlock('sgeSummary', out.sgeSummary);
+        updated.keywordCoverage = { ...analyzeKeywordCoverage(
+            { title: result.newTitle, bodyHtml: stripGeneratedBlocks(result.contentWithLinks), sgeSummaryHtml: out.sgeSummary },
+            strategy.primaryKeyword, strategy.secondaryKeywords
+        ), wovenIn: result.keywordCoverage.wovenIn };
+    }
+
+    if (target.kind === 'comparisonTable') {
+        const out = await callAIStructured(config, 'regenerate',
+            `${role}\nBLOCK: Product comparison <table> with a header row.\nOUTPUT SCHEMA (JSON): { "comparisonTableHtml": "HTML" }`,
+            `${context}\nPRODUCTS: ${result.detectedProducts.map(p => p.name).join(', ')}\nCURRENT BLOCK: ${result.comparisonTableHTML || '(none yet)'}`,
+            comparisonTableSchema, usageLedger);
+        updated.comparisonTableHTML = out.comparisonTableHtml;
+        placeBlock('comparisonTable', out.comparisonTableHtml);
+    }
+
+    if (target.kind === 'faq') {
+        const paaQuestions: PAAData[] = (result.paaCoverage || []).map(p => ({ question: p.question, snippet: '', link: p.link }));
+        const paaInventory = paaQuestions.map((p, i) => `[${i}] ${p.question}`).join('\n');
+        const out = await callAIStructured(config, 'regenerate',
+            `${role}\nBLOCK: FAQ. Answer PEOPLE ALSO ASK questions first and set "paaIndex" to their number; 40-60 word answers.\nOUTPUT SCHEMA (JSON): { "faqs": [{ "q": "...", "a": "...", "paaIndex": 0 }] }`,
+            `${context}\nPEOPLE ALSO ASK: ${paaInventory || 'None'}\nCURRENT BLOCK: ${result.faqHTML}`, faqListSchema, usageLedger);
+        const { html, schemaObj } = generateFaqHtmlAndSchema(out.faqs);
+        updated.faqHTML = html;
+        placeBlock('faq', html);
+        updated.paaCoverage = mapPaaToFaqs(paaQuestions, out.faqs);
+        const schema = (JSON.parse(result.schemaJSON) as any[]).filter(s => s["@type"] !== 'FAQPage');
+        if (schemaObj) schema.push(schemaObj);
+        updated.schemaJSON = JSON.stringify(schema);
+    }
+
+    if (target.kind === 'verdict') {
+        const out = await callAIStructured(config, 'regenerate',
+            `${role}\nBLOCK: Verdict. Concise, authoritative.\nOUTPUT SCHEMA (JSON): { "verdict": { "score": 90, "pros": ["a"], "cons": ["b"], "summary": "string", "targetAudience": "string" } }`,
+            `${context}\nCURRENT BLOCK: ${JSON.stringify(strategy.verdict)}`, verdictOnlySchema, usageLedger);
+        updated.strategy = { ...strategy, verdict: out.verdict };
+        placeBlock('verdict', generateVerdictHtml(out.verdict));
+    }
+
+    if (target.kind === 'h2') {
+        const template = result.contentTemplate || '';
+        const section = splitTemplateSections(template).sections[target.index];
+        if (!section) throw new Error(`Section ${target.index + 1} no longer exists in this draft.`);
+        const out = await callAIStructured(config, 'regenerate',
+            `${role}\nBLOCK: One H2 section. Keep the <h2> topic, every [[PRODUCT_BOX:n]] placeholder, every link and every <sup class="sota-cite"> footnote.\nOUTPUT SCHEMA (JSON): { "html": "HTML starting with <h2>" }`,
+            `${context}\nCURRENT BLOCK: ${section.html}`,
+            refine(sectionHtmlSchema, preservesTemplate(section.html, 'html')), usageLedger);
+        updated.contentTemplate = replaceTemplateSection(template, target.index, out.html);
+        updated.contentWithLinks = renderFinalHtml(updated.contentTemplate, result.detectedProducts, undefined, resolveAffiliateTag(config), resolveMarketplace(config));
+        updated.keywordCoverage = { ...analyzeKeywordCoverage(
+            { title: result.newTitle, bodyHtml: stripGeneratedBlocks(updated.contentWithLinks), sgeSummaryHtml: result.sgeSummaryHTML },
+            strategy.primaryKeyword, strategy.secondaryKeywords
+        ), wovenIn: result.keywordCoverage.wovenIn };
+    }
+
+    updated.usage = [...(result.usage || []), ...usageLedger];
+    return updated;
+};
+
+// --- PAA → FAQ MAPPING ---
+// Trust the model's paaIndex first, then fall back to wording similarity for FAQs it left untagged.
+const PAA_MATCH_THRESHOLD = 0.5;
+
+const mapPaaToFaqs = (paaQuestions: PAAData[], faqs: FaqEntry[]): PAACoverage[] => {
+    const claimedFaqs = new Set<number>();
+
+    const coverage = paaQuestions.map((paa, paaIndex) => {
+        const faqIndex = faqs.findIndex((f, i) => !claimedFaqs.has(i) && f.paaIndex === paaIndex);
+        if (faqIndex !== -1) claimedFaqs.add(faqIndex);
+        return { question: paa.question, link: paa.link, answered: faqIndex !== -1, faqIndex: faqIndex !== -1 ? faqIndex : undefined };
+    });
+
+    coverage.filter(c => !c.answered).forEach(entry => {
+        const paaTokens = tokenize(entry.question);
+        let best = { index: -1, score: 0 };
+        faqs.forEach((f, i) => {
+            if (claimedFaqs.has(i)) return;
+            const score = calculateRelevance(paaTokens, tokenize(f.q));
+            if (score > best.score) best = { index: i, score };
+        });
+        if (best.score >= PAA_MATCH_THRESHOLD) {
+            claimedFaqs.add(best.index);
+            entry.answered = true;
+            entry.faqIndex = best.index;
+        }
+    });
+
+    return coverage;
+};
+
+// --- VERDICT BOX ---
+const generateVerdictHtml = (verdict: VerdictData): string => {
+    if (!verdict?.summary) return '';
+    const list = (label: string, items: string[]) => items.length > 0 ? `<p><strong>${label}</strong></p><ul>${items.map(item => `<li>${item}</li>`).join('')}</ul>` : '';
+    return `<div class="sota-verdict" style="margin-top: 40px; padding: 20px; border: 1px solid #e2e8f0; border-radius: 12px;"><h3>Our Verdict: ${verdict.score}/100</h3><p>${verdict.summary}</p>${list('Pros', verdict.pros || [])}${list('Cons', verdict.cons || [])}${verdict.targetAudience ? `<p><strong>Best for:</strong> ${verdict.targetAudience}</p>` : ''}</div>`;
+};
+
 // --- REUSED FAQ GEN ---
 const generateFaqHtmlAndSchema = (faqs: {q: string, a: string}[]) => {
     if (!faqs || faqs.length === 0) return { html: '', schemaObj: null };
@@ -1,6 +1,8 @@
-import { AmazonProduct, AIConfig } from '../types';
+import { AmazonProduct, AIConfig, AmazonMarketplace } from '../types';
+import { resolveMarketplace, resolveAffiliateTag, formatPrice, constructAmazonSearchUrl } from '../utils/helpers';
+import { isSimulated, searchItems, resolveTarget } from './paapiClient';
 
-const CACHE_PREFIX = 'AMZN_PAAPI_V2_';
+const CACHE_PREFIX = 'AMZN_PAAPI_V3_';
 const CACHE_TTL_MS = 24 * 60 * 60 * 1000; 
 
 interface CachedItem {
@@ -45,30 +47,45 @@ const stringToHash = (str: string) => {
     return Math.abs(hash);
 };
 
+// A failed lookup returns null instead of throwing: one bad product should not discard the paid AI run
 export const searchAmazonProduct = async (query: string, config: AIConfig): Promise<AmazonProduct | null> => {
+  const simulated = isSimulated(config);
+
   // Fallback for empty queries
   if (!query || query.length < 2) {
-      return generateDeterministicSimulation("Top Rated Product", config.amazonAffiliateTag || 'tag-20');
+      return simulated ? generateDeterministicSimulation("Top Rated Product", resolveAffiliateTag(config) || 'tag-20', resolveMarketplace(config)) : null;
   }
 
-  const cached = getFromCache(query);
+  // Demo and live results never share cache entries, nor do marketplaces
+  const cacheKey = `${simulated ? 'demo_' : ''}${resolveTarget(config).marketplace}_${query}`;
+  const cached = getFromCache(cacheKey);
   if (cached) return cached;
 
-  console.log(`[Amazon PA-API] Searching for: "${query}"`);
+  if (simulated) {
+      const result = generateDeterministicSimulation(query, resolveAffiliateTag(config) || 'tag-20', resolveMarketplace(config));
+      saveToCache(cacheKey, result);
+      return result;
+  }
 
-  // SOTA: Deterministic Simulation (Instant, Infinite Niches)
-  const result = generateDeterministicSimulation(query, config.amazonAffiliateTag || 'tag-20');
-  saveToCache(query, result);
-  return result;
+  console.log(`[Amazon PA-API] Searching for: "${query}"`);
+  try {
+      const [result] = await searchItems(config, query);
+      if (!result) return null;
+      saveToCache(cacheKey, result);
+      return result;
+  } catch (e: any) {
+      console.warn(`[Amazon PA-API] Search failed for "${query}": ${e.message}`);
+      return null;
+  }
 };
 
-export const generateDeterministicSimulation = (query: string, tag: string): AmazonProduct => {
+export const generateDeterministicSimulation = (query: string, tag: string, marketplace?: AmazonMarketplace): AmazonProduct => {
     const currentYear = new Date().getFullYear();
     const hash = stringToHash(query);
     
     const priceMajor = (hash % 1980) + 20; 
     const priceMinor = (hash % 99);
-    const price = `$${priceMajor}.${priceMinor.toString().padStart(2, '0')}`;
+    const price = marketplace ? formatPrice(priceMajor + priceMinor / 100, marketplace) : `$${priceMajor}.${priceMinor.toString().padStart(2, '0')}`;
 
     const ratingRaw = (hash % 15) + 35;
     const rating = (ratingRaw / 10).toFixed(1);
@@ -89,7 +106,7 @@ export const generateDeterministicSimulation = (query: string, tag: string): Ama
         title: title,
         imageUrl: image,
         price: price,
-        url: `https://www.amazon.com/s?k=${encodeURIComponent(query)}&tag=${tag}`,
+        url: constructAmazonSearchUrl(query, tag, marketplace),
         features: [
             "Verified 2026 Model",
             "High Efficiency Performance",
@@ -98,6 +115,7 @@ export const generateDeterministicSimulation = (query: string, tag: string): Ama
         ],
         rating: rating,
         reviewCount: reviewCount,
-        isPrime: (hash % 10) > 2 
+        isPrime: (hash % 10) > 2,
+        isSimulated: true
     };
 };
\ No newline at end of file
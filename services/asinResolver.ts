@@ -0,0 +1,70 @@
+import { AIConfig, AmazonProduct, AsinCheck, ProductDetection } from '../types';
+import { getItems, isSimulated } from './paapiClient';
+import { isValidAsin, tokenize, constructAmazonUrl, resolveAffiliateTag, resolveMarketplace } from '../utils/helpers';
+
+// Below this share of the product name's tokens appearing in Amazon's title, the ASIN is flagged
+const MIN_NAME_MATCH = 0.5;
+
+export interface AsinResolution {
+  check: AsinCheck;
+  product?: AmazonProduct; // Present whenever Amazon returned the item, including mismatches
+}
+
+export const nameMatchScore = (productName: string, title: string): number => {
+  const expected = Array.from(tokenize(productName));
+  if (expected.length === 0) return 1;
+  const actual = tokenize(title);
+  return expected.filter(token => actual.has(token)).length / expected.length;
+};
+
+export const resolveAsin = async (config: AIConfig, rawAsin: string, productName: string): Promise<AsinResolution> => {
+  const asin = rawAsin.trim().toUpperCase();
+  const checkedAt = new Date().toISOString();
+
+  if (!isValidAsin(asin)) {
+    return { check: { asin, status: 'not_found', message: 'Not a valid ASIN (10 characters, starting with B0 or a digit).', checkedAt } };
+  }
+  if (isSimulated(config)) {
+    return { check: { asin, status: 'unverified', message: 'Demo mode: the ASIN was not checked against Amazon.', checkedAt } };
+  }
+
+  let items: AmazonProduct[];
+  try {
+    items = await getItems(config, [asin]);
+  } catch (e: any) {
+    return { check: { asin, status: 'error', message: e.message, checkedAt } };
+  }
+
+  const product = items.find(item => item.asin === asin);
+  if (!product) {
+    return { check: { asin, status: 'not_found', message: `Amazon has no accessible item ${asin} in ${resolveMarketplace(config).host}.`, checkedAt } };
+  }
+
+  const matchScore = nameMatchScore(productName, product.title);
+  if (!product.isAvailable) {
+    return { product, check: { asin, status: 'unavailable', message: 'No current offers: the item is out of stock or no longer sold.', matchScore, checkedAt } };
+  }
+  if (matchScore < MIN_NAME_MATCH) {
+    return { product, check: { asin, status: 'mismatch', message: `Amazon lists this ASIN as "${product.title}".`, matchScore, checkedAt } };
+  }
+  return { product, check: { asin, status: 'valid', matchScore, checkedAt } };
+};
+
+// Folds a resolution into the matching detection. Amazon's data replaces the AI guess whenever the item
+// exists; failed lookups keep the previous data and only record the check.
+export const applyAsinResolution = (
+  products: ProductDetection[],
+  productName: string,
+  resolution: AsinResolution,
+  config: AIConfig
+): ProductDetection[] => products.map(prod => {
+  if (prod.name !== productName) return prod;
+  if (!resolution.product) return { ...prod, asinCheck: resolution.check };
+  return {
+    ...prod,
+    asin: resolution.product.asin,
+    url: constructAmazonUrl(resolution.product.asin, resolveAffiliateTag(config), resolveMarketplace(config)),
+    amazonData: resolution.product,
+    asinCheck: resolution.check
+  };
+});
@@ -0,0 +1,78 @@
+import { WPConnection } from '../types';
+import { getAuthHeader, cleanUrl, fetchWithRetry } from './wordpressService';
+
+const MEDIA_CACHE_PREFIX = 'SOTA_MEDIA_V1_';
+
+export interface UploadedMedia {
+  id: number;
+  url: string; // source_url on the WP site
+}
+
+// Source image URL -> uploaded attachment, per site, so republishing never duplicates uploads
+const cacheKey = (conn: WPConnection) => MEDIA_CACHE_PREFIX + cleanUrl(conn.url).replace(/^https?:\/\//, '');
+
+const readCache = (conn: WPConnection): Record<string, UploadedMedia> => {
+  if (typeof window === 'undefined') return {};
+  try {
+    return JSON.parse(localStorage.getItem(cacheKey(conn)) || '{}');
+  } catch (e) {
+    return {};
+  }
+};
+
+const writeCache = (conn: WPConnection, sourceUrl: string, media: UploadedMedia) => {
+  try {
+    localStorage.setItem(cacheKey(conn), JSON.stringify({ ...readCache(conn), [sourceUrl]: media }));
+  } catch (e) {}
+};
+
+export const isHostedOnSite = (conn: WPConnection, imageUrl: string): boolean => imageUrl.startsWith(cleanUrl(conn.url));
+
+export const altTextFor = (productName: string): string => productName.replace(/["'<>]/g, '').replace(/\s+/g, ' ').trim();
+
+const slugify = (text: string) => text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').substring(0, 60) || 'product';
+
+// Downloads the image in the browser and uploads the bytes to /wp/v2/media.
+// The source host must allow CORS reads; most CDNs do, some retailer image hosts do not.
+export const sideloadImage = async (conn: WPConnection, imageUrl: string, altText: string): Promise<UploadedMedia> => {
+  const cached = readCache(conn)[imageUrl];
+  if (cached) return cached;
+
+  let blob: Blob;
+  try {
+    const source = await fetch(imageUrl);
+    if (!source.ok) throw new Error(`HTTP ${source.status}`);
+    blob = await source.blob();
+  } catch (e: any) {
+    throw new Error(`Could not download ${imageUrl} (${e.message}). The image host may block cross-origin requests.`);
+  }
+  if (!blob.type.startsWith('image/')) throw new Error(`${imageUrl} is not an image (${blob.type || 'unknown type'}).`);
+
+  const extension = blob.type.split('/')[1].replace('jpeg', 'jpg').replace(/\+.*/, '');
+  const res = await fetchWithRetry(`${cleanUrl(conn.url)}/wp-json/wp/v2/media`, {
+    method: 'POST',
+    headers: {
+      'Authorization': getAuthHeader(conn),
+      'Content-Type': blob.type,
+      'Content-Disposition': `attachment; filename="${slugify(altText)}.${extension}"`
+    },
+    body: blob
+  });
+  if (!res.ok) throw new Error(`WP Media Upload Error: ${res.status} ${res.statusText}`);
+  const created = await res.json();
+
+  // Alt text cannot be sent with the binary upload; set it in a second call
+  const meta = await fetchWithRetry(`${cleanUrl(conn.url)}/wp-json/wp/v2/media/${created.id}`, {
+    method: 'POST',
+    headers: {
+      'Authorization': getAuthHeader(conn),
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify({ alt_text: altText, title: altText })
+  });
+  if (!meta.ok) console.warn(`[Media] Alt text update failed for attachment ${created.id}: ${meta.status}`);
+
+  const media = { id: created.id, url: created.source_url };
+  writeCache(conn, imageUrl, media);
+  return media;
+};
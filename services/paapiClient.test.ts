@@ -0,0 +1,122 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach } from 'vitest';
+import { AIConfig } from '../types';
+import { signV4, signRequest, searchItems, getItems, resolveTarget, PaapiError } from './paapiClient';
+import { createMockPaapiServer, MOCK_CREDENTIALS } from '../scripts/mock-paapi.mjs';
+
+// --- AWS SIGV4 TEST VECTORS ---
+// From the AWS Signature Version 4 test suite and the IAM example in the SigV4 documentation
+const AWS_ACCESS_KEY = 'AKIDEXAMPLE';
+const AWS_SECRET_KEY = 'wJalrXUtnFEMI/K7MDENG+bPxRfiCYEXAMPLEKEY';
+const AWS_TEST_DATE = new Date('2015-08-30T12:36:00Z');
+
+describe('signV4', () => {
+  it('matches the get-vanilla vector', async () => {
+    const headers = await signV4({ method: 'GET', path: '/', headers: { host: 'example.amazonaws.com' }, body: '', region: 'us-east-1', service: 'service' }, AWS_ACCESS_KEY, AWS_SECRET_KEY, AWS_TEST_DATE);
+    expect(headers['x-amz-date']).toBe('20150830T123600Z');
+    expect(headers.Authorization).toBe('AWS4-HMAC-SHA256 Credential=AKIDEXAMPLE/20150830/us-east-1/service/aws4_request, SignedHeaders=host;x-amz-date, Signature=5fa00fa31553b73ebf1942676e86291e8372ff2a2260956d9b8aae1d763fbf31');
+  });
+
+  it('matches the post-x-www-form-urlencoded vector', async () => {
+    const headers = await signV4({
+      method: 'POST',
+      path: '/',
+      headers: { host: 'example.amazonaws.com', 'content-type': 'application/x-www-form-urlencoded' },
+      body: 'Param1=value1',
+      region: 'us-east-1',
+      service: 'service'
+    }, AWS_ACCESS_KEY, AWS_SECRET_KEY, AWS_TEST_DATE);
+    expect(headers.Authorization).toBe('AWS4-HMAC-SHA256 Credential=AKIDEXAMPLE/20150830/us-east-1/service/aws4_request, SignedHeaders=content-type;host;x-amz-date, Signature=ff11897932ad3f4e8b18135d722051e5ac45fc38421b1da7b9d196a0fe09473a');
+  });
+
+  it('matches the IAM ListUsers documentation example', async () => {
+    const headers = await signV4({
+      method: 'GET',
+      path: '/',
+      query: 'Action=ListUsers&Version=2010-05-08',
+      headers: { host: 'iam.amazonaws.com', 'content-type': 'application/x-www-form-urlencoded; charset=utf-8' },
+      body: '',
+      region: 'us-east-1',
+      service: 'iam'
+    }, AWS_ACCESS_KEY, AWS_SECRET_KEY, AWS_TEST_DATE);
+    expect(headers.Authorization).toContain('Signature=5d672d79c15b13162d9279b0855cfba6789a8edb4c82c400e06b5924a6f2b5d7');
+  });
+});
+
+describe('signRequest', () => {
+  it('signs the PA-API headers and leaves Host for the browser', async () => {
+    const target = resolveTarget({ provider: 'gemini', apiKey: '', model: '', amazonMarketplace: 'DE' });
+    const headers = await signRequest(target, '/paapi5/getitems', 'GetItems', '{}', AWS_ACCESS_KEY, AWS_SECRET_KEY, AWS_TEST_DATE);
+    expect(headers.host).toBeUndefined();
+    expect(headers['x-amz-target']).toBe('com.amazon.paapi5.v1.ProductAdvertisingAPIv1.GetItems');
+    expect(headers.Authorization).toMatch(/Credential=AKIDEXAMPLE\/20150830\/eu-west-1\/ProductAdvertisingAPI\/aws4_request, SignedHeaders=content-encoding;content-type;host;x-amz-date;x-amz-target, Signature=[0-9a-f]{64}$/);
+  });
+});
+
+// --- AGAINST THE MOCK SERVER ---
+// Calls are throttled to ~1/s like the real quota, so this suite takes a few seconds
+describe('PA-API client against the local mock', () => {
+  const mock = createMockPaapiServer();
+  let config: AIConfig;
+
+  beforeAll(async () => {
+    const endpoint = await mock.listen();
+    config = {
+      provider: 'gemini', apiKey: '', model: '',
+      amazonMarketplace: 'US',
+      amazonAccessKey: MOCK_CREDENTIALS.accessKey,
+      amazonSecretKey: MOCK_CREDENTIALS.secretKey,
+      amazonTags: { US: MOCK_CREDENTIALS.partnerTag },
+      amazonApiEndpoint: `${endpoint}/`
+    };
+  });
+
+  afterAll(() => mock.close());
+  afterEach(() => { mock.requests.length = 0; });
+
+  it('searches and maps items', async () => {
+    const [product] = await searchItems(config, 'trail running', 1);
+    expect(product).toMatchObject({ asin: 'B0MOCK0001', title: 'Acme Trail Running Shoe', price: '$129.99', rating: '4.5', isPrime: true, isAvailable: true });
+    expect(JSON.parse(mock.requests[0].body)).toMatchObject({ Keywords: 'trail running', PartnerTag: 'mocktag-20', Marketplace: 'www.amazon.com' });
+  });
+
+  it('treats NoResults as an empty list', async () => {
+    expect(await searchItems(config, 'nothing matches this')).toEqual([]);
+  });
+
+  it('returns found items, skips unknown ASINs and flags missing offers', async () => {
+    const items = await getItems(config, ['B0MOCK0003', 'B0NOTREAL1']);
+    expect(items).toHaveLength(1);
+    expect(items[0]).toMatchObject({ asin: 'B0MOCK0003', isAvailable: false, price: 'Check Price' });
+    expect(await getItems(config, ['B0NOTREAL1'])).toEqual([]);
+  });
+
+  it('retries throttled requests', async () => {
+    mock.fail(429, { Errors: [{ Code: 'TooManyRequests', Message: 'Slow down' }] });
+    const items = await getItems(config, ['B0MOCK0002']);
+    expect(items.map(i => i.asin)).toEqual(['B0MOCK0002']);
+    expect(mock.requests).toHaveLength(2);
+  });
+
+  it('maps authentication errors to actionable messages', async () => {
+    const error = await searchItems({ ...config, amazonSecretKey: 'wrong-secret' }, 'shoe').catch(e => e);
+    expect(error).toBeInstanceOf(PaapiError);
+    expect(error).toMatchObject({ code: 'InvalidSignature', status: 401, retryable: false });
+    expect(error.message).toContain('Check the Secret Key');
+
+    const tagError = await searchItems({ ...config, amazonTags: { US: 'other-20' } }, 'shoe').catch(e => e);
+    expect(tagError.code).toBe('InvalidPartnerTag');
+  });
+
+  it('refuses to call without credentials or a tag', async () => {
+    await expect(searchItems({ ...config, amazonSecretKey: '' }, 'shoe')).rejects.toMatchObject({ code: 'MissingCredentials' });
+    expect(mock.requests).toHaveLength(0);
+  });
+
+  it('expands known shortlinks like a relay would', async () => {
+    const base = config.amazonApiEndpoint!.replace(/\/$/, '');
+    const hit = await fetch(`${base}/expand?url=${encodeURIComponent('https://amzn.to/mock0001')}`);
+    expect(await hit.json()).toEqual({ url: 'https://www.amazon.com/dp/B0MOCK0001?tag=mocktag-20' });
+    const miss = await fetch(`${base}/expand?url=${encodeURIComponent('https://amzn.to/unknown')}`);
+    expect(miss.status).toBe(404);
+  });
+});
@@ -0,0 +1,232 @@
+import { AIConfig, AmazonProduct } from '../types';
+import { resolveMarketplace, resolveAffiliateTag } from '../utils/helpers';
+
+// --- AMAZON PRODUCT ADVERTISING API 5.0 ---
+// Amazon does not send CORS headers, so browsers need a relay: `amazonApiEndpoint` points the
+// client at one (or at scripts/mock-paapi.mjs) while the signature is still computed for the real host.
+// The affiliate audit also uses the relay to expand shortlinks (see affiliateAuditService).
+const SERVICE = 'ProductAdvertisingAPI';
+const TARGET_PREFIX = 'com.amazon.paapi5.v1.ProductAdvertisingAPIv1.';
+const MIN_REQUEST_INTERVAL_MS = 1100; // Default quota is 1 request per second per account
+const MAX_THROTTLE_RETRIES = 3;
+
+const RESOURCES = [
+  'ItemInfo.Title',
+  'ItemInfo.Features',
+  'Images.Primary.Large',
+  'Offers.Listings.Price',
+  'Offers.Listings.DeliveryInfo.IsPrimeEligible',
+  'CustomerReviews.Count',
+  'CustomerReviews.StarRating'
+];
+
+export interface PaapiTarget {
+  host: string;        // Signed host, e.g. webservices.amazon.com
+  region: string;      // AWS signing region
+  marketplace: string; // e.g. www.amazon.com
+  language: string;
+}
+
+export const resolveTarget = (config: AIConfig): PaapiTarget => {
+  const marketplace = resolveMarketplace(config);
+  return { host: marketplace.apiHost, region: marketplace.region, marketplace: marketplace.host, language: marketplace.language };
+};
+
+// Demo mode is either asked for or forced by missing credentials; callers label its output
+export const isSimulated = (config: AIConfig): boolean =>
+  !!config.amazonDemoMode || !config.amazonAccessKey || !config.amazonSecretKey || !resolveAffiliateTag(config);
+
+export class PaapiError extends Error {
+  code: string;
+  status: number;
+  retryable: boolean;
+
+  constructor(code: string, message: string, status: number) {
+    super(message);
+    this.name = 'PaapiError';
+    this.code = code;
+    this.status = status;
+    this.retryable = status === 429 || status >= 500;
+  }
+}
+
+// Amazon's own messages are terse; the mapped ones say what to fix
+const ERROR_HINTS: Record<string, string> = {
+  InvalidSignature: 'Amazon rejected the request signature. Check the Secret Key and the region.',
+  UnrecognizedClient: 'Amazon does not recognise this Access Key.',
+  IncompleteSignature: 'Amazon rejected the request signature. Check the Secret Key and the region.',
+  InvalidPartnerTag: 'The Associate Tag is not linked to these PA-API credentials for this marketplace.',
+  AccessDenied: 'This Associates account is not eligible for PA-API (it needs qualifying sales in the last 30 days).',
+  AccessDeniedException: 'This Associates account is not eligible for PA-API (it needs qualifying sales in the last 30 days).',
+  TooManyRequests: 'PA-API request quota exceeded.',
+  RequestExpired: 'Request expired. Check the system clock.',
+  InvalidAssociate: 'The Associate Tag is not registered for this marketplace.'
+};
+
+// --- SIGV4 ---
+const encoder = new TextEncoder();
+
+const toHex = (buffer: ArrayBuffer): string => Array.from(new Uint8Array(buffer)).map(b => b.toString(16).padStart(2, '0')).join('');
+
+const sha256Hex = async (text: string): Promise<string> => toHex(await crypto.subtle.digest('SHA-256', encoder.encode(text)));
+
+const hmac = async (key: ArrayBuffer | Uint8Array<ArrayBuffer>, text: string): Promise<ArrayBuffer> => {
+  const cryptoKey = await crypto.subtle.importKey('raw', key, { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  return crypto.subtle.sign('HMAC', cryptoKey, encoder.encode(text));
+};
+
+export interface SigV4Request {
+  method: string;
+  path: string;
+  query?: string;                  // Already canonical: sorted and URI-encoded
+  headers: Record<string, string>; // Lower-case names; must include host
+  body: string;
+  region: string;
+  service: string;
+}
+
+// Generic AWS Signature Version 4. Adds x-amz-date and returns every signed header plus Authorization.
+export const signV4 = async (request: SigV4Request, accessKey: string, secretKey: string, now = new Date()): Promise<Record<string, string>> => {
+  const amzDate = now.toISOString().replace(/[:-]|\.\d{3}/g, ''); // YYYYMMDDTHHMMSSZ
+  const dateStamp = amzDate.slice(0, 8);
+  const headers: Record<string, string> = { ...request.headers, 'x-amz-date': amzDate };
+
+  const names = Object.keys(headers).sort();
+  const signedHeaders = names.join(';');
+  const canonicalHeaders = names.map(k => `${k}:${headers[k].trim()}\n`).join('');
+  const canonicalRequest = [request.method, request.path, request.query || '', canonicalHeaders, signedHeaders, await sha256Hex(request.body)].join('\n');
+
+  const scope = `${dateStamp}/${request.region}/${request.service}/aws4_request`;
+  const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, await sha256Hex(canonicalRequest)].join('\n');
+
+  const kDate = await hmac(encoder.encode(`AWS4${secretKey}`), dateStamp);
+  const kRegion = await hmac(kDate, request.region);
+  const kService = await hmac(kRegion, request.service);
+  const kSigning = await hmac(kService, 'aws4_request');
+  const signature = toHex(await hmac(kSigning, stringToSign));
+
+  return {
+    ...headers,
+    'Authorization': `AWS4-HMAC-SHA256 Credential=${accessKey}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`
+  };
+};
+
+export const signRequest = async (
+  target: PaapiTarget,
+  path: string,
+  operation: string,
+  body: string,
+  accessKey: string,
+  secretKey: string,
+  now = new Date()
+): Promise<Record<string, string>> => {
+  const signed = await signV4({
+    method: 'POST',
+    path,
+    headers: {
+      'content-encoding': 'amz-1.0',
+      'content-type': 'application/json; charset=utf-8',
+      'host': target.host,
+      'x-amz-target': TARGET_PREFIX + operation
+    },
+    body,
+    region: target.region,
+    service: SERVICE
+  }, accessKey, secretKey, now);
+
+  // Browsers set Host themselves; it is signed but must not be sent by hand
+  const { host, ...sendable } = signed;
+  return sendable;
+};
+
+// --- THROTTLE ---
+// Every call goes through one chain so parallel product lookups respect the per-second quota
+let lastRequestAt = 0;
+let chain: Promise<unknown> = Promise.resolve();
+
+const throttled = <T>(fn: () => Promise<T>): Promise<T> => {
+  const run = chain.then(async () => {
+    const wait = lastRequestAt + MIN_REQUEST_INTERVAL_MS - Date.now();
+    if (wait > 0) await new Promise(r => setTimeout(r, wait));
+    lastRequestAt = Date.now();
+    return fn();
+  });
+  chain = run.catch(() => undefined);
+  return run;
+};
+
+const callPaapi = async (config: AIConfig, operation: 'SearchItems' | 'GetItems', payload: Record<string, unknown>): Promise<any> => {
+  if (!config.amazonAccessKey || !config.amazonSecretKey) throw new PaapiError('MissingCredentials', 'Amazon PA-API credentials are not configured.', 0);
+  const target = resolveTarget(config);
+  const partnerTag = resolveAffiliateTag(config);
+  if (!partnerTag) throw new PaapiError('MissingPartnerTag', `An Amazon Associate Tag for ${target.marketplace} is required for PA-API requests.`, 0);
+  const path = `/paapi5/${operation.toLowerCase()}`;
+  const body = JSON.stringify({
+    ...payload,
+    PartnerTag: partnerTag,
+    PartnerType: 'Associates',
+    Marketplace: target.marketplace,
+    LanguagesOfPreference: [target.language],
+    Resources: RESOURCES
+  });
+  const base = (config.amazonApiEndpoint || `https://${target.host}`).replace(/\/$/, '');
+
+  for (let attempt = 0; ; attempt++) {
+    // Re-signed per attempt: X-Amz-Date must stay within five minutes of Amazon's clock
+    const response = await throttled(async () => {
+      const headers = await signRequest(target, path, operation, body, config.amazonAccessKey!, config.amazonSecretKey!);
+      return fetch(`${base}${path}`, { method: 'POST', headers, body });
+    });
+    const data = await response.json().catch(() => ({}));
+    const apiError = data?.Errors?.[0] || data?.__type && { Code: String(data.__type).split('#').pop(), Message: data.message };
+
+    if (response.ok && !(apiError && !data.SearchResult && !data.ItemsResult)) return data;
+
+    const code = apiError?.Code || `HTTP${response.status}`;
+    const error = new PaapiError(code, ERROR_HINTS[code] || apiError?.Message || `PA-API ${operation} failed (${response.status})`, response.status);
+    if (!error.retryable || attempt >= MAX_THROTTLE_RETRIES) throw error;
+    await new Promise(r => setTimeout(r, MIN_REQUEST_INTERVAL_MS * Math.pow(2, attempt)));
+  }
+};
+
+const toProduct = (item: any): AmazonProduct => {
+  const listing = item.Offers?.Listings?.[0];
+  const reviews = item.CustomerReviews;
+  return {
+    asin: item.ASIN,
+    title: item.ItemInfo?.Title?.DisplayValue || item.ASIN,
+    imageUrl: item.Images?.Primary?.Large?.URL || '',
+    price: listing?.Price?.DisplayAmount || 'Check Price',
+    url: item.DetailPageURL,
+    features: item.ItemInfo?.Features?.DisplayValues || [],
+    rating: reviews?.StarRating?.Value !== undefined ? Number(reviews.StarRating.Value).toFixed(1) : undefined,
+    reviewCount: reviews?.Count !== undefined ? Number(reviews.Count).toLocaleString() : undefined,
+    isPrime: !!listing?.DeliveryInfo?.IsPrimeEligible,
+    isAvailable: !!listing
+  };
+};
+
+// "No results" is an error code in PA-API; here it is just an empty list
+export const searchItems = async (config: AIConfig, keywords: string, itemCount = 1): Promise<AmazonProduct[]> => {
+  try {
+    const data = await callPaapi(config, 'SearchItems', { Keywords: keywords, ItemCount: itemCount, SearchIndex: 'All' });
+    return (data.SearchResult?.Items || []).map(toProduct);
+  } catch (e) {
+    if (e instanceof PaapiError && e.code === 'NoResults') return [];
+    throw e;
+  }
+};
+
+// Unknown or unavailable ASINs are omitted from the result rather than failing the batch
+export const getItems = async (config: AIConfig, asins: string[]): Promise<AmazonProduct[]> => {
+  const results: AmazonProduct[] = [];
+  for (let i = 0; i < asins.length; i += 10) { // PA-API caps ItemIds at 10 per request
+    try {
+      const data = await callPaapi(config, 'GetItems', { ItemIds: asins.slice(i, i + 10), ItemIdType: 'ASIN' });
+      results.push(...(data.ItemsResult?.Items || []).map(toProduct));
+    } catch (e) {
+      if (!(e instanceof PaapiError && (e.code === 'ItemNotAccessible' || e.code === 'InvalidParameterValue'))) throw e;
+    }
+  }
+  return results;
+};
@@ -0,0 +1,105 @@
+import { WPPostHeader, PostHealth, SemanticNode, PostSnapshot } from '../types';
+
+// --- INDEXEDDB SITE STATE ---
+// Drafts and AI results are too large (and too costly to lose) for localStorage, so each site's
+// dashboard is mirrored to IndexedDB and rehydrated on the next connect.
+// Version 2 adds the publish-history store; each record holds one post's snapshots, newest first.
+const DB_NAME = 'sota-neuralmesh';
+const DB_VERSION = 2;
+const STORE = 'sites';
+const SNAPSHOT_STORE = 'snapshots';
+
+export interface PersistedSiteState {
+  siteKey: string;
+  posts: WPPostHeader[];
+  healthData: Record<number, PostHealth>;
+  semanticNodes: SemanticNode[];
+  queue: number[];      // Waiting plus in-flight at save time; both restart on resume
+  savedAt: string;
+}
+
+const siteKey = (siteUrl: string) => siteUrl.replace(/^https?:\/\//, '').replace(/\/$/, '').toLowerCase();
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') return reject(new Error('IndexedDB is not available in this browser.'));
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(STORE)) request.result.createObjectStore(STORE, { keyPath: 'siteKey' });
+        if (!request.result.objectStoreNames.contains(SNAPSHOT_STORE)) request.result.createObjectStore(SNAPSHOT_STORE, { keyPath: 'postKey' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // A failed open (private mode, blocked upgrade) may succeed later; don't cache the rejection
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+const run = async <T>(mode: IDBTransactionMode, op: (store: IDBObjectStore) => IDBRequest, storeName = STORE): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    const request = op(tx.objectStore(storeName));
+    tx.oncomplete = () => resolve(request.result as T);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error('IndexedDB transaction aborted'));
+  });
+};
+
+export const loadSiteState = async (siteUrl: string): Promise<PersistedSiteState | null> => {
+  try {
+    return (await run<PersistedSiteState | undefined>('readonly', store => store.get(siteKey(siteUrl)))) || null;
+  } catch (e) {
+    console.warn('[Persistence] Could not load saved state', e);
+    return null;
+  }
+};
+
+export const saveSiteState = async (siteUrl: string, state: Omit<PersistedSiteState, 'siteKey' | 'savedAt'>): Promise<void> => {
+  await run('readwrite', store => store.put({ ...state, siteKey: siteKey(siteUrl), savedAt: new Date().toISOString() }));
+};
+
+export const clearSiteState = async (siteUrl: string): Promise<void> => {
+  await run('readwrite', store => store.delete(siteKey(siteUrl)));
+};
+
+// --- PUBLISH HISTORY SNAPSHOTS ---
+// Kept apart from site state: clearing a site's dashboard must never take its backups with it
+interface PersistedSnapshots {
+  postKey: string;
+  snapshots: PostSnapshot[];
+}
+
+const postKey = (siteUrl: string, postId: number) => `${siteKey(siteUrl)}_${postId}`;
+
+export const loadSnapshots = async (siteUrl: string, postId: number): Promise<PostSnapshot[] | null> => {
+  const record = await run<PersistedSnapshots | undefined>('readonly', store => store.get(postKey(siteUrl, postId)), SNAPSHOT_STORE);
+  return record ? record.snapshots : null;
+};
+
+export const saveSnapshots = async (siteUrl: string, postId: number, snapshots: PostSnapshot[]): Promise<void> => {
+  await run('readwrite', store => store.put({ postKey: postKey(siteUrl, postId), snapshots }), SNAPSHOT_STORE);
+};
+
+// Read and write share one transaction, so two backups of the same post can't drop each other
+export const addSnapshot = async (snapshot: PostSnapshot, keep: number): Promise<void> => {
+  const db = await openDb();
+  const key = postKey(snapshot.siteUrl, snapshot.postId);
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(SNAPSHOT_STORE, 'readwrite');
+    const store = tx.objectStore(SNAPSHOT_STORE);
+    const read = store.get(key);
+    read.onsuccess = () => {
+      const existing: PostSnapshot[] = (read.result as PersistedSnapshots | undefined)?.snapshots || [];
+      store.put({ postKey: key, snapshots: [snapshot, ...existing].slice(0, keep) });
+    };
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error('IndexedDB transaction aborted'));
+  });
+};
@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { AIConfig } from '../types';
+import { applyReplacement } from './productReplaceService';
+
+const config: AIConfig = { provider: 'gemini', apiKey: '', model: '', amazonMarketplace: 'US', amazonTags: { US: 'site-20' } };
+const spec = { oldAsin: 'B000000OLD', oldName: 'Old Blender', newAsin: 'B000000NEW', newName: 'New Blender' };
+
+describe('applyReplacement', () => {
+  it('only touches the old product in stored block markup', () => {
+    const markup = [
+      '<!-- wp:paragraph -->',
+      '<p>The <a href="https://www.amazon.com/dp/B000000OLD?tag=site-20&amp;th=1">Old Blender</a> &amp; friends.</p>',
+      '<!-- /wp:paragraph -->',
+      '',
+      '[gallery ids="1,2" link="file"]',
+      '<!-- wp:embed {"url":"https://youtu.be/x"} /-->'
+    ].join('\n');
+    const { html, changes } = applyReplacement(markup, spec, undefined, config);
+    expect(html).toBe(markup.replace('B000000OLD', 'B000000NEW').replace('>Old Blender<', '>New Blender<'));
+    expect(changes).toEqual({ links: 1, boxes: 0, mentions: 1 });
+  });
+
+  it('re-renders a matching product box whole and keeps its index', () => {
+    const markup = `<p>Intro</p><div class='sota-product-card' data-sota-box='2'><div><a href='https://amazon.com/dp/B000000OLD'>Buy</a></div></div><p>Outro</p>`;
+    const { html, changes } = applyReplacement(markup, spec, undefined, config);
+    expect(changes).toEqual({ links: 0, boxes: 1, mentions: 0 });
+    expect(html.startsWith('<p>Intro</p><div class=\'sota-product-card\' data-sota-box=\'2\'')).toBe(true);
+    expect(html.endsWith('</div><p>Outro</p>')).toBe(true);
+    expect(html).toContain('B000000NEW');
+    expect(html).not.toContain('B000000OLD');
+  });
+
+  it('leaves scripts and comments alone', () => {
+    const markup = '<!-- Old Blender --><script>var p = "Old Blender";</script><p>Old Blender</p>';
+    const { html, changes } = applyReplacement(markup, spec, undefined, config);
+    expect(html).toBe('<!-- Old Blender --><script>var p = "Old Blender";</script><p>New Blender</p>');
+    expect(changes.mentions).toBe(1);
+  });
+
+  it('returns the markup unchanged when nothing matches', () => {
+    const markup = '<p>Nothing <a href="https://www.amazon.com/dp/B000000XYZ">here</a> & there</p>';
+    expect(applyReplacement(markup, spec, undefined, config)).toEqual({ html: markup, changes: { links: 0, boxes: 0, mentions: 0 } });
+  });
+});
@@ -0,0 +1,259 @@
+import { AIConfig, AIAnalysisResult, AmazonProduct, AsinCheck, PostHealth, ProductReplacement, ReplacementPreview, WPConnection, WPPostHeader } from '../types';
+import { AMAZON_MARKETPLACES } from '../constants';
+import { fetchPostMarkup } from './wordpressService';
+import { parseAmazonUrl } from './affiliateAuditService';
+import { constructAmazonUrl, generateProductBoxHTML, resolveAffiliateTag, resolveMarketplace, templateFromRenderedHtml } from '../utils/helpers';
+
+// Posts in these states are owned by the optimization queue; a draft written now would be overwritten
+const BUSY_STATUSES: PostHealth['status'][] = ['queued', 'scanning', 'optimizing'];
+// Posts in these states have a draft that is not live yet; the replacement goes into that draft
+const DRAFT_STATUSES: PostHealth['status'][] = ['review_pending', 'revision_saved', 'submitted', 'scheduled'];
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+export const normalizeReplacement = (spec: ProductReplacement): ProductReplacement => ({
+  oldAsin: spec.oldAsin?.trim().toUpperCase() || undefined,
+  oldName: spec.oldName?.trim() || undefined,
+  newAsin: spec.newAsin.trim().toUpperCase(),
+  newName: spec.newName?.trim() || undefined
+});
+
+// --- MARKUP REWRITE ---
+// Edits are spliced into the source string, so everything the replacement does not touch (block comments,
+// shortcodes, entities, whitespace) survives byte for byte. A DOM round trip would re-serialize the whole post.
+export interface ReplacementResult {
+  html: string;
+  changes: ReplacementPreview['changes'];
+}
+
+interface MarkupToken {
+  kind: 'comment' | 'open' | 'close' | 'text';
+  text: string;
+  start: number;
+  name?: string;
+}
+
+const TOKEN_PATTERN = /<!--[\s\S]*?-->|<\/?[a-zA-Z](?:[^>"']|"[^"]*"|'[^']*')*>|[^<]+|</g;
+
+const tokenizeMarkup = (html: string): MarkupToken[] => Array.from(html.matchAll(TOKEN_PATTERN), match => {
+  const text = match[0];
+  const tag = text.match(/^<(\/?)([a-zA-Z][\w:-]*)/);
+  if (text.startsWith('<!--')) return { kind: 'comment', text, start: match.index! };
+  if (!tag) return { kind: 'text', text, start: match.index! };
+  return { kind: tag[1] ? 'close' : 'open', text, start: match.index!, name: tag[2].toLowerCase() };
+});
+
+// Index of the token closing the element opened at `from`, or -1 when the markup never closes it
+const findClosingToken = (tokens: MarkupToken[], from: number): number => {
+  const name = tokens[from].name;
+  let depth = 0;
+  for (let i = from; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (token.name !== name) continue;
+    if (token.kind === 'open' && !token.text.endsWith('/>')) depth++;
+    else if (token.kind === 'close' && --depth === 0) return i;
+  }
+  return -1;
+};
+
+// Attribute value as written in the tag (still entity-encoded), with its offsets inside the tag
+const readAttribute = (tag: string, name: string): { value: string; start: number; end: number } | null => {
+  const match = new RegExp(`\\s${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s"'>]+))`, 'i').exec(tag);
+  if (!match) return null;
+  const value = match[1] ?? match[2] ?? match[3];
+  const end = match.index + match[0].length - (match[3] === undefined ? 1 : 0);
+  return { value, start: end - value.length, end };
+};
+
+const decodeAttribute = (value: string) => value.replace(/&(?:amp|#0*38);/gi, '&');
+const escapeText = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+const escapeAttribute = (value: string) => escapeText(value).replace(/"/g, '&quot;').replace(/'/g, '&#39;');
+const textOf = (tokens: MarkupToken[]) => tokens.filter(t => t.kind === 'text').map(t => t.text).join('');
+
+// Shortlinks (amzn.to) hide their ASIN, so they only match by anchor text when an old name is given
+export const applyReplacement = (html: string, spec: ProductReplacement, product: AmazonProduct | undefined, config: AIConfig): ReplacementResult => {
+  const { oldAsin, oldName, newAsin, newName } = normalizeReplacement(spec);
+  const changes = { links: 0, boxes: 0, mentions: 0 };
+  const tokens = tokenizeMarkup(html);
+  const edits: { start: number; end: number; text: string }[] = [];
+  const mentionsOldName = (text: string) => !!oldName && text.toLowerCase().includes(oldName.toLowerCase());
+
+  const isOldLink = (href: string, anchorText: string): boolean => {
+    const parsed = parseAmazonUrl(decodeAttribute(href));
+    if (!parsed) return false;
+    return oldAsin ? parsed.asin === oldAsin : mentionsOldName(anchorText);
+  };
+  const anchorAt = (i: number) => {
+    const href = tokens[i].kind === 'open' && tokens[i].name === 'a' ? readAttribute(tokens[i].text, 'href') : null;
+    if (!href) return null;
+    const close = findClosingToken(tokens, i);
+    return { href, text: textOf(tokens.slice(i, close < 0 ? tokens.length : close)) };
+  };
+  const isOldAnchor = (i: number) => {
+    const anchor = anchorAt(i);
+    return !!anchor && isOldLink(anchor.href.value, anchor.text);
+  };
+
+  const marketplace = resolveMarketplace(config);
+  const boxName = newName || product?.title || newAsin;
+  const pattern = oldName && newName ? new RegExp(escapeRegExp(oldName), 'gi') : null;
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (token.kind === 'open' && (token.name === 'script' || token.name === 'style')) {
+      const close = findClosingToken(tokens, i);
+      if (close < 0) break;
+      i = close;
+      continue;
+    }
+
+    // Product boxes are re-rendered whole so the image, price and rating follow the new product.
+    // The card keeps its data-sota-box index, which keeps the draft's template in step.
+    const className = token.kind === 'open' ? readAttribute(token.text, 'class') : null;
+    if (className && /(^|\s)sota-product-card(\s|$)/.test(className.value)) {
+      const close = findClosingToken(tokens, i);
+      if (close >= 0) {
+        const matches = tokens.slice(i, close).some((_, offset) => isOldAnchor(i + offset)) || mentionsOldName(textOf(tokens.slice(i, close)));
+        if (matches) {
+          const index = readAttribute(token.text, 'data-sota-box');
+          const box = generateProductBoxHTML(boxName, product, { asin: newAsin }, resolveAffiliateTag(config), index ? Number(index.value) : undefined, marketplace).trim();
+          edits.push({ start: token.start, end: tokens[close].start + tokens[close].text.length, text: box });
+          changes.boxes++;
+        }
+        i = close;
+        continue;
+      }
+    }
+
+    // In-text links keep their storefront and tag; only the product changes
+    if (isOldAnchor(i)) {
+      const { href } = anchorAt(i)!;
+      const parsed = parseAmazonUrl(decodeAttribute(href.value))!;
+      const updated = parsed.asin
+        ? href.value.replace(new RegExp(parsed.asin, 'gi'), newAsin)
+        : escapeAttribute(constructAmazonUrl(newAsin, parsed.tag, AMAZON_MARKETPLACES[parsed.marketplaceId!]));
+      edits.push({ start: token.start + href.start, end: token.start + href.end, text: updated });
+      changes.links++;
+    }
+
+    // Mentions are only rewritten with an explicit new name; Amazon titles are too long for running text
+    if (token.kind === 'text' && pattern) {
+      const count = (token.text.match(pattern) || []).length;
+      if (count === 0) continue;
+      edits.push({ start: token.start, end: token.start + token.text.length, text: token.text.replace(pattern, () => escapeText(newName!)) });
+      changes.mentions += count;
+    }
+  }
+
+  const updated = edits.reduceRight((out, edit) => out.slice(0, edit.start) + edit.text + out.slice(edit.end), html);
+  return { html: updated, changes };
+};
+
+// Points the draft's detections at the new product, so the Monetization Matrix and later re-renders agree
+// with the rewritten HTML. The template is only rebuilt for AI drafts that have one.
+export const replaceInAiResult = (
+  aiResult: AIAnalysisResult,
+  spec: ProductReplacement,
+  updatedHtml: string,
+  product: AmazonProduct | undefined,
+  check: AsinCheck,
+  config: AIConfig
+): AIAnalysisResult => {
+  const { oldAsin, oldName, newAsin, newName } = normalizeReplacement(spec);
+  const isOld = (name: string, asin?: string) =>
+    (!!oldAsin && asin?.toUpperCase() === oldAsin) || (!!oldName && name.toLowerCase() === oldName.toLowerCase());
+  return {
+    ...aiResult,
+    contentTemplate: aiResult.contentTemplate ? templateFromRenderedHtml(updatedHtml) : aiResult.contentTemplate,
+    detectedProducts: aiResult.detectedProducts.map(prod => !isOld(prod.name, prod.asin) ? prod : {
+      ...prod,
+      name: newName || product?.title || prod.name,
+      asin: newAsin,
+      url: constructAmazonUrl(newAsin, resolveAffiliateTag(config), resolveMarketplace(config)),
+      amazonData: product,
+      asinCheck: check
+    })
+  };
+};
+
+// --- SITE SCAN ---
+export interface ReplaceScanProgress {
+  done: number;
+  total: number;
+}
+
+export interface ReplaceScanResult {
+  previews: ReplacementPreview[];
+  postsScanned: number;
+  postsFailed: number;
+  postsBusy: number[]; // Matching posts skipped because the queue is working on them
+  postsScheduled: number[]; // Matching posts skipped because their draft is scheduled to go live
+  postsGenerated: number[]; // Matching posts whose old product only appears in output rendered by a block, shortcode or embed
+}
+
+// Unpublished drafts are edited in place rather than replaced by the live post, so unpublished work survives.
+// Live posts are edited as stored block markup; the rendered HTML is only used for the preview.
+export const findReplacementTargets = async (
+  conn: WPConnection,
+  posts: WPPostHeader[],
+  healthData: Record<number, PostHealth>,
+  spec: ProductReplacement,
+  product: AmazonProduct | undefined,
+  config: AIConfig,
+  onProgress: (progress: ReplaceScanProgress) => void,
+  signal?: AbortSignal
+): Promise<ReplaceScanResult> => {
+  const { oldAsin, oldName } = normalizeReplacement(spec);
+  const needles = [oldAsin, oldName].filter((n): n is string => !!n).map(n => n.toLowerCase());
+  const result: ReplaceScanResult = { previews: [], postsScanned: 0, postsFailed: 0, postsBusy: [], postsScheduled: [], postsGenerated: [] };
+
+  for (let i = 0; i < posts.length; i++) {
+    if (signal?.aborted) break;
+    const post = posts[i];
+    const health = healthData[post.id];
+    onProgress({ done: i, total: posts.length });
+
+    let markup: string;
+    let rendered: string;
+    const source: ReplacementPreview['source'] = health && DRAFT_STATUSES.includes(health.status) && health.draftHtml ? 'draft' : 'live';
+    try {
+      ({ raw: markup, rendered } = source === 'draft' ? { raw: health.draftHtml!, rendered: health.draftHtml! } : await fetchPostMarkup(conn, post.id, post.restBase));
+      result.postsScanned++;
+    } catch (e: any) {
+      result.postsFailed++;
+      console.warn(`[Product Replace] Skipped #${post.id}: ${e.message}`);
+      continue;
+    }
+
+    if (!needles.some(n => rendered.toLowerCase().includes(n) || markup.toLowerCase().includes(n))) continue;
+    const { html: updatedMarkup, changes } = applyReplacement(markup, spec, product, config);
+    const updatedHtml = source === 'draft' ? updatedMarkup : applyReplacement(rendered, spec, product, config).html;
+    if (updatedMarkup === markup) {
+      if (updatedHtml !== rendered) result.postsGenerated.push(post.id);
+      continue;
+    }
+    if (health && BUSY_STATUSES.includes(health.status)) {
+      result.postsBusy.push(post.id);
+      continue;
+    }
+    if (health?.status === 'scheduled') {
+      result.postsScheduled.push(post.id);
+      continue;
+    }
+
+    result.previews.push({
+      postId: post.id,
+      postTitle: post.title.rendered,
+      postUrl: post.link,
+      source,
+      originalHtml: rendered,
+      updatedHtml,
+      originalMarkup: markup,
+      updatedMarkup,
+      changes
+    });
+  }
+
+  onProgress({ done: posts.length, total: posts.length });
+  return result;
+};
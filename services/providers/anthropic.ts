@@ -0,0 +1,49 @@
+import { AIProviderModule, fetchWithRateLimit } from './shared';
+
+// No native JSON mode: when JSON is requested we prefill the assistant turn with "{" so Claude
+// continues a JSON object, then stitch the brace back on.
+// Errors come back as { type: "error", error: { type, message } }.
+export const anthropicProvider: AIProviderModule = {
+  id: 'anthropic',
+  capabilities: { jsonMode: false, maxOutputTokens: 8192, systemPrompt: true, requiresApiKey: true },
+  defaultModel: 'claude-3-opus-20240229',
+  complete: async (config, request) => {
+    const model = config.model || anthropicProvider.defaultModel!;
+
+    const res = await fetchWithRateLimit('https://api.anthropic.com/v1/messages', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': config.apiKey,
+        'anthropic-version': '2023-06-01',
+        'anthropic-dangerous-direct-browser-access': 'true'
+      },
+      body: JSON.stringify({
+        model: model,
+        max_tokens: request.maxTokens,
+        system: request.system,
+        messages: [
+          { role: 'user', content: request.prompt },
+          ...(request.json ? [{ role: 'assistant', content: '{' }] : [])
+        ]
+      })
+    }, 'Anthropic');
+
+    if (!res.ok) {
+      const err = await res.json().catch(() => null);
+      const type = err?.error?.type ? ` (${err.error.type})` : '';
+      if (res.status === 404) throw new Error(`Model '${model}' not found. Check your Model ID in Settings.`);
+      throw new Error(`Anthropic Error${type}: ${err?.error?.message || res.statusText}`);
+    }
+
+    const data = await res.json();
+    const text = (data.content || [])
+      .filter((block: any) => block.type === 'text')
+      .map((block: any) => block.text)
+      .join('');
+    if (data.stop_reason === 'max_tokens') console.warn(`[Anthropic] Output truncated at max_tokens for model ${model}.`);
+    const usage = data.usage ? { promptTokens: data.usage.input_tokens || 0, completionTokens: data.usage.output_tokens || 0 } : undefined;
+    if (!request.json) return { text, usage, model: data.model };
+    return { text: text ? `{${text}` : "{}", usage, model: data.model };
+  }
+};
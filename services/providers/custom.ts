@@ -0,0 +1,17 @@
+import { AIProviderModule, openAICompatibleChat, readOpenAIUsage } from './shared';
+
+// Any server speaking the OpenAI /chat/completions dialect: vLLM, Ollama, LM Studio,
+// llama.cpp server, or a local stub during tests. Capabilities are overridable from Settings
+// because self-hosted servers vary in JSON mode and system prompt support.
+export const customProvider: AIProviderModule = {
+  id: 'custom',
+  capabilities: { jsonMode: false, maxOutputTokens: 4096, systemPrompt: true, requiresApiKey: false },
+  complete: async (config, request) => {
+    if (!config.customBaseUrl) throw new Error("Custom Base URL Missing. Please check Settings.");
+
+    const { res, data } = await openAICompatibleChat(config.customBaseUrl, 'Custom', config, request);
+    if (!res.ok) throw new Error(`Custom Endpoint Error (${res.status}): ${data?.error?.message || data?.message || res.statusText}`);
+
+    return { text: data?.choices?.[0]?.message?.content || "{}", usage: readOpenAIUsage(data), model: data?.model };
+  }
+};
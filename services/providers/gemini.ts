@@ -0,0 +1,33 @@
+import { GoogleGenAI } from '@google/genai';
+import { AIProviderModule } from './shared';
+
+export const geminiProvider: AIProviderModule = {
+  id: 'gemini',
+  capabilities: { jsonMode: true, maxOutputTokens: 8192, systemPrompt: true, requiresApiKey: true },
+  defaultModel: 'gemini-2.5-flash',
+  complete: async (config, request) => {
+    try {
+      const ai = new GoogleGenAI({ apiKey: config.apiKey });
+      const response = await ai.models.generateContent({
+        model: config.model || geminiProvider.defaultModel!,
+        contents: request.prompt,
+        config: {
+          systemInstruction: request.system,
+          ...(request.json && { responseMimeType: "application/json" }),
+          maxOutputTokens: request.maxTokens
+        }
+      });
+      const usage = response.usageMetadata
+        ? { promptTokens: response.usageMetadata.promptTokenCount || 0, completionTokens: response.usageMetadata.candidatesTokenCount || 0 }
+        : undefined;
+      return { text: response.text || "{}", usage, model: response.modelVersion };
+    } catch (e: any) {
+      console.error("Gemini API Error:", e);
+      // Handle specific 404
+      if (e.message?.includes('404') || e.message?.includes('not found')) {
+        throw new Error(`Model '${config.model}' not found. Check your API Key or Model ID in Settings.`);
+      }
+      throw e;
+    }
+  }
+};
@@ -0,0 +1,29 @@
+import { AIProviderModule, openAICompatibleChat, readOpenAIUsage } from './shared';
+
+// JSON mode requires the word "JSON" in the messages, and a model that produces invalid JSON
+// yields a 400 `json_validate_failed` with the raw attempt in `failed_generation`.
+export const groqProvider: AIProviderModule = {
+  id: 'groq',
+  capabilities: { jsonMode: true, maxOutputTokens: 8192, systemPrompt: true, requiresApiKey: true },
+  defaultModel: 'llama3-70b-8192',
+  complete: async (config, request) => {
+    const model = config.model || groqProvider.defaultModel!;
+    const system = request.json && !/json/i.test(request.system) ? `${request.system}\nRespond in JSON.` : request.system;
+
+    const { res, data } = await openAICompatibleChat('https://api.groq.com/openai/v1', 'Groq', { ...config, model }, { ...request, system });
+
+    if (!res.ok) {
+      // Salvage the raw generation: cleanJsonOutput can often repair what Groq's validator rejected
+      if (data?.error?.code === 'json_validate_failed' && data.error.failed_generation) {
+        console.warn(`[Groq] JSON validation failed server-side, attempting local repair.`);
+        return { text: data.error.failed_generation, model };
+      }
+      if (data?.error?.code === 'model_not_found' || res.status === 404) {
+        throw new Error(`Model '${model}' not found. Check your Model ID in Settings.`);
+      }
+      throw new Error(`Groq Error: ${data?.error?.message || res.statusText}`);
+    }
+
+    return { text: data.choices[0]?.message?.content || "{}", usage: readOpenAIUsage(data), model: data.model };
+  }
+};
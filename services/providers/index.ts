@@ -0,0 +1,46 @@
+import { AIConfig, AIProvider } from '../../types';
+import { AIProviderModule, ProviderCapabilities } from './shared';
+import { geminiProvider } from './gemini';
+import { openaiProvider, openrouterProvider } from './openai';
+import { anthropicProvider } from './anthropic';
+import { groqProvider } from './groq';
+import { customProvider } from './custom';
+
+export type { AIProviderModule, ProviderCapabilities, AICompletionRequest, AICompletion, TokenUsage } from './shared';
+
+export const PROVIDER_REGISTRY: Record<AIProvider, AIProviderModule> = {
+  gemini: geminiProvider,
+  openai: openaiProvider,
+  anthropic: anthropicProvider,
+  groq: groqProvider,
+  openrouter: openrouterProvider,
+  custom: customProvider
+};
+
+export const getProvider = (id: AIProvider): AIProviderModule => {
+  const provider = PROVIDER_REGISTRY[id];
+  if (!provider) throw new Error(`Provider ${id} not implemented yet.`);
+  return provider;
+};
+
+// Static capabilities merged with user overrides from Settings
+export const resolveCapabilities = (config: AIConfig): ProviderCapabilities => {
+  const base = getProvider(config.provider).capabilities;
+  const isCustom = config.provider === 'custom';
+  return {
+    ...base,
+    jsonMode: isCustom && config.customJsonMode !== undefined ? config.customJsonMode : base.jsonMode,
+    systemPrompt: isCustom && config.customSystemPrompt !== undefined ? config.customSystemPrompt : base.systemPrompt,
+    // Self-hosted servers have no published ceiling, so the user's value wins
+    maxOutputTokens: !config.maxTokens ? base.maxOutputTokens : isCustom ? config.maxTokens : Math.min(config.maxTokens, base.maxOutputTokens)
+  };
+};
+
+// The model a request will ask for; empty when neither Settings nor the adapter names one
+export const resolveModel = (config: AIConfig): string => config.model || getProvider(config.provider).defaultModel || '';
+
+export const isProviderConfigured = (config: AIConfig): boolean => {
+  if (resolveCapabilities(config).requiresApiKey && !config.apiKey) return false;
+  if (config.provider === 'custom' && !config.customBaseUrl) return false;
+  return true;
+};
@@ -0,0 +1,25 @@
+import { AIProviderModule, openAICompatibleChat, readOpenAIUsage } from './shared';
+
+export const openaiProvider: AIProviderModule = {
+  id: 'openai',
+  capabilities: { jsonMode: true, maxOutputTokens: 4096, systemPrompt: true, requiresApiKey: true },
+  defaultModel: 'gpt-4-turbo-preview',
+  complete: async (config, request) => {
+    const { res, data } = await openAICompatibleChat('https://api.openai.com/v1', 'OpenAI', { ...config, model: config.model || openaiProvider.defaultModel! }, request);
+    if (!res.ok) throw new Error(`OpenAI Error: ${data?.error?.message || res.statusText}`);
+    return { text: data.choices[0]?.message?.content || "{}", usage: readOpenAIUsage(data), model: data.model };
+  }
+};
+
+export const openrouterProvider: AIProviderModule = {
+  id: 'openrouter',
+  capabilities: { jsonMode: true, maxOutputTokens: 8192, systemPrompt: true, requiresApiKey: true },
+  complete: async (config, request) => {
+    const { res, data } = await openAICompatibleChat('https://openrouter.ai/api/v1', 'OpenRouter', config, request, {
+      'HTTP-Referer': 'https://neuralmesh.app',
+      'X-Title': 'NeuralMesh'
+    });
+    if (!res.ok) throw new Error(`OpenRouter Error: ${data?.error?.message || res.statusText}`);
+    return { text: data.choices[0]?.message?.content || "{}", usage: readOpenAIUsage(data), model: data.model };
+  }
+};
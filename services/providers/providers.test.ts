@@ -0,0 +1,152 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach, vi } from 'vitest';
+import { createServer, Server, IncomingMessage } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { AIConfig } from '../../types';
+import { getProvider, resolveCapabilities, resolveModel, isProviderConfigured } from './index';
+import { AICompletionRequest } from './shared';
+
+const request: AICompletionRequest = { system: 'You are terse.', prompt: 'Say hi', maxTokens: 256, json: true };
+const config = (overrides: Partial<AIConfig>): AIConfig => ({ provider: 'custom', apiKey: '', model: 'stub-model', ...overrides });
+
+// --- LOCAL OPENAI-COMPATIBLE STUB ---
+// Replies are queued per test; every request body is recorded for assertions.
+let server: Server;
+let baseUrl: string;
+const received: { url: string; headers: IncomingMessage['headers']; body: any }[] = [];
+const replies: { status: number; body: unknown; headers?: Record<string, string> }[] = [];
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    let raw = '';
+    req.on('data', chunk => { raw += chunk; });
+    req.on('end', () => {
+      received.push({ url: req.url || '', headers: req.headers, body: raw ? JSON.parse(raw) : null });
+      const reply = replies.shift() || { status: 500, body: { error: { message: 'no reply queued' } } };
+      res.writeHead(reply.status, { 'Content-Type': 'application/json', ...reply.headers });
+      res.end(JSON.stringify(reply.body));
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+});
+
+afterAll(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+afterEach(() => {
+  received.length = 0;
+  replies.length = 0;
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('custom provider against a local stub', () => {
+  it('sends an OpenAI chat completion and reads text and usage', async () => {
+    replies.push({ status: 200, body: { choices: [{ message: { content: '{"hi":true}' } }], usage: { prompt_tokens: 12, completion_tokens: 3 } } });
+    const result = await getProvider('custom').complete(config({ customBaseUrl: `${baseUrl}/`, apiKey: 'local-key' }), request);
+
+    expect(result).toEqual({ text: '{"hi":true}', usage: { promptTokens: 12, completionTokens: 3 } });
+    expect(received[0].url).toBe('/v1/chat/completions');
+    expect(received[0].headers.authorization).toBe('Bearer local-key');
+    expect(received[0].body).toEqual({
+      model: 'stub-model',
+      messages: [{ role: 'system', content: 'You are terse.' }, { role: 'user', content: 'Say hi' }],
+      max_tokens: 256,
+      response_format: { type: 'json_object' }
+    });
+  });
+
+  it('omits the auth header and system message when not configured', async () => {
+    replies.push({ status: 200, body: { choices: [{ message: { content: 'hello' } }] } });
+    const result = await getProvider('custom').complete(config({ customBaseUrl: baseUrl }), { ...request, system: '', json: false });
+
+    expect(result).toEqual({ text: 'hello', usage: undefined });
+    expect(received[0].headers.authorization).toBeUndefined();
+    expect(received[0].body.messages).toEqual([{ role: 'user', content: 'Say hi' }]);
+    expect(received[0].body.response_format).toBeUndefined();
+  });
+
+  it('reports the model the server says it used', async () => {
+    replies.push({ status: 200, body: { model: 'stub-model-2024-06-01', choices: [{ message: { content: '{}' } }] } });
+    const result = await getProvider('custom').complete(config({ customBaseUrl: baseUrl }), request);
+
+    expect(result.model).toBe('stub-model-2024-06-01');
+  });
+
+  it('retries a 429 after the retry-after delay', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    replies.push({ status: 429, body: {}, headers: { 'retry-after': '0' } });
+    replies.push({ status: 200, body: { choices: [{ message: { content: 'ok' } }] } });
+    const result = await getProvider('custom').complete(config({ customBaseUrl: baseUrl }), request);
+
+    expect(result.text).toBe('ok');
+    expect(received).toHaveLength(2);
+  });
+
+  it('surfaces the server error message', async () => {
+    replies.push({ status: 400, body: { error: { message: 'context length exceeded' } } });
+    await expect(getProvider('custom').complete(config({ customBaseUrl: baseUrl }), request))
+      .rejects.toThrow('Custom Endpoint Error (400): context length exceeded');
+  });
+
+  it('requires a base URL', async () => {
+    await expect(getProvider('custom').complete(config({}), request)).rejects.toThrow('Custom Base URL Missing');
+  });
+});
+
+describe('hosted provider adapters', () => {
+  const stubFetch = (status: number, body: unknown) => {
+    const fetchMock = vi.fn(async () => new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } }));
+    vi.stubGlobal('fetch', fetchMock);
+    return fetchMock;
+  };
+
+  it('anthropic prefills "{" for JSON and stitches it back on', async () => {
+    const fetchMock = stubFetch(200, { content: [{ type: 'text', text: '"a":1}' }], usage: { input_tokens: 5, output_tokens: 2 } });
+    const result = await getProvider('anthropic').complete(config({ provider: 'anthropic', apiKey: 'k' }), request);
+
+    expect(result).toEqual({ text: '{"a":1}', usage: { promptTokens: 5, completionTokens: 2 } });
+    const body = JSON.parse((fetchMock.mock.calls[0] as any)[1].body);
+    expect(body.system).toBe('You are terse.');
+    expect(body.messages.at(-1)).toEqual({ role: 'assistant', content: '{' });
+  });
+
+  it('anthropic maps error payloads', async () => {
+    stubFetch(400, { type: 'error', error: { type: 'invalid_request_error', message: 'max_tokens too large' } });
+    await expect(getProvider('anthropic').complete(config({ provider: 'anthropic', apiKey: 'k' }), request))
+      .rejects.toThrow('Anthropic Error (invalid_request_error): max_tokens too large');
+  });
+
+  it('groq asks for JSON in the system prompt and salvages failed generations', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const fetchMock = stubFetch(400, { error: { code: 'json_validate_failed', failed_generation: '{"a":1,}' } });
+    const result = await getProvider('groq').complete(config({ provider: 'groq', apiKey: 'k' }), request);
+
+    expect(result.text).toBe('{"a":1,}');
+    const body = JSON.parse((fetchMock.mock.calls[0] as any)[1].body);
+    expect(body.messages[0].content).toBe('You are terse.\nRespond in JSON.');
+  });
+});
+
+describe('capabilities', () => {
+  it('clamps hosted providers to their ceiling but trusts custom servers', () => {
+    expect(resolveCapabilities(config({ provider: 'openai', maxTokens: 100000 })).maxOutputTokens).toBe(4096);
+    expect(resolveCapabilities(config({ provider: 'custom', maxTokens: 100000 })).maxOutputTokens).toBe(100000);
+  });
+
+  it('applies custom JSON mode and system prompt overrides only to the custom provider', () => {
+    expect(resolveCapabilities(config({ provider: 'custom', customJsonMode: true, customSystemPrompt: false }))).toMatchObject({ jsonMode: true, systemPrompt: false });
+    expect(resolveCapabilities(config({ provider: 'openai', customJsonMode: false }))).toMatchObject({ jsonMode: true });
+  });
+
+  it('falls back to the adapter default model, and to none for custom servers', () => {
+    expect(resolveModel(config({ provider: 'anthropic', model: '' }))).toBe('claude-3-opus-20240229');
+    expect(resolveModel(config({ provider: 'openai', model: 'gpt-4o' }))).toBe('gpt-4o');
+    expect(resolveModel(config({ provider: 'custom', model: '' }))).toBe('');
+  });
+
+  it('knows when a provider is usable', () => {
+    expect(isProviderConfigured(config({ provider: 'openai' }))).toBe(false);
+    expect(isProviderConfigured(config({ provider: 'custom' }))).toBe(false);
+    expect(isProviderConfigured(config({ provider: 'custom', customBaseUrl: baseUrl }))).toBe(true);
+  });
+});
@@ -0,0 +1,110 @@
+import { AIConfig, AIProvider } from '../../types';
+
+export interface ProviderCapabilities {
+  jsonMode: boolean;        // Provider can be forced to emit a JSON object
+  maxOutputTokens: number;  // Hard ceiling for completion tokens
+  systemPrompt: boolean;    // Accepts a separate system / instruction message
+  requiresApiKey: boolean;
+}
+
+export interface AICompletionRequest {
+  system: string;
+  prompt: string;
+  maxTokens: number;
+  json: boolean;
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface AICompletion {
+  text: string;
+  usage?: TokenUsage; // Omitted when the provider does not report it
+  model?: string; // Model that served the request, as the provider reports it (may be a dated snapshot)
+}
+
+export interface AIProviderModule {
+  id: AIProvider;
+  capabilities: ProviderCapabilities;
+  defaultModel?: string; // Used when Settings leaves the model empty; without one the server picks
+  complete: (config: AIConfig, request: AICompletionRequest) => Promise<AICompletion>;
+}
+
+// --- RATE LIMIT BACKOFF ---
+// Providers answer 429 with a `retry-after` header (seconds). Groq/OpenAI also send
+// `x-ratelimit-reset-*` durations like "1m2.5s", Anthropic sends RFC 3339 `*-reset` timestamps.
+const MAX_RATE_LIMIT_RETRIES = 3;
+
+const parseDurationToMs = (value: string): number | null => {
+  const parts = value.match(/(\d+(?:\.\d+)?)(ms|s|m|h)/g);
+  if (!parts) return null;
+  const unitMs: Record<string, number> = { ms: 1, s: 1000, m: 60000, h: 3600000 };
+  return parts.reduce((total, part) => {
+    const [, num, unit] = part.match(/(\d+(?:\.\d+)?)(ms|s|m|h)/)!;
+    return total + parseFloat(num) * unitMs[unit];
+  }, 0);
+};
+
+const getRetryDelayMs = (headers: Headers, attempt: number): number => {
+  const retryAfter = headers.get('retry-after');
+  if (retryAfter && !isNaN(Number(retryAfter))) return Number(retryAfter) * 1000;
+
+  const resetHeader = headers.get('anthropic-ratelimit-requests-reset')
+    || headers.get('anthropic-ratelimit-tokens-reset')
+    || headers.get('x-ratelimit-reset-requests')
+    || headers.get('x-ratelimit-reset-tokens');
+  if (resetHeader) {
+    const asDate = Date.parse(resetHeader);
+    if (!isNaN(asDate)) return Math.max(0, asDate - Date.now());
+    const asDuration = parseDurationToMs(resetHeader);
+    if (asDuration !== null) return asDuration;
+  }
+  // No hint from the provider: exponential backoff
+  return 2000 * Math.pow(2, attempt);
+};
+
+export const fetchWithRateLimit = async (url: string, init: RequestInit, label: string): Promise<Response> => {
+  for (let attempt = 0; ; attempt++) {
+    const res = await fetch(url, init);
+    if (res.status !== 429 || attempt >= MAX_RATE_LIMIT_RETRIES) return res;
+    const delay = Math.min(getRetryDelayMs(res.headers, attempt), 60000);
+    console.warn(`[${label}] Rate limited. Retrying in ${Math.round(delay / 1000)}s (attempt ${attempt + 1}/${MAX_RATE_LIMIT_RETRIES})`);
+    await new Promise(r => setTimeout(r, delay));
+  }
+};
+
+export const readOpenAIUsage = (data: any): TokenUsage | undefined =>
+  data?.usage ? { promptTokens: data.usage.prompt_tokens || 0, completionTokens: data.usage.completion_tokens || 0 } : undefined;
+
+// --- OPENAI-COMPATIBLE CHAT COMPLETIONS ---
+// Shared by OpenAI, OpenRouter, Groq and the custom base URL provider.
+export const openAICompatibleChat = async (
+  baseUrl: string,
+  label: string,
+  config: AIConfig,
+  request: AICompletionRequest,
+  extraHeaders: Record<string, string> = {}
+): Promise<{ res: Response; data: any }> => {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json', ...extraHeaders };
+  if (config.apiKey) headers['Authorization'] = `Bearer ${config.apiKey}`;
+
+  const messages = request.system
+    ? [{ role: 'system', content: request.system }, { role: 'user', content: request.prompt }]
+    : [{ role: 'user', content: request.prompt }];
+
+  const res = await fetchWithRateLimit(`${baseUrl.replace(/\/$/, '')}/chat/completions`, {
+    method: 'POST',
+    headers,
+    body: JSON.stringify({
+      model: config.model,
+      messages,
+      max_tokens: request.maxTokens,
+      ...(request.json && { response_format: { type: "json_object" } })
+    })
+  }, label);
+
+  const data = await res.json().catch(() => null);
+  return { res, data };
+};
@@ -0,0 +1,86 @@
+// @vitest-environment happy-dom
+import 'fake-indexeddb/auto';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { WPConnection } from '../types';
+import { createSnapshot, getSnapshots, restoreSnapshot } from './publishHistory';
+
+const conn: WPConnection = { url: 'https://blog.example.com', username: 'editor', appPassword: 'abcd efgh ijkl mnop' };
+
+// --- IN-MEMORY WP REST STUB ---
+// One post; GET returns its edit context, POST merges the body into it
+let post: Record<string, any>;
+let updates: Record<string, any>[];
+
+const stubWordPress = () => vi.stubGlobal('fetch', vi.fn(async (url: string, init?: RequestInit) => {
+  if (init?.method === 'POST') {
+    const body = JSON.parse(String(init.body));
+    updates.push(body);
+    post = { ...post, ...body, title: { raw: body.title ?? post.title.raw }, content: { raw: body.content ?? post.content.raw } };
+    return new Response('{}', { status: 200 });
+  }
+  if (url.includes('/revisions')) return new Response('[]', { status: 200 });
+  return new Response(JSON.stringify(post), { status: 200 });
+}));
+
+// The database stays open across tests, so each test works on a post of its own
+let postId = 0;
+
+beforeEach(() => {
+  postId++;
+  localStorage.clear();
+  updates = [];
+  post = {
+    id: postId,
+    title: { raw: 'Best Kettles' },
+    content: { raw: '<p>Original</p>' },
+    excerpt: { raw: '' },
+    date: '2024-03-01T09:00:00',
+    date_gmt: '2024-03-01T08:00:00',
+    status: 'publish'
+  };
+  stubWordPress();
+});
+
+afterEach(() => vi.unstubAllGlobals());
+
+describe('publish history', () => {
+  it('captures status and GMT date in the snapshot', async () => {
+    const snapshot = await createSnapshot(conn, postId, 'publish');
+    expect(snapshot).toMatchObject({ title: 'Best Kettles', content: '<p>Original</p>', status: 'publish', dateGmt: '2024-03-01T08:00:00' });
+    expect(await getSnapshots(conn.url, postId)).toHaveLength(1);
+  });
+
+  it('puts a post taken offline by a pending publish back online', async () => {
+    const snapshot = await createSnapshot(conn, postId, 'publish');
+    post = { ...post, content: { raw: '<p>Rewrite</p>' }, status: 'pending' };
+
+    await restoreSnapshot(conn, snapshot);
+    expect(updates.at(-1)).toEqual({ title: 'Best Kettles', content: '<p>Original</p>', excerpt: '', date_gmt: '2024-03-01T08:00:00', status: 'publish' });
+
+    // The restore itself was backed up first, with the state it replaced
+    const [rollbackBackup] = await getSnapshots(conn.url, postId);
+    expect(rollbackBackup).toMatchObject({ reason: 'rollback', status: 'pending', content: '<p>Rewrite</p>' });
+  });
+
+  it('falls back to the local date for undated drafts and older snapshots', async () => {
+    post = { ...post, date_gmt: null, status: 'draft' };
+    const snapshot = await createSnapshot(conn, postId, 'publish');
+    await restoreSnapshot(conn, { ...snapshot, status: undefined });
+    expect(updates.at(-1)).toEqual({ title: 'Best Kettles', content: '<p>Original</p>', excerpt: '', date: '2024-03-01T09:00:00' });
+  });
+
+  it('moves snapshots saved in localStorage into IndexedDB', async () => {
+    const legacy = { id: `${postId}-1`, siteUrl: conn.url, postId, takenAt: '2024-01-01T00:00:00.000Z', reason: 'publish', title: 'Old', content: '<p>Old</p>', excerpt: '', date: '2024-01-01T00:00:00' };
+    localStorage.setItem(`SOTA_PUBLISH_HISTORY_V1_blog.example.com_${postId}`, JSON.stringify([legacy]));
+
+    await createSnapshot(conn, postId, 'publish');
+    const snapshots = await getSnapshots(conn.url, postId);
+    expect(snapshots.map(s => s.id)).toEqual([expect.stringMatching(/^\d+-\d+$/), `${postId}-1`]);
+    expect(localStorage.getItem(`SOTA_PUBLISH_HISTORY_V1_blog.example.com_${postId}`)).toBeNull();
+  });
+
+  it('keeps the newest ten snapshots per post', async () => {
+    for (let i = 0; i < 12; i++) await createSnapshot(conn, postId, 'publish');
+    expect(await getSnapshots(conn.url, postId)).toHaveLength(10);
+  });
+});
@@ -0,0 +1,81 @@
+import { WPConnection, PostSnapshot } from '../types';
+import { fetchPostRaw, fetchLatestRevisionId, fetchRevision, updatePostRemote } from './wordpressService';
+import { addSnapshot, loadSnapshots, saveSnapshots } from './persistenceService';
+
+const MAX_SNAPSHOTS_PER_POST = 10;
+
+// Snapshots used to live in localStorage; each post's are moved to IndexedDB the first time they are touched
+const LEGACY_PREFIX = 'SOTA_PUBLISH_HISTORY_V1_';
+
+const legacyKey = (siteUrl: string, postId: number) => {
+  const host = siteUrl.replace(/^https?:\/\//, '').replace(/\/$/, '');
+  return `${LEGACY_PREFIX}${host}_${postId}`;
+};
+
+const migrateLegacySnapshots = async (siteUrl: string, postId: number): Promise<void> => {
+  if (typeof localStorage === 'undefined') return;
+  const key = legacyKey(siteUrl, postId);
+  const raw = localStorage.getItem(key);
+  if (!raw) return;
+  let legacy: PostSnapshot[] = [];
+  try {
+    legacy = JSON.parse(raw);
+  } catch (e) {
+    console.warn(`[History] Dropped unreadable snapshots for #${postId}`);
+  }
+  const current = (await loadSnapshots(siteUrl, postId)) || [];
+  await saveSnapshots(siteUrl, postId, [...current, ...legacy].slice(0, MAX_SNAPSHOTS_PER_POST));
+  localStorage.removeItem(key);
+};
+
+// Newest first
+export const getSnapshots = async (siteUrl: string, postId: number): Promise<PostSnapshot[]> => {
+  await migrateLegacySnapshots(siteUrl, postId);
+  return (await loadSnapshots(siteUrl, postId)) || [];
+};
+
+// Throws if the snapshot cannot be kept, so callers never overwrite a post without a backup
+const saveSnapshot = async (snapshot: PostSnapshot): Promise<void> => {
+  try {
+    await migrateLegacySnapshots(snapshot.siteUrl, snapshot.postId);
+    await addSnapshot(snapshot, MAX_SNAPSHOTS_PER_POST);
+  } catch (e: any) {
+    throw new Error(`Could not save a backup of the current post: ${e.message}`);
+  }
+};
+
+export const createSnapshot = async (conn: WPConnection, postId: number, reason: PostSnapshot['reason'], trackWpRevisions?: boolean, restBase = 'posts'): Promise<PostSnapshot> => {
+  const raw = await fetchPostRaw(conn, postId, restBase);
+  const wpRevisionId = trackWpRevisions ? await fetchLatestRevisionId(conn, postId, restBase) : null;
+  const snapshot: PostSnapshot = {
+    id: `${postId}-${Date.now()}`,
+    siteUrl: conn.url,
+    postId,
+    takenAt: new Date().toISOString(),
+    reason,
+    restBase,
+    ...raw,
+    ...(wpRevisionId ? { wpRevisionId } : {})
+  };
+  await saveSnapshot(snapshot);
+  return snapshot;
+};
+
+// Restoring is itself snapshotted first, so a rollback can be rolled back
+export const restoreSnapshot = async (conn: WPConnection, snapshot: PostSnapshot, trackWpRevisions?: boolean): Promise<void> => {
+  const restBase = snapshot.restBase || 'posts';
+  let { title, content, excerpt } = snapshot;
+  if (snapshot.offloaded) {
+    if (!snapshot.wpRevisionId) throw new Error('Snapshot content is missing and no WP revision was recorded.');
+    ({ title, content, excerpt } = await fetchRevision(conn, snapshot.postId, snapshot.wpRevisionId, restBase));
+  }
+  await createSnapshot(conn, snapshot.postId, 'rollback', trackWpRevisions, restBase);
+  // Status and GMT date come back too: a pending or scheduled publish took the post offline
+  await updatePostRemote(conn, snapshot.postId, {
+    title,
+    content,
+    excerpt,
+    ...(snapshot.dateGmt ? { date_gmt: snapshot.dateGmt } : { date: snapshot.date }),
+    ...(snapshot.status ? { status: snapshot.status } : {})
+  }, restBase);
+};
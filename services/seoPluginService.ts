@@ -0,0 +1,94 @@
+import { WPConnection, SeoPlugin, SeoField, AIAnalysisResult } from '../types';
+import { getAuthHeader, cleanUrl, fetchWithRetry } from './wordpressService';
+
+export const SEO_PLUGIN_LABELS: Record<SeoPlugin, string> = {
+  yoast: 'Yoast SEO',
+  rankmath: 'Rank Math',
+  aioseo: 'All in One SEO',
+  none: 'No SEO plugin'
+};
+
+// Detected from the REST namespaces each plugin registers on /wp-json
+export const detectSeoPlugin = async (conn: WPConnection): Promise<SeoPlugin> => {
+  try {
+    const res = await fetchWithRetry(`${cleanUrl(conn.url)}/wp-json/`, {
+      headers: { 'Authorization': getAuthHeader(conn) }
+    });
+    if (!res.ok) return 'none';
+    const namespaces: string[] = (await res.json()).namespaces || [];
+    if (namespaces.includes('rankmath/v1')) return 'rankmath';
+    if (namespaces.includes('aioseo/v1')) return 'aioseo';
+    if (namespaces.includes('yoast/v1')) return 'yoast';
+  } catch (e) {
+    console.warn('[SEO] Plugin detection failed', e);
+  }
+  return 'none';
+};
+
+// Schema is embedded by default only where no plugin already emits its own JSON-LD
+export const defaultSeoFields = (plugin: SeoPlugin): SeoField[] =>
+  plugin === 'none' ? ['title', 'schema'] : ['title', 'seoTitle', 'metaDescription'];
+
+// Note: WordPress strips <script> from content for users without the unfiltered_html capability
+export const embedSchema = (html: string, schemaJSON: string): string => {
+  const block = `<script type="application/ld+json" class="sota-schema">${schemaJSON.replace(/</g, '\\u003c')}</script>`;
+  const existing = /<script type="application\/ld\+json" class="sota-schema">[\s\S]*?<\/script>/;
+  return existing.test(html) ? html.replace(existing, block) : html + '\n' + block;
+};
+
+// Native fields ride along with the content update
+export const buildNativeFields = (fields: SeoField[], result: AIAnalysisResult): Record<string, string> => ({
+  ...(fields.includes('title') && result.newTitle ? { title: result.newTitle } : {}),
+  ...(fields.includes('excerpt') && result.metaDescription ? { excerpt: result.metaDescription } : {})
+});
+
+const postJson = (conn: WPConnection, path: string, body: unknown) => fetchWithRetry(`${cleanUrl(conn.url)}/wp-json/${path}`, {
+  method: 'POST',
+  headers: {
+    'Authorization': getAuthHeader(conn),
+    'Content-Type': 'application/json'
+  },
+  body: JSON.stringify(body)
+});
+
+// Writes the plugin-owned title/description after the content update. Returns warnings instead of
+// throwing: the post itself is already published at this point.
+export const writeSeoPluginFields = async (
+  conn: WPConnection,
+  postId: number,
+  plugin: SeoPlugin,
+  fields: SeoField[],
+  result: AIAnalysisResult,
+  restBase = 'posts'
+): Promise<string[]> => {
+  const title = fields.includes('seoTitle') ? result.newTitle : undefined;
+  const description = fields.includes('metaDescription') ? result.metaDescription : undefined;
+  if (!title && !description) return [];
+  if (plugin === 'none') return ['SEO title/meta description skipped: no SEO plugin detected.'];
+
+  try {
+    if (plugin === 'rankmath') {
+      // objectType 'post' covers pages and CPTs too
+      const meta = { ...(title ? { rank_math_title: title } : {}), ...(description ? { rank_math_description: description } : {}) };
+      const res = await postJson(conn, 'rankmath/v1/updateMeta', { objectType: 'post', objectID: postId, meta });
+      return res.ok ? [] : [`Rank Math rejected the meta update (${res.status}).`];
+    }
+
+    if (plugin === 'aioseo') {
+      const res = await postJson(conn, `wp/v2/${restBase}/${postId}`, { aioseo_meta_data: { ...(title ? { title } : {}), ...(description ? { description } : {}) } });
+      if (!res.ok) return [`AIOSEO meta update failed (${res.status}).`];
+      const saved = (await res.json()).aioseo_meta_data;
+      return saved ? [] : ['AIOSEO did not return aioseo_meta_data; the fields may not be REST-writable on this version.'];
+    }
+
+    // Yoast keeps its meta private unless the site registers it with show_in_rest
+    const meta = { ...(title ? { _yoast_wpseo_title: title } : {}), ...(description ? { _yoast_wpseo_metadesc: description } : {}) };
+    const res = await postJson(conn, `wp/v2/${restBase}/${postId}`, { meta });
+    if (!res.ok) return [`Yoast meta update failed (${res.status}).`];
+    const saved = (await res.json()).meta || {};
+    const missing = Object.keys(meta).filter(key => saved[key] === undefined);
+    return missing.length ? [`Yoast fields not exposed to the REST API (${missing.join(', ')}); register them with show_in_rest.`] : [];
+  } catch (e: any) {
+    return [`${SEO_PLUGIN_LABELS[plugin]} update failed: ${e.message}`];
+  }
+};
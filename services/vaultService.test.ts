@@ -0,0 +1,53 @@
+// @vitest-environment happy-dom
+import { describe, it, expect, beforeEach } from 'vitest';
+import { createVault, unlockVault, lockVault, resetVault, saveSiteSecrets, getSiteSecrets, exportVaultBackup, importVaultBackup } from './vaultService';
+
+const PASSPHRASE = 'correct horse battery';
+
+// A backup written by another build with a different work factor
+const craftBackup = async (iterations: number, passphrase: string, payload: unknown): Promise<string> => {
+  const toBase64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes));
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  const key = await crypto.subtle.deriveKey({ name: 'PBKDF2', salt, iterations, hash: 'SHA-256' }, material, { name: 'AES-GCM', length: 256 }, false, ['encrypt']);
+  const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(JSON.stringify(payload)));
+  return JSON.stringify({ format: 'sota-vault-backup', exportedAt: new Date().toISOString(), salt: toBase64(salt), iv: toBase64(iv), data: toBase64(new Uint8Array(data)), iterations });
+};
+
+describe('vault backups', () => {
+  beforeEach(() => resetVault());
+
+  it('round-trips secrets and workspaces through an export', async () => {
+    await createVault(PASSPHRASE);
+    await saveSiteSecrets('ws1', { apiKey: 'sk-test-1234567890' });
+    const backup = await exportVaultBackup([]);
+
+    resetVault();
+    expect(await importVaultBackup(backup, PASSPHRASE)).toEqual([]);
+    lockVault();
+    await unlockVault(PASSPHRASE);
+    expect(getSiteSecrets('ws1')).toEqual({ apiKey: 'sk-test-1234567890' });
+  });
+
+  it('rejects a backup with a lowered work factor', async () => {
+    await createVault(PASSPHRASE);
+    const backup = JSON.parse(await exportVaultBackup([]));
+    resetVault();
+    await expect(importVaultBackup(JSON.stringify({ ...backup, iterations: 1 }), PASSPHRASE)).rejects.toThrow('weaker key derivation');
+    await expect(importVaultBackup(JSON.stringify({ ...backup, iterations: '310000' }), PASSPHRASE)).rejects.toThrow('weaker key derivation');
+  });
+
+  it('applies the passphrase minimum on import', async () => {
+    const backup = await craftBackup(310000, 'short', { secrets: {}, workspaces: [] });
+    await expect(importVaultBackup(backup, 'short')).rejects.toThrow('at least 8 characters');
+  });
+
+  it('re-derives the key when the backup used a stronger work factor', async () => {
+    const backup = await craftBackup(320000, PASSPHRASE, { secrets: { ws1: { serperApiKey: 'serper-key-123' } }, workspaces: [] });
+    await importVaultBackup(backup, PASSPHRASE);
+    lockVault();
+    await unlockVault(PASSPHRASE);
+    expect(getSiteSecrets('ws1')).toEqual({ serperApiKey: 'serper-key-123' });
+  });
+});
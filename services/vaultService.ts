@@ -0,0 +1,188 @@
+import { AIConfig, WPConnection, Workspace } from '../types';
+import { registerSecret } from '../utils/redact';
+
+// --- CREDENTIAL VAULT ---
+// Secrets are kept out of every other store (workspaces, IndexedDB) and live here encrypted with
+// AES-GCM under a PBKDF2-derived key. The key stays in memory, so the vault is unlocked once per tab.
+const STORAGE_KEY = 'SOTA_VAULT_V1';
+const PBKDF2_ITERATIONS = 310000;
+const MIN_PASSPHRASE_LENGTH = 8;
+const BACKUP_FORMAT = 'sota-vault-backup';
+
+export const SECRET_CONFIG_FIELDS = ['apiKey', 'serperApiKey', 'amazonAccessKey', 'amazonSecretKey', 'wpAppPassword'] as const;
+type SecretConfigField = typeof SECRET_CONFIG_FIELDS[number];
+
+export type SiteSecrets = Partial<Pick<AIConfig, SecretConfigField>>;
+
+interface VaultEnvelope {
+  salt: string; // base64
+  iv: string;   // base64
+  data: string; // base64 AES-GCM ciphertext
+  iterations: number;
+}
+
+interface VaultBackup extends VaultEnvelope {
+  format: typeof BACKUP_FORMAT;
+  exportedAt: string;
+}
+
+interface BackupPayload {
+  secrets: Record<string, SiteSecrets>;
+  workspaces: Workspace[];
+}
+
+let sessionKey: CryptoKey | null = null;
+let sessionSalt: Uint8Array<ArrayBuffer> | null = null;
+let sessionSecrets: Record<string, SiteSecrets> = {};
+
+const toBase64 = (bytes: Uint8Array): string => btoa(String.fromCharCode(...bytes));
+const fromBase64 = (b64: string): Uint8Array<ArrayBuffer> => Uint8Array.from(atob(b64), c => c.charCodeAt(0));
+
+const deriveKey = async (passphrase: string, salt: Uint8Array<ArrayBuffer>, iterations = PBKDF2_ITERATIONS): Promise<CryptoKey> => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+const encrypt = async (key: CryptoKey, salt: Uint8Array<ArrayBuffer>, value: unknown): Promise<VaultEnvelope> => {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(JSON.stringify(value)));
+  return { salt: toBase64(salt), iv: toBase64(iv), data: toBase64(new Uint8Array(data)), iterations: PBKDF2_ITERATIONS };
+};
+
+// AES-GCM authenticates the ciphertext, so a wrong passphrase fails here rather than yielding garbage
+const decrypt = async <T>(key: CryptoKey, envelope: VaultEnvelope): Promise<T> => {
+  try {
+    const plain = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(envelope.iv) }, key, fromBase64(envelope.data));
+    return JSON.parse(new TextDecoder().decode(plain));
+  } catch (e) {
+    throw new Error('Wrong passphrase or corrupted vault.');
+  }
+};
+
+const readEnvelope = (): VaultEnvelope | null => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? JSON.parse(raw) : null;
+  } catch (e) {
+    return null;
+  }
+};
+
+const persist = async () => {
+  if (!sessionKey || !sessionSalt) throw new Error('Vault is locked.');
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(await encrypt(sessionKey, sessionSalt, sessionSecrets)));
+};
+
+const registerAll = (all: Record<string, SiteSecrets>) =>
+  Object.values(all).forEach(site => Object.values(site).forEach(registerSecret));
+
+export const hasVault = (): boolean => readEnvelope() !== null;
+
+export const isVaultUnlocked = (): boolean => sessionKey !== null;
+
+export const createVault = async (passphrase: string): Promise<void> => {
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) throw new Error(`Use a passphrase of at least ${MIN_PASSPHRASE_LENGTH} characters.`);
+  sessionSalt = crypto.getRandomValues(new Uint8Array(16));
+  sessionKey = await deriveKey(passphrase, sessionSalt);
+  sessionSecrets = {};
+  await persist();
+};
+
+export const unlockVault = async (passphrase: string): Promise<void> => {
+  const envelope = readEnvelope();
+  if (!envelope) throw new Error('No vault has been created yet.');
+  const salt = fromBase64(envelope.salt);
+  const key = await deriveKey(passphrase, salt, envelope.iterations);
+  const secrets = await decrypt<Record<string, SiteSecrets>>(key, envelope);
+  sessionKey = key;
+  sessionSalt = salt;
+  sessionSecrets = secrets;
+  registerAll(secrets);
+};
+
+export const lockVault = (): void => {
+  sessionKey = null;
+  sessionSalt = null;
+  sessionSecrets = {};
+};
+
+// Forgotten passphrase: the only way out is to drop the stored secrets
+export const resetVault = (): void => {
+  lockVault();
+  localStorage.removeItem(STORAGE_KEY);
+};
+
+export const getSiteSecrets = (workspaceId: string): SiteSecrets => sessionSecrets[workspaceId] || {};
+
+export const pickSecrets = (config: AIConfig, connection?: WPConnection | null): SiteSecrets => {
+  const picked: SiteSecrets = {};
+  SECRET_CONFIG_FIELDS.forEach(field => { if (config[field]) picked[field] = config[field]; });
+  if (connection?.appPassword) picked.wpAppPassword = connection.appPassword;
+  return picked;
+};
+
+export const stripSecrets = <T extends Partial<AIConfig>>(config: T): T => {
+  const copy = { ...config };
+  SECRET_CONFIG_FIELDS.forEach(field => { delete copy[field]; });
+  return copy;
+};
+
+// No-op while locked: without a vault the secrets simply stay in memory for this tab
+export const saveSiteSecrets = async (workspaceId: string, secrets: SiteSecrets): Promise<void> => {
+  Object.values(secrets).forEach(registerSecret);
+  if (!sessionKey) return;
+  const current = sessionSecrets[workspaceId] || {};
+  if (SECRET_CONFIG_FIELDS.every(field => current[field] === secrets[field])) return;
+  sessionSecrets = { ...sessionSecrets, [workspaceId]: secrets };
+  await persist();
+};
+
+export const removeSiteSecrets = async (workspaceId: string): Promise<void> => {
+  if (!sessionKey || !sessionSecrets[workspaceId]) return;
+  const { [workspaceId]: _removed, ...rest } = sessionSecrets;
+  sessionSecrets = rest;
+  await persist();
+};
+
+// --- BACKUP ---
+// The backup is re-encrypted under the same passphrase and bundles the (secret-free) workspaces,
+// so importing it on another browser restores the sites along with their credentials.
+export const exportVaultBackup = async (workspaces: Workspace[]): Promise<string> => {
+  if (!sessionKey || !sessionSalt) throw new Error('Unlock the vault before exporting.');
+  const payload: BackupPayload = { secrets: sessionSecrets, workspaces };
+  const backup: VaultBackup = { format: BACKUP_FORMAT, exportedAt: new Date().toISOString(), ...(await encrypt(sessionKey, sessionSalt, payload)) };
+  return JSON.stringify(backup, null, 2);
+};
+
+export const importVaultBackup = async (json: string, passphrase: string): Promise<Workspace[]> => {
+  let backup: VaultBackup;
+  try {
+    backup = JSON.parse(json);
+  } catch (e) {
+    throw new Error('Backup file is not valid JSON.');
+  }
+  if (backup.format !== BACKUP_FORMAT) throw new Error('Not a vault backup file.');
+  // The file is untrusted: a lowered work factor would make the re-encrypted vault cheap to brute-force
+  if (!Number.isInteger(backup.iterations) || backup.iterations < PBKDF2_ITERATIONS) throw new Error('Backup uses a weaker key derivation than this app allows.');
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) throw new Error(`Use a passphrase of at least ${MIN_PASSPHRASE_LENGTH} characters.`);
+
+  const salt = fromBase64(backup.salt);
+  const key = await deriveKey(passphrase, salt, backup.iterations);
+  const payload = await decrypt<BackupPayload>(key, backup);
+
+  // The backup's passphrase becomes the vault's; imported sites win over same-id local entries.
+  // The local vault is always written with PBKDF2_ITERATIONS, so the key is re-derived if the backup used more.
+  const merged = sessionKey ? { ...sessionSecrets, ...payload.secrets } : payload.secrets;
+  sessionKey = backup.iterations === PBKDF2_ITERATIONS ? key : await deriveKey(passphrase, salt);
+  sessionSalt = salt;
+  sessionSecrets = merged;
+  registerAll(merged);
+  await persist();
+  return payload.workspaces;
+};
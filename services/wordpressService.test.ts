@@ -0,0 +1,57 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { WPConnection } from '../types';
+import { isLiveStatus, publishPostRemote } from './wordpressService';
+
+const conn: WPConnection = { url: 'https://blog.example.com/', username: 'editor', appPassword: 'abcd efgh ijkl mnop' };
+const inAnHour = () => new Date(Date.now() + 3600000).toISOString();
+
+// --- WP REST STUB ---
+let postStatus: string;
+let calls: { method: string; url: string; body?: any }[];
+
+beforeEach(() => {
+  calls = [];
+  postStatus = 'publish';
+  vi.stubGlobal('fetch', vi.fn(async (url: string, init?: RequestInit) => {
+    const method = init?.method || 'GET';
+    calls.push({ method, url, ...(init?.body ? { body: JSON.parse(String(init.body)) } : {}) });
+    if (method === 'GET') return new Response(JSON.stringify({ id: 5, title: { raw: '' }, content: { raw: '' }, excerpt: { raw: '' }, date: '', date_gmt: null, status: postStatus }), { status: 200 });
+    return new Response('{}', { status: 200 });
+  }));
+});
+
+afterEach(() => vi.unstubAllGlobals());
+
+const writes = () => calls.filter(c => c.method === 'POST');
+
+describe('publishPostRemote', () => {
+  it('never sets a live post to future when scheduling', async () => {
+    await publishPostRemote(conn, 5, { content: '<p>New</p>', title: 'New title', date: '2024-01-01T00:00:00' }, { mode: 'schedule', scheduledAt: inAnHour() });
+    expect(writes()).toEqual([{ method: 'POST', url: 'https://blog.example.com/wp-json/wp/v2/posts/5/autosaves', body: { content: '<p>New</p>', title: 'New title' } }]);
+  });
+
+  it('schedules an unpublished post natively at the slot', async () => {
+    const scheduledAt = inAnHour();
+    await publishPostRemote(conn, 5, { content: '<p>New</p>', date: '2024-01-01T00:00:00' }, { mode: 'schedule', scheduledAt }, 'posts', 'draft');
+    expect(calls).toEqual([{ method: 'POST', url: 'https://blog.example.com/wp-json/wp/v2/posts/5', body: { content: '<p>New</p>', status: 'future', date_gmt: scheduledAt } }]);
+  });
+
+  it('reads the current status when the caller does not pass it', async () => {
+    postStatus = 'pending';
+    await publishPostRemote(conn, 5, { content: '<p>New</p>' }, { mode: 'schedule', scheduledAt: inAnHour() }, 'pages');
+    expect(calls[0]).toMatchObject({ method: 'GET', url: expect.stringContaining('/wp-json/wp/v2/pages/5?context=edit') });
+    expect(writes()[0].body.status).toBe('future');
+  });
+
+  it('rejects slots in the past before touching the post', async () => {
+    await expect(publishPostRemote(conn, 5, { content: '' }, { mode: 'schedule', scheduledAt: '2020-01-01T00:00:00Z' })).rejects.toThrow('Scheduled time must be in the future.');
+    expect(calls).toEqual([]);
+  });
+});
+
+describe('isLiveStatus', () => {
+  it('treats published, private and unknown statuses as live', () => {
+    expect(['publish', 'private', undefined].map(isLiveStatus)).toEqual([true, true, true]);
+    expect(['draft', 'pending', 'future', 'auto-draft'].map(isLiveStatus)).toEqual([false, false, false, false]);
+  });
+});
@@ -1,16 +1,16 @@
 
-import { WPConnection, WPPostHeader, WPPostFull } from '../types';
+import { WPConnection, WPPostHeader, WPPostFull, WPPostType, TaxonomyIndex, PublishOptions } from '../types';
 
-const getAuthHeader = (conn: WPConnection) => {
+export const getAuthHeader = (conn: WPConnection) => {
   // Safe encoding for special characters in passwords
   const str = `${conn.username}:${conn.appPassword}`;
   return 'Basic ' + btoa(unescape(encodeURIComponent(str)));
 };
 
-const cleanUrl = (url: string) => url.replace(/\/$/, '');
+export const cleanUrl = (url: string) => url.replace(/\/$/, '');
 
 // Robust fetch with retry and timeout
-const fetchWithRetry = async (url: string, options: RequestInit, retries = 3, backoff = 1000): Promise<Response> => {
+export const fetchWithRetry = async (url: string, options: RequestInit, retries = 3, backoff = 1000): Promise<Response> => {
   const controller = new AbortController();
   const timeoutId = setTimeout(() => controller.abort(), 30000); // 30s timeout per request
   const fetchOptions = { ...options, signal: controller.signal };
@@ -56,7 +56,8 @@ export const verifyConnection = async (conn: WPConnection): Promise<void> => {
   }
 };
 
-export const fetchAllPostHeaders = async (conn: WPConnection, onProgress?: (count: number) => void): Promise<WPPostHeader[]> => {
+// `restBase` is the post type's REST route segment: 'posts', 'pages', or a CPT's rest_base
+export const fetchAllPostHeaders = async (conn: WPConnection, onProgress?: (count: number) => void, restBase = 'posts'): Promise<WPPostHeader[]> => {
   const allPosts: WPPostHeader[] = [];
   let page = 1;
   let hasMore = true;
@@ -64,7 +65,7 @@ export const fetchAllPostHeaders = async (conn: WPConnection, onProgress?: (coun
   while (hasMore) {
     try {
         // Fetch 100 items per page (WP API max)
-        const res = await fetchWithRetry(`${cleanUrl(conn.url)}/wp-json/wp/v2/posts?per_page=100&page=${page}&_fields=id,date,modified,title,link,slug,categories&status=publish`, {
+        const res = await fetchWithRetry(`${cleanUrl(conn.url)}/wp-json/wp/v2/${restBase}?per_page=100&page=${page}&_fields=id,date,modified,title,link,slug,categories,tags,author,type&status=publish`, {
             headers: { 'Authorization': getAuthHeader(conn) }
         });
 
@@ -78,7 +79,7 @@ export const fetchAllPostHeaders = async (conn: WPConnection, onProgress?: (coun
         if (posts.length === 0) {
             hasMore = false;
         } else {
-            allPosts.push(...posts);
+            allPosts.push(...posts.map((post: WPPostHeader) => ({ ...post, restBase })));
             if (onProgress) onProgress(allPosts.length);
             page++;
         }
@@ -90,8 +91,8 @@ export const fetchAllPostHeaders = async (conn: WPConnection, onProgress?: (coun
   return allPosts;
 };
 
-export const fetchRecentPostHeaders = async (conn: WPConnection): Promise<WPPostHeader[]> => {
-    const res = await fetchWithRetry(`${cleanUrl(conn.url)}/wp-json/wp/v2/posts?per_page=5&_fields=id,date,modified,title,link,slug,categories&status=publish`, {
+export const fetchRecentPostHeaders = async (conn: WPConnection, restBase = 'posts'): Promise<WPPostHeader[]> => {
+    const res = await fetchWithRetry(`${cleanUrl(conn.url)}/wp-json/wp/v2/${restBase}?per_page=5&_fields=id,date,modified,title,link,slug,categories,tags,author,type&status=publish`, {
         headers: { 'Authorization': getAuthHeader(conn) }
     });
 
@@ -99,16 +100,17 @@ export const fetchRecentPostHeaders = async (conn: WPConnection): Promise<WPPost
         throw new Error(`WP Connection Error: ${res.status} ${res.statusText}`);
     }
 
-    return await res.json();
+    const posts = await res.json();
+    return posts.map((post: WPPostHeader) => ({ ...post, restBase }));
 };
 
-export const fetchPostContent = async (conn: WPConnection, id: number): Promise<WPPostFull> => {
+export const fetchPostContent = async (conn: WPConnection, id: number, restBase = 'posts'): Promise<WPPostFull> => {
   const baseUrl = cleanUrl(conn.url);
   const authHeaders = { 'Authorization': getAuthHeader(conn) };
 
   // STRATEGY 1: Authenticated Edit Context (Best Data, includes protected content)
   try {
-      const res = await fetchWithRetry(`${baseUrl}/wp-json/wp/v2/posts/${id}?context=edit&_fields=id,content,modified,title,link,slug`, {
+      const res = await fetchWithRetry(`${baseUrl}/wp-json/wp/v2/${restBase}/${id}?context=edit&_fields=id,content,modified,title,link,slug`, {
         headers: authHeaders
       });
       
@@ -127,7 +129,7 @@ export const fetchPostContent = async (conn: WPConnection, id: number): Promise<
   // STRATEGY 2: Public View (Standard Route)
   // Sometimes 'context=edit' is blocked by security plugins, but public read is open.
   try {
-      const resFallback = await fetchWithRetry(`${baseUrl}/wp-json/wp/v2/posts/${id}?_fields=id,content,modified,title,link,slug`, {
+      const resFallback = await fetchWithRetry(`${baseUrl}/wp-json/wp/v2/${restBase}/${id}?_fields=id,content,modified,title,link,slug`, {
           headers: authHeaders 
       });
       
@@ -138,10 +140,10 @@ export const fetchPostContent = async (conn: WPConnection, id: number): Promise<
 
   // STRATEGY 3: Ultimate Fallback (Filter Query)
   // Fixes "404 Not Found" on single resources caused by Broken Permalinks or Nginx Rewrite Rules.
-  // /wp-json/wp/v2/posts?include=123 ALWAYS works if the list endpoint works (which it does, since we listed posts).
+  // /wp-json/wp/v2/{restBase}?include=123 ALWAYS works if the list endpoint works (which it does, since we listed posts).
   try {
       console.log(`[WP Service] Engaging Strategy 3 (List Filter) for ID ${id}...`);
-      const resList = await fetchWithRetry(`${baseUrl}/wp-json/wp/v2/posts?include=${id}&_fields=id,content,modified,title,link,slug`, {
+      const resList = await fetchWithRetry(`${baseUrl}/wp-json/wp/v2/${restBase}?include=${id}&_fields=id,content,modified,title,link,slug`, {
           headers: authHeaders
       });
       
@@ -158,8 +160,8 @@ export const fetchPostContent = async (conn: WPConnection, id: number): Promise<
   throw new Error(`Could not fetch post content (ID: ${id}). All strategies failed. Check permalinks setting in WordPress.`);
 };
 
-export const updatePostRemote = async (conn: WPConnection, id: number, data: any): Promise<void> => {
-  const res = await fetchWithRetry(`${cleanUrl(conn.url)}/wp-json/wp/v2/posts/${id}`, {
+export const updatePostRemote = async (conn: WPConnection, id: number, data: any, restBase = 'posts'): Promise<void> => {
+  const res = await fetchWithRetry(`${cleanUrl(conn.url)}/wp-json/wp/v2/${restBase}/${id}`, {
     method: 'POST',
     headers: {
       'Authorization': getAuthHeader(conn),
@@ -169,3 +171,130 @@ export const updatePostRemote = async (conn: WPConnection, id: number, data: any
   });
   if (!res.ok) throw new Error(`WP Update Error: ${res.status} ${res.statusText}`);
 };
+
+// Statuses WordPress can move to `future` without taking anything offline
+const UNPUBLISHED_STATUSES = ['draft', 'pending', 'future', 'auto-draft'];
+
+// Unknown counts as live, so a failed status read never unpublishes a post
+export const isLiveStatus = (status?: string): boolean => !UNPUBLISHED_STATUSES.includes(status || '');
+
+// Routes a reviewed draft according to the publish mode:
+// - update: overwrite the live post in place
+// - draft_revision: store as an autosave revision; the live post is untouched until an editor applies it
+// - pending: set status to pending review (WordPress takes the post offline until approved)
+// - schedule: an unpublished post is set to future at scheduledAt. A live post is never touched: the rewrite
+//   is stored as an autosave revision and the caller applies it in place at the slot (see ScheduledPublish).
+// `currentStatus` saves a request when the caller already knows it (e.g. from the pre-publish snapshot).
+export const publishPostRemote = async (conn: WPConnection, id: number, data: Record<string, any>, options: PublishOptions, restBase = 'posts', currentStatus?: string): Promise<void> => {
+  if (options.mode === 'schedule') {
+    if (!options.scheduledAt || new Date(options.scheduledAt).getTime() <= Date.now()) throw new Error('Scheduled time must be in the future.');
+    const status = currentStatus ?? (await fetchPostRaw(conn, id, restBase)).status;
+    if (!isLiveStatus(status)) {
+      const { date, date_gmt, ...rest } = data;
+      return updatePostRemote(conn, id, { ...rest, status: 'future', date_gmt: new Date(options.scheduledAt).toISOString() }, restBase);
+    }
+  }
+  if (options.mode === 'draft_revision' || options.mode === 'schedule') {
+    const res = await fetchWithRetry(`${cleanUrl(conn.url)}/wp-json/wp/v2/${restBase}/${id}/autosaves`, {
+      method: 'POST',
+      headers: {
+        'Authorization': getAuthHeader(conn),
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ content: data.content, ...(data.title ? { title: data.title } : {}), ...(data.excerpt ? { excerpt: data.excerpt } : {}) })
+    });
+    if (!res.ok) throw new Error(`WP Autosave Error: ${res.status} ${res.statusText}`);
+    return;
+  }
+  if (options.mode === 'pending') return updatePostRemote(conn, id, { ...data, status: 'pending' }, restBase);
+  return updatePostRemote(conn, id, data, restBase);
+};
+
+// Raw (unrendered) editable fields, as needed to restore a post exactly
+export const fetchPostRaw = async (conn: WPConnection, id: number, restBase = 'posts'): Promise<{ title: string; content: string; excerpt: string; date: string; dateGmt?: string; status?: string }> => {
+  const res = await fetchWithRetry(`${cleanUrl(conn.url)}/wp-json/wp/v2/${restBase}/${id}?context=edit&_fields=id,title,content,excerpt,date,date_gmt,status`, {
+    headers: { 'Authorization': getAuthHeader(conn) }
+  });
+  if (!res.ok) throw new Error(`WP Snapshot Error: ${res.status} ${res.statusText}`);
+  const post = await res.json();
+  return {
+    title: post.title?.raw ?? post.title?.rendered ?? '',
+    content: post.content?.raw ?? post.content?.rendered ?? '',
+    excerpt: post.excerpt?.raw ?? post.excerpt?.rendered ?? '',
+    date: post.date,
+    dateGmt: post.date_gmt || undefined, // null for drafts that have never had a date set
+    status: post.status
+  };
+};
+
+// Stored block markup (block comments, shortcodes and embeds intact) next to the HTML WordPress renders from it.
+// Needs edit rights; the public fallbacks in fetchPostContent only ever see the rendered side.
+export const fetchPostMarkup = async (conn: WPConnection, id: number, restBase = 'posts'): Promise<{ raw: string; rendered: string }> => {
+  const res = await fetchWithRetry(`${cleanUrl(conn.url)}/wp-json/wp/v2/${restBase}/${id}?context=edit&_fields=id,content`, {
+    headers: { 'Authorization': getAuthHeader(conn) }
+  });
+  if (!res.ok) throw new Error(`WP Edit Context Error: ${res.status} ${res.statusText}`);
+  const post = await res.json();
+  if (typeof post.content?.raw !== 'string') throw new Error('WordPress returned no raw content; the account needs edit rights on this post');
+  return { raw: post.content.raw, rendered: post.content.rendered || '' };
+};
+
+// Returns null when revisions are disabled for the post type or the user cannot read them
+export const fetchLatestRevisionId = async (conn: WPConnection, id: number, restBase = 'posts'): Promise<number | null> => {
+  const res = await fetchWithRetry(`${cleanUrl(conn.url)}/wp-json/wp/v2/${restBase}/${id}/revisions?per_page=1&_fields=id`, {
+    headers: { 'Authorization': getAuthHeader(conn) }
+  });
+  if (!res.ok) return null;
+  const revisions = await res.json();
+  return Array.isArray(revisions) && revisions.length > 0 ? revisions[0].id : null;
+};
+
+export const fetchRevision = async (conn: WPConnection, id: number, revisionId: number, restBase = 'posts'): Promise<{ title: string; content: string; excerpt: string }> => {
+  const res = await fetchWithRetry(`${cleanUrl(conn.url)}/wp-json/wp/v2/${restBase}/${id}/revisions/${revisionId}?context=edit`, {
+    headers: { 'Authorization': getAuthHeader(conn) }
+  });
+  if (!res.ok) throw new Error(`WP Revision Error: ${res.status} ${res.statusText}`);
+  const rev = await res.json();
+  return {
+    title: rev.title?.raw ?? rev.title?.rendered ?? '',
+    content: rev.content?.raw ?? rev.content?.rendered ?? '',
+    excerpt: rev.excerpt?.raw ?? rev.excerpt?.rendered ?? ''
+  };
+};
+
+// Template/editor internals that are never affiliate content
+const EXCLUDED_TYPES = ['attachment', 'nav_menu_item', 'wp_block', 'wp_template', 'wp_template_part', 'wp_navigation', 'wp_global_styles', 'wp_font_family', 'wp_font_face'];
+
+export const fetchPostTypes = async (conn: WPConnection): Promise<WPPostType[]> => {
+  const res = await fetchWithRetry(`${cleanUrl(conn.url)}/wp-json/wp/v2/types`, {
+    headers: { 'Authorization': getAuthHeader(conn) }
+  });
+  if (!res.ok) throw new Error(`WP Types Error: ${res.status} ${res.statusText}`);
+  const types: Record<string, { name: string; slug: string; rest_base?: string }> = await res.json();
+  return Object.values(types)
+    .filter(t => t.rest_base && !EXCLUDED_TYPES.includes(t.slug))
+    .map(t => ({ slug: t.slug, name: t.name, restBase: t.rest_base as string }));
+};
+
+// Paginated id -> name map for any collection route (categories, tags, users)
+const fetchNameIndex = async (conn: WPConnection, route: string): Promise<Record<number, string>> => {
+  const index: Record<number, string> = {};
+  for (let page = 1; ; page++) {
+    const res = await fetchWithRetry(`${cleanUrl(conn.url)}/wp-json/wp/v2/${route}?per_page=100&page=${page}&_fields=id,name`, {
+      headers: { 'Authorization': getAuthHeader(conn) }
+    });
+    if (!res.ok) break; // 400 past the last page
+    const items: { id: number; name: string }[] = await res.json();
+    items.forEach(item => { index[item.id] = item.name; });
+    if (items.length < 100) break;
+  }
+  return index;
+};
+
+// Best-effort: a missing taxonomy (or users hidden by a security plugin) just leaves that facet empty
+export const fetchTaxonomyIndex = async (conn: WPConnection): Promise<TaxonomyIndex> => {
+  const [categories, tags, authors] = await Promise.all(
+    ['categories', 'tags', 'users'].map(route => fetchNameIndex(conn, route).catch(() => ({} as Record<number, string>)))
+  );
+  return { categories, tags, authors };
+};
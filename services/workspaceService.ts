@@ -0,0 +1,105 @@
+import { Workspace, WorkspaceHealthSummary, PostHealth, WPConnection, AIConfig } from '../types';
+import { stripSecrets, pickSecrets, saveSiteSecrets } from './vaultService';
+
+const STORAGE_KEY = 'SOTA_WORKSPACES_V1';
+
+interface WorkspaceStore {
+  workspaces: Workspace[];
+  activeId: string | null;
+}
+
+const readStore = (): WorkspaceStore => {
+  if (typeof window === 'undefined') return { workspaces: [], activeId: null };
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? JSON.parse(raw) : { workspaces: [], activeId: null };
+  } catch (e) {
+    return { workspaces: [], activeId: null };
+  }
+};
+
+// Credentials never reach this store; they are kept in the vault under the workspace id
+const withoutSecrets = (workspace: Workspace): Workspace => ({
+  ...workspace,
+  connection: { ...workspace.connection, appPassword: '' },
+  aiConfig: stripSecrets(workspace.aiConfig)
+});
+
+const writeStore = (store: WorkspaceStore) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ ...store, workspaces: store.workspaces.map(withoutSecrets) }));
+  } catch (e) {
+    console.warn('[Workspaces] Could not persist workspaces', e);
+  }
+};
+
+const normalizeUrl = (url: string) => url.replace(/^https?:\/\//, '').replace(/\/$/, '').toLowerCase();
+
+export const listWorkspaces = (): Workspace[] =>
+  [...readStore().workspaces].sort((a, b) => b.lastOpenedAt.localeCompare(a.lastOpenedAt));
+
+export const getActiveWorkspaceId = (): string | null => readStore().activeId;
+
+// Reconnecting to a known site reuses its workspace (and its settings) instead of creating a duplicate
+export const openWorkspace = (connection: WPConnection, aiConfig: AIConfig): Workspace => {
+  const store = readStore();
+  const existing = store.workspaces.find(w => normalizeUrl(w.connection.url) === normalizeUrl(connection.url));
+  const workspace: Workspace = existing
+    ? { ...existing, connection, lastOpenedAt: new Date().toISOString() }
+    : {
+        id: `ws-${Date.now()}`,
+        name: normalizeUrl(connection.url),
+        connection,
+        aiConfig,
+        lastOpenedAt: new Date().toISOString()
+      };
+  writeStore({
+    workspaces: existing ? store.workspaces.map(w => w.id === workspace.id ? workspace : w) : [...store.workspaces, workspace],
+    activeId: workspace.id
+  });
+  return workspace;
+};
+
+export const updateWorkspace = (id: string, updates: Partial<Omit<Workspace, 'id'>>): void => {
+  const store = readStore();
+  writeStore({ ...store, workspaces: store.workspaces.map(w => w.id === id ? { ...w, ...updates } : w) });
+};
+
+export const removeWorkspace = (id: string): void => {
+  const store = readStore();
+  writeStore({ workspaces: store.workspaces.filter(w => w.id !== id), activeId: store.activeId === id ? null : store.activeId });
+};
+
+export const summarizeHealth = (healthData: Record<number, PostHealth>): WorkspaceHealthSummary => {
+  const entries = Object.values(healthData);
+  const avg = (values: number[]) => values.length ? Math.round(values.reduce((a, b) => a + b, 0) / values.length) : 0;
+  return {
+    posts: entries.length,
+    avgScore: avg(entries.map(h => h.score)),
+    avgAeo: avg(entries.map(h => h.aeoScore)),
+    weak: entries.filter(h => h.score < 50).length,
+    reviewPending: entries.filter(h => h.status === 'review_pending').length,
+    published: entries.filter(h => h.status === 'published').length,
+    capturedAt: new Date().toISOString()
+  };
+};
+
+// Backups carry their own ids (the vault's secrets are keyed by them), so they replace local entries for the same site
+export const importWorkspaces = (imported: Workspace[]): void => {
+  const store = readStore();
+  const importedUrls = new Set(imported.map(w => normalizeUrl(w.connection.url)));
+  writeStore({
+    workspaces: [...store.workspaces.filter(w => !importedUrls.has(normalizeUrl(w.connection.url))), ...imported],
+    activeId: store.activeId
+  });
+};
+
+// Workspaces saved before the vault existed hold plaintext credentials; move them in once it is unlocked
+export const adoptPlaintextSecrets = async (): Promise<void> => {
+  const store = readStore();
+  for (const workspace of store.workspaces) {
+    const secrets = pickSecrets(workspace.aiConfig, workspace.connection);
+    if (Object.keys(secrets).length > 0) await saveSiteSecrets(workspace.id, secrets);
+  }
+  writeStore(store);
+};
@@ -1,12 +1,49 @@
 
-export type AIProvider = 'gemini' | 'openai' | 'anthropic' | 'groq' | 'openrouter';
+export type AIProvider = 'gemini' | 'openai' | 'anthropic' | 'groq' | 'openrouter' | 'custom';
 
 export type DraftMode = 'full' | 'refresh';
 
+export type AIStep = 'strategy' | 'content' | 'keywords' | 'regenerate';
+
+// A block of a generated draft that can be regenerated on its own from the review screen
+export type SectionTarget =
+  | { kind: 'sgeSummary' | 'comparisonTable' | 'faq' | 'verdict' }
+  | { kind: 'h2'; index: number };
+
+export interface ModelPrice {
+  input: number;  // USD per 1M prompt tokens
+  output: number; // USD per 1M completion tokens
+}
+
+export interface AIUsageRecord {
+  step: AIStep;
+  provider: AIProvider;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  latencyMs: number;
+  costUsd: number;
+  estimated: boolean; // Token counts approximated from text length (provider did not report usage)
+  unpriced?: boolean; // No price known for the model, so costUsd is 0
+  timestamp: number;
+}
+
+export interface AIValidationIssue {
+  path: string; // e.g. "internalLinkIds" or "verdict.pros[1]"
+  message: string;
+}
+
 export interface WPConnection {
   url: string;
   username: string;
   appPassword: string;
+  postTypes?: string[]; // REST bases to index; defaults to ['posts']
+}
+
+export interface WPPostType {
+  slug: string;     // e.g. 'page', 'reviews'
+  name: string;
+  restBase: string; // Route segment under /wp/v2/, e.g. 'pages'
 }
 
 export interface WPPostHeader {
@@ -17,6 +54,17 @@ export interface WPPostHeader {
   link: string;
   slug: string;
   categories?: number[];
+  tags?: number[];
+  author?: number;
+  type?: string;     // Post type slug as reported by WP
+  restBase?: string; // Route it was listed from; every follow-up call uses the same one
+}
+
+// ID -> display name lookups for the dashboard facets
+export interface TaxonomyIndex {
+  categories: Record<number, string>;
+  tags: Record<number, string>;
+  authors: Record<number, string>;
 }
 
 export interface WPPostFull extends WPPostHeader {
@@ -25,6 +73,59 @@ export interface WPPostFull extends WPPostHeader {
   featured_media: number;
 }
 
+export type SeoPlugin = 'yoast' | 'rankmath' | 'aioseo' | 'none';
+
+// title/excerpt are native WP fields; seoTitle/metaDescription go to the SEO plugin; schema is embedded JSON-LD
+export type SeoField = 'title' | 'excerpt' | 'seoTitle' | 'metaDescription' | 'schema';
+
+// How a reviewed draft reaches WordPress
+export type PublishMode = 'update' | 'draft_revision' | 'pending' | 'schedule';
+
+// keep: re-send the original date; modified_only: send no date (WP bumps `modified` only); new_date: replace it
+export type DatePolicy = 'keep' | 'modified_only' | 'new_date';
+
+export interface PublishOptions {
+  mode: PublishMode;
+  scheduledAt?: string; // ISO timestamp, required for 'schedule'
+  datePolicy?: DatePolicy; // Ignored for 'schedule' and 'draft_revision'
+  newDate?: string; // ISO timestamp for 'new_date'; defaults to now
+  lastUpdatedNotice?: boolean; // Prepend a "Last updated" line to the content
+  seoFields?: SeoField[]; // Which AI outputs to write besides the content
+  featuredImage?: boolean; // Upload customImageUrl (or the first product image) and set featured_media
+}
+
+export interface PublishLogEntry extends PublishOptions {
+  at: string; // When the publish call was made
+  warnings?: string[]; // Non-fatal problems, e.g. SEO meta the site did not accept
+}
+
+// WordPress publishes a scheduled post that is not live yet by itself (status future). A live post would go
+// offline until the slot that way, so it stays published: its rewrite is saved as a draft revision and the
+// dashboard applies `content` in place with `options` once `at` has passed.
+export interface ScheduledPublish {
+  at: string; // ISO timestamp of the slot
+  content?: string; // Only for live posts
+  options?: PublishOptions; // Only for live posts; always mode 'update'
+}
+
+// Pre-publish copy of a post's editable fields (raw, not rendered), used for rollback
+export interface PostSnapshot {
+  id: string;
+  siteUrl: string;
+  postId: number;
+  takenAt: string; // ISO timestamp
+  reason: 'publish' | 'rollback'; // The action that was about to overwrite the post
+  title: string;
+  content: string;
+  excerpt: string;
+  date: string;
+  dateGmt?: string; // Absent on snapshots taken before status tracking, and on undated drafts
+  status?: string;  // WP post status at snapshot time (publish, future, draft, pending, private)
+  restBase?: string; // Post type route, 'posts' when absent
+  wpRevisionId?: number; // Latest WP revision at snapshot time, when revision tracking is on
+  offloaded?: boolean; // Content dropped to fit localStorage (pre-IndexedDB snapshots); rollback reads it from wpRevisionId
+}
+
 export interface PostHealth {
   id: number;
   score: number;
@@ -41,8 +142,14 @@ export interface PostHealth {
     lastUpdatedDayCount: number;
     informationGainScore: number;
   };
-  status: 'idle' | 'queued' | 'scanning' | 'optimizing' | 'review_pending' | 'published' | 'error';
+  // After review: published (rewrite is live), revision_saved (WP draft revision, live post unchanged),
+  // submitted (pending review in WP), scheduled (goes live at `scheduled.at`)
+  status: 'idle' | 'queued' | 'scanning' | 'optimizing' | 'review_pending' | 'published' | 'revision_saved' | 'submitted' | 'scheduled' | 'error';
+  scheduled?: ScheduledPublish;
   log?: string;
+  validationIssues?: AIValidationIssue[]; // Set when an AI step fails schema validation
+  publishLog?: PublishLogEntry[];
+  originalHtml?: string; // Rendered content as fetched, kept for the review diff
   draftHtml?: string;
   aiResult?: AIAnalysisResult;
   productOverrides?: Record<string, ProductOverride>;
@@ -54,6 +161,7 @@ export interface ProductOverride {
     title?: string;
     asin?: string;
     image?: string;
+    mediaId?: number; // WP attachment `image` was sideloaded to
     price?: string;
 }
 
@@ -86,6 +194,13 @@ export interface PAAData {
   link: string;
 }
 
+export interface PAACoverage {
+  question: string;
+  link: string;
+  answered: boolean;
+  faqIndex?: number; // Position in the generated FAQ list
+}
+
 export interface SerperResult {
   organics: ReferenceData[];
   paa: PAAData[];
@@ -101,6 +216,30 @@ export interface AmazonProduct {
   rating?: string;
   reviewCount?: string;
   isPrime?: boolean;
+  isSimulated?: boolean; // Demo-mode data: invented ASIN, price and ratings
+  isAvailable?: boolean; // PA-API returned at least one offer listing
+}
+
+export type AsinCheckStatus = 'valid' | 'mismatch' | 'unavailable' | 'not_found' | 'unverified' | 'error';
+
+// Result of resolving a user-supplied ASIN (override field or CSV mapping) through GetItems
+export interface AsinCheck {
+  asin: string;
+  status: AsinCheckStatus;
+  message?: string;
+  matchScore?: number; // Share of the product name's tokens found in Amazon's title (0-1)
+  checkedAt: string;
+}
+
+export interface AmazonMarketplace {
+  id: string;         // Country code, e.g. 'UK'
+  label: string;
+  host: string;       // Storefront, e.g. www.amazon.co.uk (also PA-API's Marketplace value)
+  apiHost: string;    // PA-API host, e.g. webservices.amazon.co.uk
+  region: string;     // AWS signing region for apiHost
+  currency: string;   // ISO 4217
+  locale: string;     // BCP 47, for number and currency formatting
+  language: string;   // PA-API LanguagesOfPreference value
 }
 
 export interface ProductDetection {
@@ -108,6 +247,7 @@ export interface ProductDetection {
   url: string;
   asin?: string;
   amazonData?: AmazonProduct; 
+  asinCheck?: AsinCheck;
 }
 
 // V2 Strategy Object from AI Step 1
@@ -126,6 +266,23 @@ export interface AIStrategy {
     products?: Array<{ name: string; context: string; recommended: boolean }>; // Multi-product support
 }
 
+export interface KeywordStat {
+  keyword: string;
+  isPrimary: boolean;
+  count: number;    // Phrase matches in the rendered body (stem-aware)
+  density: number;  // % of body words taken by this phrase
+  locations: { title: boolean; h2: boolean; firstParagraph: boolean; sgeSummary: boolean };
+}
+
+export interface KeywordCoverage {
+  used: number;
+  total: number;
+  missing: string[];
+  wordCount?: number;
+  keywords?: KeywordStat[];
+  wovenIn?: string[]; // Keywords added by the follow-up AI pass
+}
+
 export interface AIAnalysisResult {
   strategy: AIStrategy;
   newTitle: string;
@@ -139,22 +296,39 @@ export interface AIAnalysisResult {
   contentWithLinks: string; // The Final HTML body (Rendered)
   referencesHTML: string;
   detectedProducts: ProductDetection[];
-  keywordCoverage: { used: number; total: number; missing: string[] };
+  keywordCoverage: KeywordCoverage;
+  usage: AIUsageRecord[]; // One record per AI call, including repair retries
+  paaCoverage?: PAACoverage[]; // Which People Also Ask questions made it into the FAQ
 }
 
 export interface AIConfig {
   provider: AIProvider;
   apiKey: string;
   model: string;
+  maxTokens?: number; // Completion cap, clamped to the provider's ceiling
+  customBaseUrl?: string; // OpenAI-compatible endpoint, e.g. http://localhost:11434/v1
+  customJsonMode?: boolean; // Server honours response_format: json_object
+  customSystemPrompt?: boolean; // Server accepts a system role message
   concurrency?: number;
+  priceTable?: Record<string, ModelPrice>; // Per-model overrides of DEFAULT_PRICE_TABLE
+  budgetCapUsd?: number; // Queue pauses once the current batch has spent this much
+  weaveMissingKeywords?: boolean; // Extra AI pass that works missing keywords into the body
+  trackWpRevisions?: boolean; // Record the WP revision id alongside each pre-publish snapshot
+  datePolicy?: DatePolicy; // Default for the review screen's publish controls
+  lastUpdatedNotice?: boolean;
+  sideloadImagesOnPublish?: boolean; // Replace hotlinked product images with media library copies
   serperApiKey?: string;
   wpUrl?: string;
   wpUsername?: string;
   wpAppPassword?: string;
-  amazonAffiliateTag?: string;
+  amazonAffiliateTag?: string; // Fallback when the marketplace has no tag of its own
+  amazonMarketplace?: string; // Key of AMAZON_MARKETPLACES
+  amazonTags?: Record<string, string>; // Associate tag per marketplace id
   amazonAccessKey?: string;
   amazonSecretKey?: string;
-  amazonRegion?: string; 
+  amazonRegion?: string; // Legacy: superseded by amazonMarketplace, which implies the region
+  amazonApiEndpoint?: string; // PA-API relay or local mock server; requests are still signed for Amazon's host
+  amazonDemoMode?: boolean; // Use simulated product data even when credentials are set
   draftMode?: DraftMode; 
 }
 
@@ -173,9 +347,12 @@ export interface ProcessedItem {
   id: string;
   slug: string;
   status: 'pending' | 'processing' | 'completed' | 'error';
+  scheduledAt?: string; // Set while a scheduled publish is waiting for its slot
   decayScore?: number;
   errorMsg?: string;
   suggestion?: ContentUpdateSuggestion; 
+  publishLog?: PublishLogEntry[];
+  originalHtml?: string;
   draftHtml?: string;
   aiResult?: AIAnalysisResult;
   productOverrides?: Record<string, ProductOverride>;
@@ -200,3 +377,79 @@ export interface AnalyzedUrl extends SitemapUrl {
   reasons: string[];
   manualMapping?: ManualMapping;
 }
+
+// --- WORKSPACES ---
+export interface WorkspaceHealthSummary {
+  posts: number;
+  avgScore: number;
+  avgAeo: number;
+  weak: number;      // Posts scoring below 50
+  reviewPending: number;
+  published: number;
+  capturedAt: string;
+}
+
+// One managed site: its connection, its own AI/affiliate settings and the last known health
+export interface Workspace {
+  id: string;
+  name: string;
+  connection: WPConnection;
+  aiConfig: AIConfig;
+  health?: WorkspaceHealthSummary;
+  lastOpenedAt: string;
+}
+
+// --- AFFILIATE AUDIT ---
+export type AffiliateIssueKind = 'dead' | 'out_of_stock' | 'untagged' | 'wrong_tag' | 'unresolved_shortlink';
+
+export interface AffiliateLink {
+  href: string;
+  resolvedUrl?: string; // Final URL behind a shortlink
+  anchorText: string;
+  asin?: string;
+  tag?: string;
+  marketplaceId?: string; // Key of AMAZON_MARKETPLACES, when the host is a known storefront
+}
+
+export interface AffiliateIssue {
+  postId: number;
+  postTitle: string;
+  postUrl: string;
+  link: AffiliateLink;
+  kind: AffiliateIssueKind;
+  detail: string;
+  price?: string;
+  potential: number; // Estimated traffic potential of the post (0-100); the report is ranked by it
+}
+
+export interface AffiliateAuditReport {
+  generatedAt: string;
+  postsScanned: number;
+  postsFailed: number;
+  linksFound: number;
+  asinsChecked: number;
+  lookupSkipped?: string; // Why availability was not checked (demo mode, no credentials)
+  skippedMarketplaces?: { marketplaceId: string; asins: number; reason: string }[]; // Storefronts whose ASINs were not looked up
+  issues: AffiliateIssue[];
+}
+
+// --- PRODUCT REPLACEMENT ---
+// Swap one product for another across the site. The old product is matched by ASIN, by name, or both.
+export interface ProductReplacement {
+  oldAsin?: string;
+  oldName?: string;
+  newAsin: string;
+  newName?: string; // Required to rewrite text mentions; product boxes fall back to Amazon's title
+}
+
+export interface ReplacementPreview {
+  postId: number;
+  postTitle: string;
+  postUrl: string;
+  source: 'live' | 'draft'; // 'draft' when the post already had an unpublished draft
+  originalHtml: string; // Rendered HTML, for the preview diff
+  updatedHtml: string;
+  originalMarkup: string; // Stored block markup; what the review draft is built from
+  updatedMarkup: string;
+  changes: { links: number; boxes: number; mentions: number };
+}
@@ -37,7 +37,8 @@ self.onmessage = (e: MessageEvent) => {
 
     while ((match = linkRegex.exec(content)) !== null) {
         const url = match[1];
-        if (url.includes('amazon.com') || url.includes('amzn.to')) affiliate++;
+        // Any Amazon storefront (amazon.de, amazon.co.uk, amazon.com.au, ...) or its short links
+        if (/\bamazon\.(?:com|co\.[a-z]{2}|com\.[a-z]{2}|[a-z]{2})\b|\bamzn\.(?:to|eu)\//i.test(url)) affiliate++;
         else if (url.includes(cleanSite) || url.startsWith('/')) internal++;
         else if (url.startsWith('http')) external++;
     }
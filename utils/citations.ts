@@ -0,0 +1,42 @@
+import { ReferenceData } from '../types';
+
+// --- CITATION SUBSYSTEM ---
+// The AI cites sources inline as [[CITE:n]], where n indexes the SOURCES list it was given.
+// Placeholders resolve to footnotes numbered by first appearance, so the reference list
+// only contains sources the draft actually uses.
+
+const CITE_REGEX = /\[\[CITE:(\d+)\]\]/g;
+
+const escapeHtml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&#39;');
+
+export const resolveCitations = (html: string, sources: ReferenceData[]): { html: string; cited: ReferenceData[] } => {
+  const cited: ReferenceData[] = [];
+  const footnoteBySource = new Map<number, number>();
+
+  const resolved = html.replace(CITE_REGEX, (_, rawIndex: string) => {
+    const sourceIndex = parseInt(rawIndex, 10);
+    const source = sources[sourceIndex];
+    if (!source) return ''; // Hallucinated index: drop silently rather than render a dead footnote
+
+    if (!footnoteBySource.has(sourceIndex)) {
+      cited.push(source);
+      footnoteBySource.set(sourceIndex, cited.length);
+    }
+    const n = footnoteBySource.get(sourceIndex)!;
+    return `<sup class="sota-cite"><a href="#sota-ref-${n}">[${n}]</a></sup>`;
+  });
+
+  return { html: resolved, cited };
+};
+
+export const buildReferencesHtml = (cited: ReferenceData[]): string => {
+  if (cited.length === 0) return '';
+  const items = cited.map((ref, i) =>
+    `<li id="sota-ref-${i + 1}" style="margin-bottom:6px;"><a href="${escapeHtml(ref.link)}" target="_blank" rel="nofollow noopener">${escapeHtml(ref.title)}</a></li>`
+  ).join('');
+  return `<div class="sota-references" style="margin-top: 40px; font-size: 14px;"><h2>References</h2><ol>${items}</ol></div>`;
+};
+
+export const buildCitationSchema = (cited: ReferenceData[]) =>
+  cited.map(ref => ({ "@type": "CreativeWork", "name": ref.title, "url": ref.link }));
@@ -0,0 +1,47 @@
+// @vitest-environment happy-dom
+import { describe, it, expect } from 'vitest';
+import { diffWords, structuralDiff } from './diff';
+
+describe('diffWords', () => {
+  it('marks a replaced word and keeps the rest', () => {
+    expect(diffWords('<p>the quick brown fox</p>', '<p>the slow brown fox</p>')).toEqual([
+      { type: 'equal', text: 'the' },
+      { type: 'delete', text: 'quick' },
+      { type: 'insert', text: 'slow' },
+      { type: 'equal', text: 'brown fox\n' }
+    ]);
+  });
+
+  it('reports identical content as a single equal run', () => {
+    const ops = diffWords('<p>same text here</p>', '<p>same text here</p>');
+    expect(ops).toHaveLength(1);
+    expect(ops[0].type).toBe('equal');
+  });
+
+  it('handles additions at the end', () => {
+    const ops = diffWords('<p>alpha beta</p>', '<p>alpha beta gamma delta</p>');
+    expect(ops.filter(op => op.type === 'insert').map(op => op.text).join(' ')).toContain('gamma delta');
+    expect(ops.some(op => op.type === 'delete')).toBe(false);
+  });
+
+  it('ignores markup-only changes', () => {
+    const ops = diffWords('<p>bold claim</p>', '<p><strong>bold</strong> claim</p>');
+    expect(ops.every(op => op.type === 'equal')).toBe(true);
+  });
+});
+
+describe('structuralDiff', () => {
+  it('compares headings, links and product references', () => {
+    const before = '<h2>Old Pick</h2><p>We liked the Widget.</p><a href="https://www.amazon.com/dp/B000000001">buy</a>';
+    const after = '<h2>New Pick</h2><p>We liked the Widget.</p><a href="https://www.amazon.com/dp/B000000002">buy</a>';
+    const diff = structuralDiff(before, after, ['Widget']);
+    expect(diff.headings).toEqual({ removed: ['H2 · Old Pick'], added: ['H2 · New Pick'], kept: [] });
+    expect(diff.links.removed).toEqual(['https://www.amazon.com/dp/B000000001']);
+    expect(diff.products).toEqual({ removed: ['ASIN B000000001'], added: ['ASIN B000000002'], kept: ['Widget'] });
+  });
+
+  it('skips in-page anchors', () => {
+    const diff = structuralDiff('<a href="#faq">FAQ</a>', '<a href="#faq">FAQ</a>', []);
+    expect(diff.links).toEqual({ removed: [], added: [], kept: [] });
+  });
+});
@@ -0,0 +1,137 @@
+import { stripHtmlPreservingStructure } from './helpers';
+
+// --- WORD DIFF (Myers O(ND)) ---
+export interface DiffOp {
+  type: 'equal' | 'insert' | 'delete';
+  text: string;
+}
+
+// Past this many edits the rewrite is effectively new content; a full replace is more readable anyway
+const MAX_EDIT_DISTANCE = 4000;
+
+// Words plus paragraph breaks, so the diff keeps the original block structure
+const tokenizeWords = (html: string): string[] => stripHtmlPreservingStructure(html).match(/\n+|[^\s]+/g) || [];
+
+const myers = (a: string[], b: string[]): DiffOp[] | null => {
+  const n = a.length, m = b.length, max = n + m, offset = max;
+  const v = new Int32Array(2 * max + 2);
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= max; d++) {
+    if (d > MAX_EDIT_DISTANCE) return null;
+    trace.push(v.slice(offset - d, offset + d + 1)); // Snapshot of step d-1, indexed k + d
+    for (let k = -d; k <= d; k += 2) {
+      let x = (k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])) ? v[offset + k + 1] : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) { x++; y++; }
+      v[offset + k] = x;
+      if (x >= n && y >= m) return backtrack(trace, a, b, d);
+    }
+  }
+  return null;
+};
+
+const backtrack = (trace: Int32Array[], a: string[], b: string[], distance: number): DiffOp[] => {
+  const ops: DiffOp[] = [];
+  let x = a.length, y = b.length;
+  for (let d = distance; d > 0; d--) {
+    const prev = trace[d];
+    const at = (k: number) => prev[k + d];
+    const k = x - y;
+    const prevK = (k === -d || (k !== d && at(k - 1) < at(k + 1))) ? k + 1 : k - 1;
+    const prevX = at(prevK);
+    const prevY = prevX - prevK;
+    while (x > prevX && y > prevY) { ops.push({ type: 'equal', text: a[--x] }); y--; }
+    if (x === prevX) ops.push({ type: 'insert', text: b[--y] });
+    else ops.push({ type: 'delete', text: a[--x] });
+  }
+  while (x > 0 && y > 0) { ops.push({ type: 'equal', text: a[--x] }); y--; }
+  return ops.reverse();
+};
+
+// Joins runs of the same op type so the view renders a handful of spans instead of one per word
+const mergeOps = (ops: DiffOp[]): DiffOp[] => ops.reduce<DiffOp[]>((acc, op) => {
+  const last = acc[acc.length - 1];
+  if (last && last.type === op.type) last.text += (op.text.startsWith('\n') || last.text.endsWith('\n') ? '' : ' ') + op.text;
+  else acc.push({ ...op });
+  return acc;
+}, []);
+
+export const diffWords = (originalHtml: string, draftHtml: string): DiffOp[] => {
+  const a = tokenizeWords(originalHtml);
+  const b = tokenizeWords(draftHtml);
+
+  // Trim the shared head and tail first; rewrites often keep the intro or footer intact
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length, endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) { endA--; endB--; }
+
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+  const middle = myers(midA, midB) || [
+    ...midA.map(text => ({ type: 'delete' as const, text })),
+    ...midB.map(text => ({ type: 'insert' as const, text }))
+  ];
+
+  return mergeOps([
+    ...a.slice(0, start).map(text => ({ type: 'equal' as const, text })),
+    ...middle,
+    ...a.slice(endA).map(text => ({ type: 'equal' as const, text }))
+  ]);
+};
+
+// --- STRUCTURAL DIFF ---
+export interface ListDiff {
+  removed: string[];
+  added: string[];
+  kept: string[];
+}
+
+export interface StructuralDiff {
+  headings: ListDiff;
+  links: ListDiff;
+  products: ListDiff;
+}
+
+const compareLists = (before: string[], after: string[]): ListDiff => {
+  const key = (s: string) => s.toLowerCase().replace(/\s+/g, ' ').trim();
+  const afterKeys = new Set(after.map(key));
+  const beforeKeys = new Set(before.map(key));
+  const unique = (list: string[]) => list.filter((s, i) => list.findIndex(o => key(o) === key(s)) === i);
+  return {
+    removed: unique(before.filter(s => !afterKeys.has(key(s)))),
+    added: unique(after.filter(s => !beforeKeys.has(key(s)))),
+    kept: unique(before.filter(s => afterKeys.has(key(s))))
+  };
+};
+
+const extractStructure = (html: string, productNames: string[]) => {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  const headings = Array.from(doc.querySelectorAll('h1, h2, h3, h4'))
+    .map(h => `${h.tagName} · ${(h.textContent || '').trim()}`)
+    .filter(h => !h.endsWith('· '));
+  const hrefs = Array.from(doc.querySelectorAll('a[href]'))
+    .map(a => a.getAttribute('href') || '')
+    .filter(href => href && !href.startsWith('#'));
+
+  const text = (doc.body.textContent || '').toLowerCase();
+  const asins = hrefs
+    .map(href => href.match(/\/(?:dp|gp\/product)\/([A-Z0-9]{10})/i)?.[1])
+    .filter((asin): asin is string => !!asin)
+    .map(asin => `ASIN ${asin.toUpperCase()}`);
+  const mentions = productNames.filter(name => name && text.includes(name.toLowerCase()));
+
+  return { headings, links: hrefs, products: [...mentions, ...asins] };
+};
+
+// `productNames` comes from the AI analysis, so mentions are checked against the same list on both sides
+export const structuralDiff = (originalHtml: string, draftHtml: string, productNames: string[]): StructuralDiff => {
+  const before = extractStructure(originalHtml, productNames);
+  const after = extractStructure(draftHtml, productNames);
+  return {
+    headings: compareLists(before.headings, after.headings),
+    links: compareLists(before.links, after.links),
+    products: compareLists(before.products, after.products)
+  };
+};
@@ -1,5 +1,6 @@
 
-import { PostHealth, WPPostFull, AmazonProduct, ProductDetection, ProductOverride } from '../types';
+import { PostHealth, WPPostFull, AmazonProduct, ProductDetection, ProductOverride, AIConfig, AmazonMarketplace } from '../types';
+import { AMAZON_MARKETPLACES, DEFAULT_MARKETPLACE } from '../constants';
 
 export const tokenize = (text: string): Set<string> => {
   const stopWords = new Set(['the', 'is', 'at', 'which', 'on', 'and', 'a', 'an', 'in', 'to', 'for', 'of', 'with', 'by']);
@@ -78,23 +79,44 @@ export const calculateScore = (metrics: PostHealth['metrics']): { seo: number, a
   return { seo: Math.max(0, seo), aeo: Math.max(0, aeo) };
 };
 
+// Template tokens the renderer resolves later ([[PRODUCT_BOX:0]], [[LINK:12]], ...)
+export const extractPlaceholders = (html: string): string[] => html.match(/\[\[[A-Z_]+:[^\]]+\]\]/g) || [];
+
 // --- SOTA Monetization Helpers ---
 
 export const isValidAsin = (text: string): boolean => {
   return /^[B0-9][A-Z0-9]{9}$/.test(text.toUpperCase());
 };
 
-export const constructAmazonUrl = (asin: string, tag?: string): string => {
+// Configs saved before marketplaces existed only carry an AWS region; map it to that region's primary store
+const LEGACY_REGION_MARKETPLACE: Record<string, string> = { 'us-east-1': 'US', 'eu-west-1': 'UK', 'us-west-2': 'JP' };
+
+export const resolveMarketplace = (config: Pick<AIConfig, 'amazonMarketplace' | 'amazonRegion'>): AmazonMarketplace =>
+  AMAZON_MARKETPLACES[config.amazonMarketplace || LEGACY_REGION_MARKETPLACE[config.amazonRegion || ''] || DEFAULT_MARKETPLACE]
+  || AMAZON_MARKETPLACES[DEFAULT_MARKETPLACE];
+
+export const resolveAffiliateTag = (config: Pick<AIConfig, 'amazonMarketplace' | 'amazonRegion' | 'amazonTags' | 'amazonAffiliateTag'>): string =>
+  config.amazonTags?.[resolveMarketplace(config).id] || config.amazonAffiliateTag || '';
+
+export const formatPrice = (amount: number, marketplace: AmazonMarketplace): string =>
+  new Intl.NumberFormat(marketplace.locale, { style: 'currency', currency: marketplace.currency }).format(amount);
+
+export const constructAmazonUrl = (asin: string, tag?: string, marketplace: AmazonMarketplace = AMAZON_MARKETPLACES[DEFAULT_MARKETPLACE]): string => {
   const cleanAsin = asin.toUpperCase().trim();
   const affiliateTag = tag ? `?tag=${tag}` : '';
-  return `https://www.amazon.com/dp/${cleanAsin}${affiliateTag}`;
+  return `https://${marketplace.host}/dp/${cleanAsin}${affiliateTag}`;
 };
 
+export const constructAmazonSearchUrl = (query: string, tag?: string, marketplace: AmazonMarketplace = AMAZON_MARKETPLACES[DEFAULT_MARKETPLACE]): string =>
+  `https://${marketplace.host}/s?k=${encodeURIComponent(query)}${tag ? `&tag=${tag}` : ''}`;
+
 export const generateProductBoxHTML = (
     productName: string, 
     amazonData: AmazonProduct | null | undefined, 
     manualOverride: ProductOverride | undefined,
-    affiliateTag: string
+    affiliateTag: string,
+    boxIndex?: number, // Tags the card so edited HTML can be mapped back to [[PRODUCT_BOX:n]]
+    marketplace: AmazonMarketplace = AMAZON_MARKETPLACES[DEFAULT_MARKETPLACE]
 ): string => {
     const year = new Date().getFullYear() + 1;
     
@@ -109,11 +131,11 @@ export const generateProductBoxHTML = (
     let url = '#';
     // 1. Manual ASIN
     if (manualOverride?.asin && isValidAsin(manualOverride.asin)) {
-         url = `https://www.amazon.com/dp/${manualOverride.asin.trim().toUpperCase()}?tag=${affiliateTag}`;
+         url = constructAmazonUrl(manualOverride.asin, affiliateTag, marketplace);
     } 
     // 2. Detected Amazon Data ASIN
     else if (amazonData?.asin && isValidAsin(amazonData.asin)) {
-         url = `https://www.amazon.com/dp/${amazonData.asin}?tag=${affiliateTag}`;
+         url = constructAmazonUrl(amazonData.asin, affiliateTag, marketplace);
     }
     // 3. Detected URL
     else if (amazonData?.url) {
@@ -121,12 +143,12 @@ export const generateProductBoxHTML = (
     } 
     // 4. Fallback Search
     else {
-         url = `https://www.amazon.com/s?k=${encodeURIComponent(name)}&tag=${affiliateTag}`;
+         url = constructAmazonSearchUrl(name, affiliateTag, marketplace);
     }
 
     // Inline CSS for maximum WordPress Compatibility (block themes, classic editor, etc.)
     return `
-    <div class='sota-product-card' style='border: 1px solid #e2e8f0; border-radius: 12px; overflow: hidden; background: #ffffff; margin: 40px 0; box-shadow: 0 10px 15px -3px rgba(0, 0, 0, 0.1), 0 4px 6px -2px rgba(0, 0, 0, 0.05); font-family: sans-serif;'>
+    <div class='sota-product-card'${boxIndex !== undefined ? ` data-sota-box='${boxIndex}'` : ''} style='border: 1px solid #e2e8f0; border-radius: 12px; overflow: hidden; background: #ffffff; margin: 40px 0; box-shadow: 0 10px 15px -3px rgba(0, 0, 0, 0.1), 0 4px 6px -2px rgba(0, 0, 0, 0.05); font-family: sans-serif;'>
        <div style='background: #1e293b; padding: 12px 20px; display: flex; justify-content: space-between; align-items: center;'>
           <div style='font-weight: 700; text-transform: uppercase; font-size: 14px; letter-spacing: 0.05em; color: #ffffff;'>Top Choice ${year}</div>
           <div style='background: #22c55e; color: #022c22; padding: 4px 12px; border-radius: 99px; font-size: 12px; font-weight: 800;'>${rating}/10</div>
@@ -158,14 +180,15 @@ export const renderFinalHtml = (
     template: string, 
     detectedProducts: ProductDetection[], 
     overrides: Record<string, ProductOverride> | undefined,
-    affiliateTag?: string
+    affiliateTag?: string,
+    marketplace?: AmazonMarketplace
 ): string => {
     let finalBody = template;
     const tag = affiliateTag || 'tag-20';
 
     detectedProducts.forEach((prod, idx) => {
         const override = overrides?.[prod.name];
-        const boxHtml = generateProductBoxHTML(prod.name, prod.amazonData, override, tag);
+        const boxHtml = generateProductBoxHTML(prod.name, prod.amazonData, override, tag, idx, marketplace);
         
         const placeholder = `[[PRODUCT_BOX:${idx}]]`;
         
@@ -192,3 +215,22 @@ export const renderFinalHtml = (
 
     return finalBody;
 };
+
+// Inverse of renderFinalHtml for edited drafts: rendered product cards collapse back into their
+// placeholders so a later override change can re-render them without losing manual edits.
+export const templateFromRenderedHtml = (html: string): string => {
+    const doc = new DOMParser().parseFromString(html, 'text/html');
+    doc.querySelectorAll('[data-sota-box]').forEach(card => {
+        card.replaceWith(doc.createTextNode(`[[PRODUCT_BOX:${card.getAttribute('data-sota-box')}]]`));
+    });
+    doc.querySelectorAll('[contenteditable]').forEach(el => el.removeAttribute('contenteditable'));
+    return doc.body.innerHTML;
+};
+
+// Idempotent: an existing notice is replaced rather than stacked on republish
+export const applyLastUpdatedNotice = (html: string, date: Date): string => {
+    const label = date.toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' });
+    const notice = `<p class="sota-last-updated"><em>Last updated: <time datetime="${date.toISOString()}">${label}</time></em></p>`;
+    const existing = /<p class="sota-last-updated">[\s\S]*?<\/p>\s*/;
+    return existing.test(html) ? html.replace(existing, notice + '\n') : notice + '\n' + html;
+};
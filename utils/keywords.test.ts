@@ -0,0 +1,56 @@
+// @vitest-environment happy-dom
+import { describe, it, expect } from 'vitest';
+import { stem, stemTokens, countPhrase, analyzeKeywordCoverage } from './keywords';
+
+describe('stem', () => {
+  it.each([
+    ['batteries', 'battery'],
+    ['running', 'run'],
+    ['stopped', 'stop'],
+    ['falling', 'fall'],
+    ['boxes', 'box'],
+    ['classes', 'class'],
+    ['shoes', 'shoe'],
+    ['press', 'press'],
+    ['status', 'status'],
+    ['bus', 'bus']
+  ])('%s -> %s', (word, expected) => {
+    expect(stem(word)).toBe(expected);
+  });
+
+  it('matches singular and plural phrases', () => {
+    expect(stemTokens('Running Shoes')).toEqual(stemTokens('running shoe'));
+  });
+});
+
+describe('countPhrase', () => {
+  it('counts contiguous, non-overlapping matches', () => {
+    expect(countPhrase(['a', 'a', 'a', 'a'], ['a', 'a'])).toBe(2);
+    expect(countPhrase(stemTokens('best running shoes and running gear'), stemTokens('running shoe'))).toBe(1);
+  });
+
+  it('ignores scattered words', () => {
+    expect(countPhrase(['running', 'fast', 'shoe'], ['running', 'shoe'])).toBe(0);
+  });
+
+  it('returns zero for empty or oversized phrases', () => {
+    expect(countPhrase(['a'], [])).toBe(0);
+    expect(countPhrase(['a'], ['a', 'b'])).toBe(0);
+  });
+});
+
+describe('analyzeKeywordCoverage', () => {
+  it('reports counts and placements, ignoring product cards', () => {
+    const coverage = analyzeKeywordCoverage({
+      title: 'Best Running Shoes',
+      bodyHtml: '<p>These running shoes last.</p><h2>Trail running shoe picks</h2><div class="sota-product-card">running shoes running shoes</div>',
+      sgeSummaryHtml: '<p>Short answer.</p>'
+    }, 'running shoes', ['trail', 'carbon plate']);
+
+    const primary = coverage.keywords.find(k => k.isPrimary)!;
+    expect(primary.count).toBe(2);
+    expect(primary.locations).toEqual({ title: true, h2: true, firstParagraph: true, sgeSummary: false });
+    expect(coverage.missing).toEqual(['carbon plate']);
+    expect(coverage).toMatchObject({ used: 2, total: 3 });
+  });
+});
@@ -0,0 +1,90 @@
+import { KeywordCoverage, KeywordStat } from '../types';
+
+// "runn" -> "run", "stopp" -> "stop" (but keep "fall", "press")
+const undouble = (w: string): string => /([^aeioulsz])\1$/.test(w) ? w.slice(0, -1) : w;
+
+// --- LIGHTWEIGHT STEMMER ---
+// Collapses common English inflections so "running shoes" matches "running shoe" and
+// "batteries" matches "battery". Deliberately conservative: no stemming below 4 chars.
+export const stem = (word: string): string => {
+  let w = word.toLowerCase();
+  if (w.length < 4) return w;
+  if (w.endsWith('ies') && w.length > 4) return w.slice(0, -3) + 'y';
+  if (w.endsWith('sses')) return w.slice(0, -2);
+  if (/(ches|shes|xes|zes)$/.test(w)) return w.slice(0, -2);
+  if (w.endsWith('s') && !w.endsWith('ss') && !w.endsWith('us') && !w.endsWith('is')) w = w.slice(0, -1);
+  if (w.endsWith('ing') && w.length > 5) return undouble(w.slice(0, -3));
+  if (w.endsWith('ed') && w.length > 4) return undouble(w.slice(0, -2));
+  return w;
+};
+
+export const stemTokens = (text: string): string[] =>
+  text.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean).map(stem);
+
+// Counts contiguous occurrences of `phrase` inside `tokens` (phrase-aware, not bag-of-words)
+export const countPhrase = (tokens: string[], phrase: string[]): number => {
+  if (phrase.length === 0 || phrase.length > tokens.length) return 0;
+  let count = 0;
+  for (let i = 0; i <= tokens.length - phrase.length; i++) {
+    let match = true;
+    for (let j = 0; j < phrase.length; j++) {
+      if (tokens[i + j] !== phrase[j]) { match = false; break; }
+    }
+    if (match) { count++; i += phrase.length - 1; }
+  }
+  return count;
+};
+
+const textOf = (html: string): string => new DOMParser().parseFromString(html, 'text/html').body.textContent || '';
+
+export const analyzeKeywordCoverage = (
+  content: { title: string; bodyHtml: string; sgeSummaryHtml: string },
+  primaryKeyword: string,
+  secondaryKeywords: string[]
+): KeywordCoverage => {
+  const doc = new DOMParser().parseFromString(content.bodyHtml, 'text/html');
+  // Product cards repeat product names; they should not count as editorial keyword usage
+  doc.querySelectorAll('.sota-product-card').forEach(el => el.remove());
+
+  const bodyTokens = stemTokens(doc.body.textContent || '');
+  const titleTokens = stemTokens(content.title);
+  const sgeTokens = stemTokens(textOf(content.sgeSummaryHtml));
+  const h2Tokens = Array.from(doc.querySelectorAll('h2')).map(h => stemTokens(h.textContent || ''));
+  const firstParagraph = Array.from(doc.querySelectorAll('p')).find(p => (p.textContent || '').trim().length > 0);
+  const firstParagraphTokens = stemTokens(firstParagraph?.textContent || '');
+
+  const seen = new Set<string>();
+  const keywords = [primaryKeyword, ...secondaryKeywords]
+    .map(k => k.trim())
+    .filter(k => {
+      const key = stemTokens(k).join(' ');
+      if (!key || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+
+  const stats: KeywordStat[] = keywords.map(keyword => {
+    const phrase = stemTokens(keyword);
+    const count = countPhrase(bodyTokens, phrase);
+    return {
+      keyword,
+      isPrimary: keyword === primaryKeyword.trim(),
+      count,
+      density: bodyTokens.length > 0 ? (count * phrase.length / bodyTokens.length) * 100 : 0,
+      locations: {
+        title: countPhrase(titleTokens, phrase) > 0,
+        h2: h2Tokens.some(tokens => countPhrase(tokens, phrase) > 0),
+        firstParagraph: countPhrase(firstParagraphTokens, phrase) > 0,
+        sgeSummary: countPhrase(sgeTokens, phrase) > 0
+      }
+    };
+  });
+
+  return {
+    used: stats.filter(s => s.count > 0).length,
+    total: stats.length,
+    missing: stats.filter(s => s.count === 0).map(s => s.keyword),
+    wordCount: bodyTokens.length,
+    keywords: stats
+  };
+};
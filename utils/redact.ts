@@ -0,0 +1,68 @@
+// --- SECRET REDACTION ---
+// Known secrets are masked by exact value; the patterns catch credentials we were never told about
+// (keys echoed back by a provider error, auth headers in a logged request).
+const MIN_SECRET_LENGTH = 6;
+const MASK = '[redacted]';
+
+const secrets = new Set<string>();
+
+const PATTERNS: [RegExp, string][] = [
+  [/\b(Bearer|Basic)\s+[A-Za-z0-9._~+/=-]{8,}/g, `$1 ${MASK}`],
+  [/\bsk-(?:ant-)?[A-Za-z0-9_-]{10,}/g, MASK],
+  [/\bAIza[0-9A-Za-z_-]{20,}/g, MASK],
+  [/([?&](?:key|api_key|apikey|access_token)=)[^&\s"']+/gi, `$1${MASK}`]
+];
+
+export const registerSecret = (value?: string | null): void => {
+  const trimmed = value?.trim();
+  if (!trimmed || trimmed.length < MIN_SECRET_LENGTH) return;
+  secrets.add(trimmed);
+  // WP app passwords are displayed with spaces but often pasted without them
+  if (/\s/.test(trimmed)) secrets.add(trimmed.replace(/\s+/g, ''));
+};
+
+const escapeRegExp = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+export const redact = (text: string): string => {
+  if (!text) return text;
+  let out = text;
+  // Longest first, so a secret containing another is masked whole
+  [...secrets].sort((a, b) => b.length - a.length).forEach(secret => {
+    out = out.replace(new RegExp(escapeRegExp(secret), 'g'), MASK);
+  });
+  PATTERNS.forEach(([pattern, replacement]) => { out = out.replace(pattern, replacement); });
+  return out;
+};
+
+export const redactError = (e: unknown): string => redact(e instanceof Error ? e.message : String(e));
+
+const redactArg = (arg: unknown): unknown => {
+  if (typeof arg === 'string') return redact(arg);
+  if (arg instanceof Error) {
+    const copy = new Error(redact(arg.message));
+    copy.name = arg.name;
+    copy.stack = arg.stack ? redact(arg.stack) : undefined;
+    return copy;
+  }
+  if (arg && typeof arg === 'object') {
+    try {
+      const json = JSON.stringify(arg);
+      const masked = redact(json);
+      return masked === json ? arg : JSON.parse(masked);
+    } catch (e) {
+      return arg; // Circular or non-serializable; leave as is
+    }
+  }
+  return arg;
+};
+
+let consolePatched = false;
+
+export const installConsoleRedaction = (): void => {
+  if (consolePatched || typeof console === 'undefined') return;
+  consolePatched = true;
+  (['log', 'info', 'warn', 'error', 'debug'] as const).forEach(level => {
+    const original = console[level].bind(console);
+    console[level] = (...args: unknown[]) => original(...args.map(redactArg));
+  });
+};
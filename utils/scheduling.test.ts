@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { spreadSchedule } from './scheduling';
+
+// Local-time dates: spreadSchedule works in the browser's zone
+const at = (day: number, hour = 0, minute = 0) => new Date(2026, 0, day, hour, minute);
+
+describe('spreadSchedule', () => {
+  it('returns nothing for an empty batch', () => {
+    expect(spreadSchedule(0, { start: at(5), end: at(6), dailyStartHour: 9, dailyEndHour: 17 })).toEqual([]);
+  });
+
+  it('centres evenly spaced slots inside the daily hours', () => {
+    const slots = spreadSchedule(4, { start: at(5), end: at(6), dailyStartHour: 9, dailyEndHour: 17 });
+    expect(slots.map(d => d.getHours())).toEqual([10, 12, 14, 16]);
+    expect(slots.every(d => d.getMinutes() === 0 && d.getDate() === 5)).toBe(true);
+  });
+
+  it('clips the first day to the window start', () => {
+    const slots = spreadSchedule(1, { start: at(5, 13), end: at(5, 17), dailyStartHour: 9, dailyEndHour: 17 });
+    expect(slots[0]).toEqual(at(5, 15));
+  });
+
+  it('skips weekends when asked', () => {
+    // 9 Jan 2026 is a Friday; the window runs to Tuesday midnight
+    const slots = spreadSchedule(6, { start: at(9), end: at(13), dailyStartHour: 9, dailyEndHour: 17, skipWeekends: true });
+    expect(slots).toHaveLength(6);
+    expect(slots.every(d => d.getDay() !== 0 && d.getDay() !== 6)).toBe(true);
+    expect(slots.every(d => d.getHours() >= 9 && d.getHours() < 17)).toBe(true);
+  });
+
+  it('keeps slots in order and on whole minutes', () => {
+    const slots = spreadSchedule(7, { start: at(5), end: at(8), dailyStartHour: 8, dailyEndHour: 20 });
+    slots.forEach((slot, i) => {
+      expect(slot.getSeconds()).toBe(0);
+      if (i > 0) expect(slot.getTime()).toBeGreaterThan(slots[i - 1].getTime());
+    });
+  });
+
+  it('rejects inverted daily hours', () => {
+    expect(() => spreadSchedule(1, { start: at(5), end: at(6), dailyStartHour: 17, dailyEndHour: 9 })).toThrow('Daily end hour');
+  });
+
+  it('rejects a window with less than a minute per post', () => {
+    expect(() => spreadSchedule(120, { start: at(5, 9), end: at(5, 10), dailyStartHour: 9, dailyEndHour: 17 })).toThrow('too short');
+  });
+});
@@ -0,0 +1,52 @@
+// --- BATCH SCHEDULING ---
+// Spreads a batch of publishes across a calendar window so search engines see a steady trickle
+// of updates instead of one burst.
+
+export interface ScheduleWindow {
+  start: Date;
+  end: Date;
+  dailyStartHour: number; // Local hour, inclusive (0-23)
+  dailyEndHour: number;   // Local hour, exclusive (1-24)
+  skipWeekends?: boolean;
+}
+
+const MINUTE = 60 * 1000;
+
+// Publishable minute ranges inside the window, clipped to the daily hours
+const openIntervals = (window: ScheduleWindow): [number, number][] => {
+  const intervals: [number, number][] = [];
+  const day = new Date(window.start);
+  day.setHours(0, 0, 0, 0);
+  while (day.getTime() <= window.end.getTime()) {
+    const weekday = day.getDay();
+    if (!(window.skipWeekends && (weekday === 0 || weekday === 6))) {
+      const open = new Date(day); open.setHours(window.dailyStartHour, 0, 0, 0);
+      const close = new Date(day); close.setHours(window.dailyEndHour, 0, 0, 0);
+      const from = Math.max(open.getTime(), window.start.getTime());
+      const to = Math.min(close.getTime(), window.end.getTime());
+      if (to > from) intervals.push([from, to]);
+    }
+    day.setDate(day.getDate() + 1);
+  }
+  return intervals;
+};
+
+// Evenly spaced slots (rounded to the minute), placed at the centre of each share of open time
+export const spreadSchedule = (count: number, window: ScheduleWindow): Date[] => {
+  if (count <= 0) return [];
+  if (window.dailyEndHour <= window.dailyStartHour) throw new Error('Daily end hour must be after the start hour.');
+  const intervals = openIntervals(window);
+  const total = intervals.reduce((sum, [from, to]) => sum + (to - from), 0);
+  if (total < count * MINUTE) throw new Error('Schedule window is too short for this many posts.');
+
+  const step = total / count;
+  return Array.from({ length: count }, (_, i) => {
+    let offset = step * i + step / 2;
+    for (const [from, to] of intervals) {
+      if (offset < to - from) return new Date(Math.floor((from + offset) / MINUTE) * MINUTE);
+      offset -= to - from;
+    }
+    const [, lastEnd] = intervals[intervals.length - 1];
+    return new Date(lastEnd - MINUTE);
+  });
+};
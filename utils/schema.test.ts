@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { string, number, boolean, array, object, optional, refine, formatIssues, AIValidationError } from './schema';
+
+describe('schema combinators', () => {
+  it('string coerces numbers and enforces a minimum length', () => {
+    expect(string().parse(99, 'price')).toEqual({ ok: true, value: '99' });
+    expect(string({ min: 1 }).parse('  ', 'name')).toEqual({ ok: false, issues: [{ path: 'name', message: 'expected non-empty string' }] });
+    expect(string().parse(null, '')).toEqual({ ok: false, issues: [{ path: '$', message: 'expected string, got null' }] });
+  });
+
+  it('number accepts numeric strings and checks bounds', () => {
+    expect(number().parse('$1,299.50', 'p')).toEqual({ ok: true, value: 1299.5 });
+    expect(number({ max: 100 }).parse(101, 'score').ok).toBe(false);
+    expect(number({ min: 0 }).parse(-1, 'score').ok).toBe(false);
+    expect(number().parse('n/a', 'x').ok).toBe(false);
+  });
+
+  it('boolean accepts "true"/"false"', () => {
+    expect(boolean().parse('false', 'b')).toEqual({ ok: true, value: false });
+    expect(boolean().parse(1, 'b').ok).toBe(false);
+  });
+
+  it('array reports every failing item by index', () => {
+    const result = array(number()).parse([1, 'x', 3, {}], 'ids');
+    expect(result.ok).toBe(false);
+    expect(result.issues!.map(i => i.path)).toEqual(['ids[1]', 'ids[3]']);
+    expect(array(string(), { min: 1 }).parse([], 'pros').ok).toBe(false);
+  });
+
+  it('object requires fields, applies optional fallbacks and nests paths', () => {
+    const schema = object({
+      title: string({ min: 1 }),
+      tags: optional(array(string()), []),
+      note: optional(string()),
+      verdict: object({ score: number() })
+    });
+    expect(schema.parse({ title: 'T', verdict: { score: '7' } }, '')).toEqual({ ok: true, value: { title: 'T', tags: [], verdict: { score: 7 } } });
+
+    const bad = schema.parse({ verdict: { score: 'x' } }, '');
+    expect(bad.issues).toEqual([
+      { path: 'title', message: 'required field is missing' },
+      { path: 'verdict.score', message: 'expected number, got string' }
+    ]);
+  });
+
+  it('refine adds semantic checks after structural ones', () => {
+    const schema = refine(object({ a: number(), b: number() }), v => v.a < v.b ? [] : [{ path: 'b', message: 'must exceed a' }]);
+    expect(schema.parse({ a: 1, b: 2 }, '').ok).toBe(true);
+    expect(schema.parse({ a: 2, b: 1 }, '').issues).toEqual([{ path: 'b', message: 'must exceed a' }]);
+    expect(schema.parse({ a: 'x', b: 1 }, '').issues![0].path).toBe('a');
+  });
+
+  it('AIValidationError summarises the first issues', () => {
+    const issues = Array.from({ length: 7 }, (_, i) => ({ path: `f${i}`, message: 'bad' }));
+    const error = new AIValidationError('strategy', issues, '{}');
+    expect(error.field).toBe('f0');
+    expect(error.message).toContain(formatIssues(issues.slice(0, 5)));
+    expect(error.message).toContain('+2 more');
+  });
+});
@@ -0,0 +1,140 @@
+import { AIStep, AIValidationIssue } from '../types';
+
+// --- MINIMAL RUNTIME SCHEMA VALIDATION ---
+// Just enough to guard AI JSON output. Validators are lenient where LLMs are predictably sloppy
+// (numeric strings, "true"/"false") and strict where the pipeline would otherwise crash later.
+
+export type SchemaResult<T> =
+  | { ok: true; value: T; issues?: undefined }
+  | { ok: false; value?: undefined; issues: AIValidationIssue[] };
+
+export interface Schema<T> {
+  parse: (input: unknown, path: string) => SchemaResult<T>;
+  optional?: boolean;
+}
+
+const describe = (input: unknown): string => {
+  if (input === null) return 'null';
+  if (Array.isArray(input)) return 'array';
+  return typeof input;
+};
+
+const fail = <T>(path: string, message: string): SchemaResult<T> => ({ ok: false, issues: [{ path: path || '$', message }] });
+
+export const string = (opts: { min?: number } = {}): Schema<string> => ({
+  parse: (input, path) => {
+    // Models occasionally answer "price": 99 instead of "$99"
+    if (typeof input === 'number') input = String(input);
+    if (typeof input !== 'string') return fail(path, `expected string, got ${describe(input)}`);
+    if (opts.min && input.trim().length < opts.min) return fail(path, `expected non-empty string`);
+    return { ok: true, value: input };
+  }
+});
+
+export const number = (opts: { min?: number; max?: number } = {}): Schema<number> => ({
+  parse: (input, path) => {
+    // "$1,299" -> 1299; strings with no digits at all ("n/a") stay strings and fail below
+    const digits = typeof input === 'string' ? input.replace(/[^0-9.\-]/g, '') : '';
+    const value = typeof input === 'string' && /\d/.test(digits) ? Number(digits) : input;
+    if (typeof value !== 'number' || isNaN(value)) return fail(path, `expected number, got ${describe(input)}`);
+    if (opts.min !== undefined && value < opts.min) return fail(path, `expected >= ${opts.min}, got ${value}`);
+    if (opts.max !== undefined && value > opts.max) return fail(path, `expected <= ${opts.max}, got ${value}`);
+    return { ok: true, value };
+  }
+});
+
+export const boolean = (): Schema<boolean> => ({
+  parse: (input, path) => {
+    if (input === 'true' || input === 'false') input = input === 'true';
+    if (typeof input !== 'boolean') return fail(path, `expected boolean, got ${describe(input)}`);
+    return { ok: true, value: input };
+  }
+});
+
+export const array = <T>(item: Schema<T>, opts: { min?: number } = {}): Schema<T[]> => ({
+  parse: (input, path) => {
+    if (!Array.isArray(input)) return fail(path, `expected array, got ${describe(input)}`);
+    if (opts.min && input.length < opts.min) return fail(path, `expected at least ${opts.min} item(s), got ${input.length}`);
+    const value: T[] = [];
+    const issues: AIValidationIssue[] = [];
+    input.forEach((entry, i) => {
+      const result = item.parse(entry, `${path}[${i}]`);
+      if (result.ok) value.push(result.value);
+      else issues.push(...result.issues);
+    });
+    return issues.length ? { ok: false, issues } : { ok: true, value };
+  }
+});
+
+type Shape = Record<string, Schema<any>>;
+type Infer<S extends Shape> = { [K in keyof S]: S[K] extends Schema<infer T> ? T : never };
+
+export const object = <S extends Shape>(shape: S): Schema<Infer<S>> => ({
+  parse: (input, path) => {
+    if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+      return fail(path, `expected object, got ${describe(input)}`);
+    }
+    const value: Record<string, unknown> = {};
+    const issues: AIValidationIssue[] = [];
+    Object.entries(shape).forEach(([key, schema]) => {
+      const fieldPath = path ? `${path}.${key}` : key;
+      const raw = (input as Record<string, unknown>)[key];
+      if ((raw === undefined || raw === null) && schema.optional) {
+        const fallback = schema.parse(undefined, fieldPath);
+        if (fallback.ok && fallback.value !== undefined) value[key] = fallback.value;
+        return;
+      }
+      if (raw === undefined) {
+        issues.push({ path: fieldPath, message: 'required field is missing' });
+        return;
+      }
+      const result = schema.parse(raw, fieldPath);
+      if (result.ok) value[key] = result.value;
+      else issues.push(...result.issues);
+    });
+    return issues.length ? { ok: false, issues } : { ok: true, value: value as Infer<S> };
+  }
+});
+
+// Missing/null values resolve to `fallback` (or are omitted when no fallback is given)
+export const optional = <T>(schema: Schema<T>, fallback?: T): Schema<T> => ({
+  optional: true,
+  parse: (input, path) => {
+    if (input === undefined || input === null) return { ok: true, value: fallback as T };
+    return schema.parse(input, path);
+  }
+});
+
+// Adds cross-field / semantic checks on top of a structural schema
+export const refine = <T>(schema: Schema<T>, check: (value: T) => AIValidationIssue[]): Schema<T> => ({
+  optional: schema.optional,
+  parse: (input, path) => {
+    const result = schema.parse(input, path);
+    if (!result.ok) return result;
+    const issues = check(result.value);
+    return issues.length ? { ok: false, issues } : result;
+  }
+});
+
+export const formatIssues = (issues: AIValidationIssue[]): string =>
+  issues.map(i => `${i.path}: ${i.message}`).join('; ');
+
+// Thrown when an AI step still fails validation after all repair attempts.
+export class AIValidationError extends Error {
+  step: AIStep;
+  issues: AIValidationIssue[];
+  rawOutput: string;
+
+  constructor(step: AIStep, issues: AIValidationIssue[], rawOutput: string) {
+    super(`AI ${step} step returned invalid data (${formatIssues(issues.slice(0, 5))}${issues.length > 5 ? `; +${issues.length - 5} more` : ''})`);
+    this.name = 'AIValidationError';
+    this.step = step;
+    this.issues = issues;
+    this.rawOutput = rawOutput;
+  }
+
+  // First failing field, e.g. "internalLinkIds" or "verdict.pros[2]"
+  get field(): string {
+    return this.issues[0]?.path || '$';
+  }
+}
@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { setGeneratedBlock, stripGeneratedBlocks, splitTemplateSections } from './sections';
+
+const REFERENCES = '<div class="sota-references"><h3>Sources</h3></div>';
+const FAQ = '<div class="sota-faq-section"><h2>FAQ</h2><p>Q?</p></div>';
+
+describe('setGeneratedBlock', () => {
+  it('inserts a block before the references and replaces it in place later', () => {
+    const template = `<h2>One</h2><p>a</p>\n${REFERENCES}`;
+    const withFaq = setGeneratedBlock(template, 'faq', FAQ);
+    expect(withFaq).toBe(`<h2>One</h2><p>a</p>\n<!-- sota:faq -->${FAQ}<!-- /sota:faq -->\n${REFERENCES}`);
+
+    const replaced = setGeneratedBlock(withFaq, 'faq', '<p>$& new</p>');
+    expect(replaced).toBe(`<h2>One</h2><p>a</p>\n<!-- sota:faq --><p>$& new</p><!-- /sota:faq -->\n${REFERENCES}`);
+  });
+
+  it('opens the draft with the direct answer and keeps trailing blocks in order', () => {
+    let template = `<h2>One</h2><p>a</p>\n${REFERENCES}`;
+    template = setGeneratedBlock(template, 'faq', FAQ);
+    template = setGeneratedBlock(template, 'comparisonTable', '<table></table>');
+    template = setGeneratedBlock(template, 'sgeSummary', '<p>Answer</p>');
+    expect(template).toBe([
+      '<!-- sota:sgeSummary --><p>Answer</p><!-- /sota:sgeSummary -->',
+      '<h2>One</h2><p>a</p>',
+      '<!-- sota:comparisonTable --><table></table><!-- /sota:comparisonTable -->',
+      `<!-- sota:faq -->${FAQ}<!-- /sota:faq -->`,
+      REFERENCES
+    ].join('\n'));
+    expect(stripGeneratedBlocks(template)).toBe(`<h2>One</h2><p>a</p>\n${REFERENCES}`);
+  });
+
+  it('removes the block when the html is empty', () => {
+    const template = setGeneratedBlock('<p>a</p>', 'faq', FAQ);
+    expect(setGeneratedBlock(template, 'faq', '')).toBe('<p>a</p>\n');
+  });
+});
+
+describe('splitTemplateSections', () => {
+  it('keeps generated blocks and references out of the last section', () => {
+    const template = setGeneratedBlock(`<p>intro</p><h2>One</h2><p>a</p><h2>Two</h2><p>b</p>${REFERENCES}`, 'faq', FAQ);
+    const split = splitTemplateSections(template);
+    expect(split.sections.map(s => s.heading)).toEqual(['One', 'Two']);
+    expect(split.sections[1].html).toBe('<h2>Two</h2><p>b</p>\n');
+    expect(split.tail.startsWith('<!-- sota:faq -->')).toBe(true);
+  });
+});
@@ -0,0 +1,82 @@
+// --- TEMPLATE SECTIONS ---
+// Splits a content template at <h2> boundaries so a single section can be regenerated or edited
+// without touching its neighbours. The generated blocks and references that close the draft are
+// never part of a section.
+
+export interface TemplateSection {
+  heading: string; // Plain-text H2 label
+  html: string;    // From the opening <h2 up to (not including) the next one
+}
+
+export interface SplitTemplate {
+  intro: string;
+  sections: TemplateSection[];
+  tail: string; // Trailing generated blocks and the references block
+}
+
+const REFERENCES_MARKER = '<div class="sota-references"';
+
+// --- GENERATED BLOCKS ---
+// Blocks written apart from the body but published with it. Each sits between marker comments, so it
+// can be found and swapped without parsing the draft; the markers survive the editor and WordPress.
+// The direct answer opens the draft; the others close it in this order.
+export type GeneratedBlock = 'sgeSummary' | 'comparisonTable' | 'verdict' | 'faq';
+const TRAILING_BLOCKS: GeneratedBlock[] = ['comparisonTable', 'verdict', 'faq'];
+
+const openMarker = (kind: GeneratedBlock) => `<!-- sota:${kind} -->`;
+const blockPattern = (kind: GeneratedBlock) => new RegExp(`${openMarker(kind)}[\\s\\S]*?<!-- /sota:${kind} -->\\n?`);
+
+// Replaces the block in place, or inserts it at its slot (before any later block and the references).
+// Empty html removes it.
+export const setGeneratedBlock = (template: string, kind: GeneratedBlock, html: string): string => {
+  const block = html.trim() ? `${openMarker(kind)}${html.trim()}<!-- /sota:${kind} -->\n` : '';
+  const pattern = blockPattern(kind);
+  if (pattern.test(template)) return template.replace(pattern, () => block);
+  if (!block) return template;
+  if (kind === 'sgeSummary') return block + template;
+  const later = [...TRAILING_BLOCKS.slice(TRAILING_BLOCKS.indexOf(kind) + 1).map(openMarker), REFERENCES_MARKER]
+    .map(marker => template.indexOf(marker))
+    .filter(i => i !== -1);
+  const at = later.length > 0 ? Math.min(...later) : template.length;
+  const before = template.substring(0, at);
+  return before + (before && !before.endsWith('\n') ? '\n' : '') + block + template.substring(at);
+};
+
+// The body alone, for measurements that count the blocks separately
+export const stripGeneratedBlocks = (html: string): string =>
+  (['sgeSummary', ...TRAILING_BLOCKS] as GeneratedBlock[]).reduce((out, kind) => out.replace(blockPattern(kind), ''), html);
+
+export const splitTemplateSections = (template: string): SplitTemplate => {
+  const tailIndex = Math.min(...[...TRAILING_BLOCKS.map(openMarker), REFERENCES_MARKER]
+    .map(marker => template.indexOf(marker))
+    .map(i => i === -1 ? template.length : i));
+  const body = template.substring(0, tailIndex);
+  const tail = template.substring(tailIndex);
+
+  const starts: number[] = [];
+  const h2Regex = /<h2[\s>]/gi;
+  let match;
+  while ((match = h2Regex.exec(body)) !== null) starts.push(match.index);
+
+  if (starts.length === 0) return { intro: body, sections: [], tail };
+
+  const sections = starts.map((start, i) => {
+    const html = body.substring(start, starts[i + 1] ?? body.length);
+    const headingMatch = html.match(/<h2[^>]*>([\s\S]*?)<\/h2>/i);
+    return { heading: (headingMatch?.[1] || '').replace(/<[^>]+>/g, '').trim(), html };
+  });
+
+  return { intro: body.substring(0, starts[0]), sections, tail };
+};
+
+export const joinTemplateSections = ({ intro, sections, tail }: SplitTemplate): string =>
+  intro + sections.map(s => s.html).join('') + tail;
+
+export const replaceTemplateSection = (template: string, index: number, html: string): string => {
+  const split = splitTemplateSections(template);
+  if (!split.sections[index]) throw new Error(`Section ${index + 1} no longer exists in this draft.`);
+  // Keep the separator whitespace the original section ended with
+  const trailing = split.sections[index].html.match(/\s*$/)?.[0] || '';
+  split.sections[index] = { ...split.sections[index], html: html.trim() + trailing };
+  return joinTemplateSections(split);
+};
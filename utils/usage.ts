@@ -0,0 +1,38 @@
+import { AIUsageRecord, ModelPrice } from '../types';
+import { DEFAULT_PRICE_TABLE } from '../constants';
+
+export interface UsageSummary {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  latencyMs: number;
+  costUsd: number;
+  estimated: boolean;
+  unpriced: boolean; // Some calls ran on a model with no known price, so costUsd is too low
+}
+
+// Rough heuristic for providers that do not report usage: ~4 characters per token
+export const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
+
+// Undefined when neither the overrides nor the defaults know the model; that is never the same as free
+export const resolvePrice = (model: string, priceTable?: Record<string, ModelPrice>): ModelPrice | undefined =>
+  priceTable?.[model] || DEFAULT_PRICE_TABLE[model];
+
+export const estimateCost = (price: ModelPrice, promptTokens: number, completionTokens: number): number =>
+  (promptTokens * price.input + completionTokens * price.output) / 1_000_000;
+
+export const summarizeUsage = (records: AIUsageRecord[] = []): UsageSummary => records.reduce<UsageSummary>((sum, r) => ({
+  calls: sum.calls + 1,
+  promptTokens: sum.promptTokens + r.promptTokens,
+  completionTokens: sum.completionTokens + r.completionTokens,
+  latencyMs: sum.latencyMs + r.latencyMs,
+  costUsd: sum.costUsd + r.costUsd,
+  estimated: sum.estimated || r.estimated,
+  unpriced: sum.unpriced || !!r.unpriced
+}), { calls: 0, promptTokens: 0, completionTokens: 0, latencyMs: 0, costUsd: 0, estimated: false, unpriced: false });
+
+export const formatUsd = (value: number): string =>
+  value < 0.01 && value > 0 ? `$${value.toFixed(4)}` : `$${value.toFixed(2)}`;
+
+export const formatTokens = (value: number): string =>
+  value >= 1000 ? `${(value / 1000).toFixed(1)}k` : `${value}`;
@@ -1,3 +1,4 @@
+/// <reference types="vitest/config" />
 import { defineConfig } from 'vite';
 import react from '@vitejs/plugin-react';
 
@@ -15,5 +16,11 @@ export default defineConfig({
         },
       },
     },
+  },
+  test: {
+    // DOM-dependent suites opt in with a `@vitest-environment happy-dom` docblock
+    environment: 'node',
+    include: ['**/*.test.ts'],
+    exclude: ['node_modules/**', 'dist/**']
   }
 });
\ No newline at end of file